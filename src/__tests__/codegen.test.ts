@@ -244,4 +244,359 @@ describe('Code Generation', () => {
       );
     });
   });
-}); 
\ No newline at end of file
+
+  describe('PlaywrightGenerator', () => {
+    const createSession = (actions: { toolName: string; parameters: Record<string, unknown> }[]) => ({
+      id: TEST_CONFIG.MOCK_SESSION_ID,
+      startTime: Date.now(),
+      actions: actions.map(action => ({ ...action, timestamp: Date.now() }))
+    });
+
+    it('should emit test.use({ storageState }) when the session started from saved state', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_load_storage_state', parameters: { path: 'auth/admin.json' } },
+        { toolName: 'playwright_navigate', parameters: { url: 'https://example.com' } },
+        { toolName: 'playwright_save_storage_state', parameters: { path: 'auth/after.json' } }
+      ]));
+
+      expect(testCode).toContain("test.use({ storageState: 'auth/admin.json' });");
+      expect(testCode).toContain("await page.context().storageState({ path: 'auth/after.json' });");
+    });
+
+    it('should escape storage state paths', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_load_storage_state', parameters: { path: "C:\\auth\\o'brien.json" } },
+        { toolName: 'playwright_save_storage_state', parameters: { path: "C:\\auth\\after's.json" } }
+      ]));
+
+      expect(testCode).toContain("test.use({ storageState: 'C:\\\\auth\\\\o\\'brien.json' });");
+      expect(testCode).toContain("await page.context().storageState({ path: 'C:\\\\auth\\\\after\\'s.json' });");
+    });
+
+    it('should not emit test.use without saved state', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_navigate', parameters: { url: 'https://example.com' } }
+      ]));
+
+      expect(testCode).not.toContain('test.use');
+    });
+
+    it('should emit page.route calls for recorded routes', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_route', parameters: { url: '**/api/users', method: 'get', body: [{ id: 1 }] } },
+        { toolName: 'playwright_route', parameters: { url: '**/*.png', abort: true, errorCode: 'blockedbyclient' } },
+        { toolName: 'playwright_route', parameters: { url: '**/slow', delay: 500 } },
+        { toolName: 'playwright_unroute', parameters: { url: '**/api/users' } },
+        { toolName: 'playwright_list_routes', parameters: {} }
+      ]));
+
+      expect(testCode).toContain(`await page.route('**/api/users', async route => {
+      if (route.request().method() !== 'GET') return route.fallback();
+      await route.fulfill({ status: 200, json: [{"id":1}] });
+    });`);
+      expect(testCode).toContain("await route.abort('blockedbyclient');");
+      expect(testCode).toContain('await new Promise(resolve => setTimeout(resolve, 500));\n      await route.continue();');
+      expect(testCode).toContain("await page.unroute('**/api/users');");
+    });
+
+    it('should emit role locators for actions recorded with snapshot refs', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_fill', parameters: { ref: 'e3', value: 'user@example.com', refTarget: { role: 'textbox', name: 'Email' } } },
+        { toolName: 'playwright_click', parameters: { ref: 'e5', refTarget: { role: 'button', name: "Let's go" } } }
+      ]));
+
+      expect(testCode).toContain("await page.getByRole('textbox', { name: 'Email' }).fill('user@example.com');");
+      expect(testCode).toContain("await page.getByRole('button', { name: 'Let\\'s go' }).click();");
+    });
+
+    it('should emit built-in locators for actions recorded with locator descriptors', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_fill', parameters: { locator: { label: 'Email', exact: true }, value: 'user@example.com' } },
+        { toolName: 'playwright_hover', parameters: { locator: { text: 'Products' } } },
+        { toolName: 'playwright_select', parameters: { locator: { testId: 'country' }, value: 'DE' } },
+        { toolName: 'playwright_click', parameters: { locator: { frame: '#checkout', role: 'button', name: 'Pay', nth: -1 } } },
+        { toolName: 'playwright_click', parameters: { locator: { xpath: '//footer//a' } } },
+        { toolName: 'playwright_click', parameters: { selector: '#legacy' } }
+      ]));
+
+      expect(testCode).toContain("await page.getByLabel('Email', { exact: true }).fill('user@example.com');");
+      expect(testCode).toContain("await page.getByText('Products').hover();");
+      expect(testCode).toContain("await page.getByTestId('country').selectOption('DE');");
+      expect(testCode).toContain("await page.frameLocator('#checkout').getByRole('button', { name: 'Pay' }).last().click();");
+      expect(testCode).toContain("await page.locator('xpath=//footer//a').click();");
+      expect(testCode).toContain("await page.click('#legacy');");
+    });
+
+    it('should escape filled and selected values', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_fill', parameters: { locator: { label: 'Address' }, value: "O'Brien St\nApt 2" } },
+        { toolName: 'playwright_select', parameters: { locator: { testId: 'size' }, value: "8' \\ 10'" } },
+        { toolName: 'playwright_fill', parameters: { selector: '#note', value: "it's" } }
+      ]));
+
+      expect(testCode).toContain("await page.getByLabel('Address').fill('O\\'Brien St\\nApt 2');");
+      expect(testCode).toContain("await page.getByTestId('size').selectOption('8\\' \\\\ 10\\'');");
+      expect(testCode).toContain("await page.fill('#note', 'it\\'s');");
+    });
+
+    it('should emit click options, double-clicks and checks', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_click', parameters: { selector: '#row-3', button: 'right', modifiers: ['ControlOrMeta', 'Shift'] } },
+        { toolName: 'playwright_click', parameters: { locator: { text: 'Item' }, clickCount: 2, position: { x: 5, y: 10 }, force: true } },
+        { toolName: 'playwright_dblclick', parameters: { selector: '.cell' } },
+        { toolName: 'playwright_check', parameters: { locator: { role: 'checkbox', name: 'Remember me' } } },
+        { toolName: 'playwright_uncheck', parameters: { selector: '#newsletter', trial: true } }
+      ]));
+
+      expect(testCode).toContain("await page.click('#row-3', { button: 'right', modifiers: ['ControlOrMeta', 'Shift'] });");
+      expect(testCode).toContain("await page.getByText('Item').click({ clickCount: 2, position: { x: 5, y: 10 }, force: true });");
+      expect(testCode).toContain("await page.dblclick('.cell');");
+      expect(testCode).toContain("await page.getByRole('checkbox', { name: 'Remember me' }).check();");
+      expect(testCode).toContain("await page.uncheck('#newsletter', { trial: true });");
+    });
+
+    it('should emit typing and keyboard steps', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_type', parameters: { locator: { label: 'City' }, text: 'Ber', delay: 100, clear: true } },
+        { toolName: 'playwright_type', parameters: { text: 'hello' } },
+        { toolName: 'playwright_press_key', parameters: { key: 'Enter', selector: '#search' } },
+        { toolName: 'playwright_keyboard', parameters: { actions: ['Control+A', { key: 'Shift+ArrowDown', repeat: 3 }, { insertText: 'done' }] } },
+        { toolName: 'playwright_select_text', parameters: { selector: '#name' } }
+      ]));
+
+      expect(testCode).toContain("await page.getByLabel('City').clear();");
+      expect(testCode).toContain("await page.getByLabel('City').pressSequentially('Ber', { delay: 100 });");
+      expect(testCode).toContain("await page.keyboard.type('hello');");
+      expect(testCode).toContain("await page.locator('#search').press('Enter');");
+      expect(testCode).toContain("await page.keyboard.press('Control+A');");
+      expect(testCode).toContain("for (let i = 0; i < 3; i++) await page.keyboard.press('Shift+ArrowDown');");
+      expect(testCode).toContain("await page.keyboard.insertText('done');");
+      expect(testCode).toContain("await page.locator('#name').selectText();");
+    });
+
+    it('should emit drag, mouse and touch steps', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_drag', parameters: { sourceLocator: { testId: 'card-1' }, targetSelector: '#done', targetPosition: { x: 10, y: 20 } } },
+        { toolName: 'playwright_mouse', parameters: { actions: [
+          { type: 'move', x: 10, y: 20 },
+          { type: 'down' },
+          { type: 'move', x: 300, y: 20, steps: 15 },
+          { type: 'up', button: 'left' },
+          { type: 'wheel', x: 400, y: 300, deltaY: 250 }
+        ] } },
+        { toolName: 'playwright_touch', parameters: { gesture: 'tap', x: 50, y: 60 } },
+        { toolName: 'playwright_touch', parameters: { gesture: 'swipe', selector: '#carousel', deltaX: -100 } }
+      ]));
+
+      expect(testCode).toContain("await page.getByTestId('card-1').dragTo(page.locator('#done'), { targetPosition: { x: 10, y: 20 } });");
+      expect(testCode).toContain('await page.mouse.move(10, 20);');
+      expect(testCode).toContain('await page.mouse.down();');
+      expect(testCode).toContain('await page.mouse.move(300, 20, { steps: 15 });');
+      expect(testCode).toContain("await page.mouse.up({ button: 'left' });");
+      expect(testCode).toContain('await page.mouse.wheel(0, 250);');
+      expect(testCode).toContain('await page.touchscreen.tap(50, 60);');
+      expect(testCode).toContain("const box = (await page.locator('#carousel').boundingBox())!;");
+      expect(testCode).toContain('const to = [{ x: start.x - 100, y: start.y }];');
+      expect(testCode).toContain("await cdp.send('Input.dispatchTouchEvent', { type: 'touchEnd', touchPoints: [] });");
+    });
+
+    it('should emit scroll steps', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_scroll', parameters: { locator: { text: 'Load more' } } },
+        { toolName: 'playwright_scroll', parameters: { deltaY: 500 } },
+        { toolName: 'playwright_scroll', parameters: { container: '.table-body', to: 'bottom' } },
+        { toolName: 'playwright_scroll_until', parameters: { itemSelector: '.post', untilSelector: '#end', maxIterations: 5 } }
+      ]));
+
+      expect(testCode).toContain("await page.getByText('Load more').scrollIntoViewIfNeeded();");
+      expect(testCode).toContain('await page.evaluate(() => document.scrollingElement!.scrollBy(0, 500));');
+      expect(testCode).toContain("await page.locator('.table-body').evaluate(el => el.scrollTo({ top: el.scrollHeight }));");
+      expect(testCode).toContain('for (let i = 0; i < 5; i++) {');
+      expect(testCode).toContain("if (await page.locator('#end').count() > 0) break;");
+      expect(testCode).toContain("const count = await page.locator('.post').count();");
+      expect(testCode).toContain('await page.evaluate(() => document.scrollingElement!.scrollTo({ top: document.scrollingElement!.scrollHeight }));');
+      expect(testCode).toContain('await page.waitForTimeout(500);');
+    });
+
+    it('should emit dialog handlers before the action that opened the dialog', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_dialog_policy', parameters: { action: 'accept', promptText: 'Bob' } },
+        { toolName: 'playwright_dialog_policy', parameters: { action: 'queue' } },
+        { toolName: 'playwright_click', parameters: { selector: '#delete' } },
+        { toolName: 'playwright_dialog_log', parameters: {} },
+        { toolName: 'playwright_handle_dialog', parameters: { accept: false } }
+      ]));
+
+      expect(testCode).toContain("page.on('dialog', dialog => dialog.accept('Bob'));");
+      expect(testCode).toContain("page.once('dialog', dialog => dialog.dismiss());");
+      expect(testCode.indexOf("page.once('dialog'")).toBeLessThan(testCode.indexOf("await page.click('#delete');"));
+    });
+
+    it('should emit download handling for playwright_click_and_download', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_click_and_download', parameters: { locator: { role: 'button', name: 'Export CSV' } } },
+        { toolName: 'playwright_list_downloads', parameters: {} }
+      ]));
+
+      expect(testCode).toContain("const downloadPromise = page.waitForEvent('download');");
+      expect(testCode).toContain("await page.getByRole('button', { name: 'Export CSV' }).click();");
+      expect(testCode).toContain('await download.saveAs(test.info().outputPath(download.suggestedFilename()));');
+    });
+
+    it('should emit file uploads for playwright_upload_file', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_upload_file', parameters: { selector: '#file', filePath: ['/tmp/a.txt', '/tmp/b.txt'] } },
+        { toolName: 'playwright_upload_file', parameters: { selector: '#file', clear: true } },
+        { toolName: 'playwright_upload_file', parameters: { selector: '#pick', files: [{ name: 'a.csv', buffer: 'YQ==' }], mode: 'filechooser' } },
+        { toolName: 'playwright_upload_file', parameters: { selector: '#dropzone', filePath: '/tmp/photo.png', mode: 'drop' } }
+      ]));
+
+      expect(testCode).toContain("await page.locator('#file').setInputFiles(['/tmp/a.txt', '/tmp/b.txt']);");
+      expect(testCode).toContain("await page.locator('#file').setInputFiles([]);");
+      expect(testCode).toContain("await fileChooser.setFiles([{ name: 'a.csv', mimeType: 'text/csv', buffer: Buffer.from('YQ==', 'base64') }]);");
+      expect(testCode).toContain("buffer: readFileSync('/tmp/photo.png').toString('base64')");
+      expect(testCode).toContain("await page.locator('#dropzone').dispatchEvent(type, { dataTransfer });");
+    });
+
+    it('should build the data transfer for a drop inside a frame in that frame', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_upload_file', parameters: { selector: '#dropzone', files: [{ name: 'a.txt', buffer: 'YQ==' }], mode: 'drop', frame: '#uploader' } }
+      ]));
+
+      expect(testCode).toContain("const dataTransfer = await page.frameLocator('#uploader').locator('#dropzone').evaluateHandle((dropzone, files) => {");
+      expect(testCode).not.toContain('page.evaluateHandle');
+      expect(testCode).toContain("await page.frameLocator('#uploader').locator('#dropzone').dispatchEvent(type, { dataTransfer });");
+    });
+
+    it('should emit frame locators for actions inside frames', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_fill', parameters: { selector: '#card', value: '4242', frame: ['#checkout', { name: 'card' }] } },
+        { toolName: 'playwright_click', parameters: { locator: { role: 'button', name: 'Pay' }, frame: { url: 'https://pay.example.com/*' } } },
+        { toolName: 'playwright_iframe_click', parameters: { iframeSelector: '#chat', selector: '#close' } },
+        { toolName: 'playwright_list_frames', parameters: {} }
+      ]));
+
+      expect(testCode).toContain(`await page.frameLocator('#checkout').frameLocator('iframe[name="card"]').locator('#card').fill('4242');`);
+      expect(testCode).toContain(`await page.frameLocator('iframe[src*="https://pay.example.com/"]').getByRole('button', { name: 'Pay' }).click();`);
+      expect(testCode).toContain("await page.frameLocator('#chat').locator('#close').click();");
+    });
+
+    it('should emit device emulation as test.use options', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_navigate', parameters: { url: 'https://example.com', device: 'iphone 13', colorScheme: 'dark', geolocation: { latitude: 52.52, longitude: 13.4 } } },
+        { toolName: 'playwright_list_devices', parameters: {} }
+      ]));
+
+      expect(testCode).toContain("import { devices } from '@playwright/test';");
+      expect(testCode).toContain("test.use({ ...devices['iPhone 13'], colorScheme: 'dark', geolocation: { latitude: 52.52, longitude: 13.4 }, permissions: ['geolocation'] });");
+    });
+
+    it('should replay runtime emulation and apply the user agent through test.use', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_navigate', parameters: { url: 'https://example.com' } },
+        { toolName: 'playwright_custom_user_agent', parameters: { userAgent: 'TestBot/1.0' } },
+        { toolName: 'playwright_set_viewport', parameters: { width: 375, height: 812 } },
+        { toolName: 'playwright_emulate_media', parameters: { media: 'print', colorScheme: 'reset' } },
+        { toolName: 'playwright_set_geolocation', parameters: { latitude: 48.85, longitude: 2.35 } },
+        { toolName: 'playwright_set_offline', parameters: { offline: true } },
+        { toolName: 'playwright_set_extra_headers', parameters: { headers: { 'X-Test': '1' } } }
+      ]));
+
+      expect(testCode).toContain("test.use({ userAgent: 'TestBot/1.0' });");
+      expect(testCode).not.toContain('setUserAgent');
+      expect(testCode).toContain('await page.setViewportSize({ width: 375, height: 812 });');
+      expect(testCode).toContain("await page.emulateMedia({ media: 'print', colorScheme: null });");
+      expect(testCode).toContain('await page.context().setGeolocation({ latitude: 48.85, longitude: 2.35 });');
+      expect(testCode).toContain("await page.context().grantPermissions(['geolocation']);");
+      expect(testCode).toContain('await page.context().setOffline(true);');
+      expect(testCode).toContain('await page.context().setExtraHTTPHeaders({"X-Test":"1"});');
+    });
+
+    it('should replay throttling through a CDP session', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_navigate', parameters: { url: 'https://example.com' } },
+        { toolName: 'playwright_throttle', parameters: { preset: 'slow-3g', cpuRate: 4 } }
+      ]));
+
+      expect(testCode).toContain('const cdp = await page.context().newCDPSession(page);');
+      expect(testCode).toContain("await cdp.send('Network.emulateNetworkConditions', { offline: false, latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000 });");
+      expect(testCode).toContain("await cdp.send('Emulation.setCPUThrottlingRate', { rate: 4 });");
+    });
+
+    it('should replay tracing through the context of the page', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_start_tracing', parameters: { title: 'Checkout', sources: false } },
+        { toolName: 'playwright_navigate', parameters: { url: 'https://example.com' } },
+        { toolName: 'playwright_stop_tracing', parameters: { path: 'traces/checkout.zip' } }
+      ]));
+
+      expect(testCode).toContain("await page.context().tracing.start({ screenshots: true, snapshots: true, sources: false, title: 'Checkout' });");
+      expect(testCode).toContain("await page.context().tracing.stop({ path: 'traces/checkout.zip' });");
+    });
+
+    it('should emit expect assertions for recorded playwright_expect calls', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_expect', parameters: { assertion: 'toHaveText', locator: { role: 'status' }, expected: 'Saved' } },
+        { toolName: 'playwright_expect', parameters: { assertion: 'toBeVisible', selector: '.spinner', not: true, timeout: 10000 } },
+        { toolName: 'playwright_expect', parameters: { assertion: 'toHaveURL', expected: '/orders/\\d+', regex: true } },
+        { toolName: 'playwright_expect', parameters: { assertion: 'toHaveCount', selector: 'li', expected: '3' } },
+        { toolName: 'playwright_expect', parameters: { assertion: 'toHaveAttribute', selector: 'a', attribute: 'href', expected: '/cart' } }
+      ]));
+
+      expect(testCode).toContain("await expect(page.getByRole('status')).toHaveText('Saved');");
+      expect(testCode).toContain("await expect(page.locator('.spinner')).not.toBeVisible({ timeout: 10000 });");
+      expect(testCode).toContain("await expect(page).toHaveURL(/\\/orders\\/\\d+/);");
+      expect(testCode).toContain("await expect(page.locator('li')).toHaveCount(3);");
+      expect(testCode).toContain("await expect(page.locator('a')).toHaveAttribute('href', '/cart');");
+    });
+
+    it('should emit waits for recorded playwright_wait_for calls', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_wait_for', parameters: { selector: '.spinner', state: 'hidden' } },
+        { toolName: 'playwright_wait_for', parameters: { locator: { role: 'dialog' }, timeout: 5000 } },
+        { toolName: 'playwright_wait_for', parameters: { loadState: 'networkidle' } },
+        { toolName: 'playwright_wait_for', parameters: { url: '/orders/\\d+', regex: true } },
+        { toolName: 'playwright_wait_for', parameters: { function: '() => window.appReady', polling: 100 } },
+        { toolName: 'playwright_wait_for', parameters: { time: 500 } }
+      ]));
+
+      expect(testCode).toContain("await page.waitForSelector('.spinner', { state: 'hidden' });");
+      expect(testCode).toContain("await page.getByRole('dialog').waitFor({ state: 'visible', timeout: 5000 });");
+      expect(testCode).toContain("await page.waitForLoadState('networkidle');");
+      expect(testCode).toContain("await page.waitForURL(/\\/orders\\/\\d+/);");
+      expect(testCode).toContain("await page.waitForFunction('() => window.appReady', undefined, { polling: 100 });");
+      expect(testCode).toContain("await page.waitForTimeout(500);");
+    });
+
+    it('should emit page.routeFromHAR for recorded HAR replays', async () => {
+      const generator = new PlaywrightGenerator({ outputPath: TEST_CONFIG.OUTPUT_DIR, template: 'plain' });
+      const { testCode } = await generator.generateTest(createSession([
+        { toolName: 'playwright_route_from_har', parameters: { path: 'hars/backend.har', url: '**/api/**', notFound: 'fallback' } }
+      ]));
+
+      expect(testCode).toContain("await page.routeFromHAR('hars/backend.har', { url: '**/api/**', notFound: 'fallback' });");
+    });
+  });
+});
@@ -62,7 +62,8 @@ jest.mock('playwright', () => {
   const mockNewPage = jest.fn().mockImplementation(() => Promise.resolve(mockPage));
   const mockContexts = jest.fn().mockReturnValue([]);
   const mockContext = {
-    newPage: mockNewPage
+    newPage: mockNewPage,
+    on: jest.fn()
   };
 
   const mockNewContext = jest.fn().mockImplementation(() => Promise.resolve(mockContext));
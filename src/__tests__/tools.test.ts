@@ -51,14 +51,14 @@ describe('Tool Definitions', () => {
   test('should validate go_back tool schema', () => {
     const goBackTool = toolDefinitions.find(tool => tool.name === 'playwright_go_back');
     expect(goBackTool).toBeDefined();
-    expect(goBackTool!.inputSchema.properties).toEqual({});
+    expect(goBackTool!.inputSchema.properties).toEqual({ sessionId: expect.objectContaining({ type: 'string' }) });
     expect(goBackTool!.inputSchema.required).toEqual([]);
   });
 
   test('should validate go_forward tool schema', () => {
     const goForwardTool = toolDefinitions.find(tool => tool.name === 'playwright_go_forward');
     expect(goForwardTool).toBeDefined();
-    expect(goForwardTool!.inputSchema.properties).toEqual({});
+    expect(goForwardTool!.inputSchema.properties).toEqual({ sessionId: expect.objectContaining({ type: 'string' }) });
     expect(goForwardTool!.inputSchema.required).toEqual([]);
   });
 
@@ -67,7 +67,9 @@ describe('Tool Definitions', () => {
     expect(dragTool).toBeDefined();
     expect(dragTool!.inputSchema.properties).toHaveProperty('sourceSelector');
     expect(dragTool!.inputSchema.properties).toHaveProperty('targetSelector');
-    expect(dragTool!.inputSchema.required).toEqual(['sourceSelector', 'targetSelector']);
+    expect(dragTool!.inputSchema.properties).toHaveProperty('sourceLocator');
+    expect(dragTool!.inputSchema.properties).toHaveProperty('targetLocator');
+    expect(dragTool!.inputSchema.required).toEqual([]);
   });
 
   test('should validate press_key tool schema', () => {
@@ -94,6 +96,9 @@ describe('Tool Definitions', () => {
     expect(uploadFileTool).toBeDefined();
     expect(uploadFileTool!.inputSchema.properties).toHaveProperty('selector');
     expect(uploadFileTool!.inputSchema.properties).toHaveProperty('filePath');
-    expect(uploadFileTool!.inputSchema.required).toEqual(['selector', 'filePath']);
+    expect(uploadFileTool!.inputSchema.properties).toHaveProperty('locator');
+    expect(uploadFileTool!.inputSchema.properties).toHaveProperty('files');
+    expect(uploadFileTool!.inputSchema.properties).toHaveProperty('mode');
+    expect(uploadFileTool!.inputSchema.required).toEqual([]);
   });
 }); 
\ No newline at end of file
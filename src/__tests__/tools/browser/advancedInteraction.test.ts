@@ -1,10 +1,9 @@
 import { DragTool, PressKeyTool } from '../../../tools/browser/interaction.js';
 import { ToolContext } from '../../../tools/common/types.js';
-import { Page, Browser, ElementHandle } from 'playwright';
+import { Page, Browser } from 'playwright';
 import { jest } from '@jest/globals';
 
 // Mock page functions
-const mockWaitForSelector = jest.fn();
 const mockMouseMove = jest.fn().mockImplementation(() => Promise.resolve());
 const mockMouseDown = jest.fn().mockImplementation(() => Promise.resolve());
 const mockMouseUp = jest.fn().mockImplementation(() => Promise.resolve());
@@ -12,14 +11,15 @@ const mockKeyboardPress = jest.fn().mockImplementation(() => Promise.resolve());
 const mockFocus = jest.fn().mockImplementation(() => Promise.resolve());
 const mockIsClosed = jest.fn().mockReturnValue(false);
 
-// Mock element handle
+// Mock locator
 const mockBoundingBox = jest.fn().mockReturnValue({ x: 10, y: 10, width: 100, height: 50 });
-const mockElementHandle = {
-  boundingBox: mockBoundingBox
-} as unknown as ElementHandle;
-
-// Wait for selector returns element handle
-mockWaitForSelector.mockImplementation(() => Promise.resolve(mockElementHandle));
+const mockDragTo = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocator = jest.fn().mockReturnValue({
+  boundingBox: mockBoundingBox,
+  focus: mockFocus,
+  dragTo: mockDragTo,
+  first() { return this; }
+});
 
 // Mock mouse
 const mockMouse = {
@@ -35,7 +35,7 @@ const mockKeyboard = {
 
 // Mock the Page object with proper typing
 const mockPage = {
-  waitForSelector: mockWaitForSelector,
+  locator: mockLocator,
   mouse: mockMouse,
   keyboard: mockKeyboard,
   focus: mockFocus,
@@ -82,8 +82,8 @@ describe('Advanced Browser Interaction Tools', () => {
 
       const result = await dragTool.execute(args, mockContext);
 
-      expect(mockWaitForSelector).toHaveBeenCalledWith('#source-element');
-      expect(mockWaitForSelector).toHaveBeenCalledWith('#target-element');
+      expect(mockLocator).toHaveBeenCalledWith('#source-element');
+      expect(mockLocator).toHaveBeenCalledWith('#target-element');
       expect(mockBoundingBox).toHaveBeenCalledTimes(2);
       expect(mockMouseMove).toHaveBeenCalledWith(60, 35); // Source center (10+100/2, 10+50/2)
       expect(mockMouseDown).toHaveBeenCalled();
@@ -93,6 +93,55 @@ describe('Advanced Browser Interaction Tools', () => {
       expect(result.content[0].text).toContain('Dragged element from');
     });
 
+    test('should drag between elements found by locator descriptors', async () => {
+      const getByTestId = jest.fn().mockReturnValue({ boundingBox: mockBoundingBox });
+      const page = { ...mockPage, getByTestId } as unknown as Page;
+
+      const result = await dragTool.execute({
+        sourceLocator: { testId: 'card-1' },
+        targetLocator: { testId: 'done-column' }
+      }, { ...mockContext, page });
+
+      expect(getByTestId).toHaveBeenCalledWith('card-1');
+      expect(getByTestId).toHaveBeenCalledWith('done-column');
+      expect(result.content[0].text).toBe("Dragged element from page.getByTestId('card-1') to page.getByTestId('done-column')");
+    });
+
+    test('should require a source and a target', async () => {
+      const result = await dragTool.execute({ sourceSelector: '#source-element' }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('selector, ref or locator must be provided');
+      expect(mockMouseDown).not.toHaveBeenCalled();
+    });
+
+    test('should drag with offsets and intermediate steps', async () => {
+      const result = await dragTool.execute({
+        sourceSelector: '#card',
+        targetSelector: '#column',
+        sourcePosition: { x: 5, y: 5 },
+        targetPosition: { x: 90, y: 40 },
+        steps: 20
+      }, mockContext);
+
+      expect(mockMouseMove).toHaveBeenNthCalledWith(1, 15, 15);
+      expect(mockMouseMove).toHaveBeenNthCalledWith(2, 100, 50, { steps: 20 });
+      expect(result.isError).toBe(false);
+    });
+
+    test('should use dragTo in html5 mode', async () => {
+      const result = await dragTool.execute({
+        sourceSelector: '#card',
+        targetSelector: '#column',
+        targetPosition: { x: 10, y: 10 },
+        mode: 'html5'
+      }, mockContext);
+
+      expect(mockDragTo).toHaveBeenCalledWith(expect.objectContaining({ dragTo: mockDragTo }), { targetPosition: { x: 10, y: 10 } });
+      expect(mockMouseMove).not.toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Dragged element from #card to #column (HTML5 drag and drop)');
+    });
+
     test('should handle errors when element positions cannot be determined', async () => {
       const args = {
         sourceSelector: '#source-element',
@@ -104,7 +153,7 @@ describe('Advanced Browser Interaction Tools', () => {
 
       const result = await dragTool.execute(args, mockContext);
 
-      expect(mockWaitForSelector).toHaveBeenCalledWith('#source-element');
+      expect(mockLocator).toHaveBeenCalledWith('#source-element');
       expect(mockBoundingBox).toHaveBeenCalled();
       expect(mockMouseMove).not.toHaveBeenCalled();
       expect(result.isError).toBe(true);
@@ -122,8 +171,8 @@ describe('Advanced Browser Interaction Tools', () => {
 
       const result = await dragTool.execute(args, mockContext);
 
-      expect(mockWaitForSelector).toHaveBeenCalledWith('#source-element');
-      expect(mockWaitForSelector).toHaveBeenCalledWith('#target-element');
+      expect(mockLocator).toHaveBeenCalledWith('#source-element');
+      expect(mockLocator).toHaveBeenCalledWith('#target-element');
       expect(mockBoundingBox).toHaveBeenCalled();
       expect(mockMouseMove).toHaveBeenCalled();
       expect(mockMouseDown).toHaveBeenCalled();
@@ -139,7 +188,7 @@ describe('Advanced Browser Interaction Tools', () => {
 
       const result = await dragTool.execute(args, { server: mockServer } as ToolContext);
 
-      expect(mockWaitForSelector).not.toHaveBeenCalled();
+      expect(mockLocator).not.toHaveBeenCalled();
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Browser page not initialized');
     });
@@ -166,8 +215,8 @@ describe('Advanced Browser Interaction Tools', () => {
 
       const result = await pressKeyTool.execute(args, mockContext);
 
-      expect(mockWaitForSelector).toHaveBeenCalledWith('#input-field');
-      expect(mockFocus).toHaveBeenCalledWith('#input-field');
+      expect(mockLocator).toHaveBeenCalledWith('#input-field');
+      expect(mockFocus).toHaveBeenCalled();
       expect(mockKeyboardPress).toHaveBeenCalledWith('Enter');
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain('Pressed key: Enter');
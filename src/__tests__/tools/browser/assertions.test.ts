@@ -0,0 +1,146 @@
+import { ExpectTool } from '../../../tools/browser/assertions.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Mock locator functions
+const mockCount = jest.fn().mockImplementation(() => Promise.resolve(1));
+const mockIsVisible = jest.fn().mockImplementation(() => Promise.resolve(true));
+const mockTextContent = jest.fn().mockImplementation(() => Promise.resolve('  Order   saved  '));
+const mockInputValue = jest.fn().mockImplementation(() => Promise.resolve('user@example.com'));
+const mockGetAttribute = jest.fn().mockImplementation(() => Promise.resolve('/cart'));
+const mockIsChecked = jest.fn().mockImplementation(() => Promise.resolve(false));
+const mockIsEnabled = jest.fn().mockImplementation(() => Promise.resolve(true));
+
+// Mock locator
+const mockLocatorFirst = jest.fn();
+const mockLocatorObject = {
+  count: mockCount,
+  isVisible: mockIsVisible,
+  textContent: mockTextContent,
+  inputValue: mockInputValue,
+  getAttribute: mockGetAttribute,
+  isChecked: mockIsChecked,
+  isEnabled: mockIsEnabled,
+  first: mockLocatorFirst
+};
+mockLocatorFirst.mockReturnValue(mockLocatorObject);
+const mockLocator = jest.fn().mockReturnValue(mockLocatorObject);
+
+// Mock the Page object with proper typing
+const mockUrl = jest.fn().mockReturnValue('https://example.com/dashboard');
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  url: mockUrl,
+  title: jest.fn().mockImplementation(() => Promise.resolve('Dashboard')),
+  locator: mockLocator
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Expect Tool', () => {
+  let expectTool: ExpectTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    expectTool = new ExpectTool(mockServer);
+  });
+
+  test('should pass toHaveText with normalized whitespace', async () => {
+    const result = await expectTool.execute({ assertion: 'toHaveText', selector: '.toast', expected: 'Order saved' }, mockContext);
+
+    expect(mockLocator).toHaveBeenCalledWith('.toast');
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Passed: expect(.toast).toHaveText("Order saved")');
+    expect(result.content[1].text).toBe('Actual: "Order saved"');
+  });
+
+  test('should fail with the actual value after the timeout', async () => {
+    const result = await expectTool.execute({ assertion: 'toContainText', selector: '.toast', expected: 'error', timeout: 150 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Failed: expect(.toast).toContainText("error")');
+    expect(result.content[0].text).toContain('Actual: "Order saved"');
+    expect(result.content[0].text).toContain('Timed out after 150ms');
+    expect(mockTextContent.mock.calls.length).toBeGreaterThan(1);
+  });
+
+  test('should retry until the assertion passes', async () => {
+    mockIsVisible
+      .mockImplementationOnce(() => Promise.resolve(false))
+      .mockImplementationOnce(() => Promise.resolve(false));
+
+    const result = await expectTool.execute({ assertion: 'toBeVisible', selector: '#spinner-done' }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(mockIsVisible).toHaveBeenCalledTimes(3);
+  });
+
+  test('should negate the assertion with not', async () => {
+    const result = await expectTool.execute({ assertion: 'toBeChecked', selector: '#terms', not: true }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Passed: expect(#terms).not.toBeChecked()');
+    expect(result.content[1].text).toBe('Actual: "unchecked"');
+  });
+
+  test('should check the page URL against a regular expression', async () => {
+    const result = await expectTool.execute({ assertion: 'toHaveURL', expected: '/dashboard$', regex: true }, mockContext);
+
+    expect(mockLocator).not.toHaveBeenCalled();
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Passed: expect(page).toHaveURL(//dashboard$/)');
+  });
+
+  test('should check count, value and attribute', async () => {
+    mockCount.mockImplementation(() => Promise.resolve(3));
+    const countResult = await expectTool.execute({ assertion: 'toHaveCount', selector: 'li', expected: 3 }, mockContext);
+    mockCount.mockImplementation(() => Promise.resolve(1));
+    // Counting needs every match, while other assertions check the first one
+    expect(mockLocatorFirst).not.toHaveBeenCalled();
+
+    const valueResult = await expectTool.execute({ assertion: 'toHaveValue', selector: '#email', expected: 'user@example.com' }, mockContext);
+    const attributeResult = await expectTool.execute({ assertion: 'toHaveAttribute', selector: 'a', attribute: 'href', expected: '/cart' }, mockContext);
+
+    expect(countResult.isError).toBe(false);
+    expect(valueResult.isError).toBe(false);
+    expect(attributeResult.isError).toBe(false);
+    expect(mockGetAttribute).toHaveBeenCalledWith('href', expect.objectContaining({ timeout: expect.any(Number) }));
+    expect(mockLocatorFirst).toHaveBeenCalledTimes(2);
+  });
+
+  test('should report a missing element as the actual value', async () => {
+    mockCount.mockImplementation(() => Promise.resolve(0));
+
+    const result = await expectTool.execute({ assertion: 'toBeEnabled', selector: '#missing', timeout: 100 }, mockContext);
+    mockCount.mockImplementation(() => Promise.resolve(1));
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Actual: "<element not found>"');
+  });
+
+  test('should validate the assertion arguments', async () => {
+    const invalid = await expectTool.execute({ assertion: 'toBeAwesome', selector: 'div' }, mockContext);
+    const missingExpected = await expectTool.execute({ assertion: 'toHaveText', selector: 'div' }, mockContext);
+    const missingAttribute = await expectTool.execute({ assertion: 'toHaveAttribute', selector: 'div' }, mockContext);
+
+    expect(invalid.content[0].text).toContain('Invalid assertion: toBeAwesome');
+    expect(missingExpected.content[0].text).toContain('expected must be provided');
+    expect(missingAttribute.content[0].text).toContain('attribute must be provided');
+  });
+});
@@ -0,0 +1,110 @@
+import { GetCookiesTool, SetCookiesTool, ClearCookiesTool } from '../../../tools/browser/cookies.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Mock cookies of the browser context
+const mockCookies = [
+  { name: 'session', value: 'abc', domain: '.example.com', path: '/', expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' },
+  { name: 'flag_beta', value: 'on', domain: 'app.example.com', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'Lax' },
+  { name: 'tracking', value: '1', domain: 'ads.other.com', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'None' }
+];
+
+// Mock browser context functions
+const mockCookiesFn = jest.fn().mockImplementation(() => Promise.resolve(mockCookies));
+const mockAddCookies = jest.fn().mockImplementation(() => Promise.resolve());
+const mockClearCookies = jest.fn().mockImplementation(() => Promise.resolve());
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  url: jest.fn().mockReturnValue('https://app.example.com/settings'),
+  context: jest.fn(() => ({
+    cookies: mockCookiesFn,
+    addCookies: mockAddCookies,
+    clearCookies: mockClearCookies
+  }))
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Cookie Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should return all cookies as JSON', async () => {
+    const result = await new GetCookiesTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('Retrieved 3 cookie(s)');
+    expect(JSON.parse(result.content[1].text as string)).toHaveLength(3);
+  });
+
+  test('should filter cookies by domain including subdomains', async () => {
+    const result = await new GetCookiesTool(mockServer).execute({ domain: 'example.com' }, mockContext);
+
+    const cookies = JSON.parse(result.content[1].text as string);
+    expect(cookies.map(cookie => cookie.name)).toEqual(['session', 'flag_beta']);
+  });
+
+  test('should filter cookies by name', async () => {
+    const result = await new GetCookiesTool(mockServer).execute({ name: 'flag_beta' }, mockContext);
+
+    const cookies = JSON.parse(result.content[1].text as string);
+    expect(cookies).toEqual([expect.objectContaining({ name: 'flag_beta', value: 'on' })]);
+  });
+
+  test('should default cookies without url or domain to the current page', async () => {
+    const result = await new SetCookiesTool(mockServer).execute({
+      cookies: [
+        { name: 'flag_new_ui', value: 'true' },
+        { name: 'locale', value: 'de', domain: 'example.com' }
+      ]
+    }, mockContext);
+
+    expect(mockAddCookies).toHaveBeenCalledWith([
+      { name: 'flag_new_ui', value: 'true', url: 'https://app.example.com/settings' },
+      { name: 'locale', value: 'de', domain: 'example.com', path: '/' }
+    ]);
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('Set 2 cookie(s)');
+  });
+
+  test('should reject cookies without a name', async () => {
+    const result = await new SetCookiesTool(mockServer).execute({ cookies: [{ value: 'x' }] }, mockContext);
+
+    expect(mockAddCookies).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+  });
+
+  test('should clear all cookies without filters', async () => {
+    const result = await new ClearCookiesTool(mockServer).execute({}, mockContext);
+
+    expect(mockClearCookies).toHaveBeenCalledWith();
+    expect(result.content[0].text).toContain('Cleared all 3 cookie(s)');
+  });
+
+  test('should clear only matching cookies', async () => {
+    const result = await new ClearCookiesTool(mockServer).execute({ domain: 'other.com' }, mockContext);
+
+    expect(mockClearCookies).toHaveBeenCalledTimes(1);
+    expect(mockClearCookies).toHaveBeenCalledWith({ name: 'tracking', domain: 'ads.other.com', path: '/' });
+    expect(result.content[0].text).toContain('Cleared 1 cookie(s)');
+  });
+});
@@ -0,0 +1,95 @@
+import { ListDevicesTool, buildEmulationOptions, emulationMatches, findDevice, pickEmulationSettings } from '../../../tools/browser/devices.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { jest } from '@jest/globals';
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Listing devices does not need a page
+const mockContext = {
+  server: mockServer
+} as unknown as ToolContext;
+
+describe('Device emulation', () => {
+  describe('buildEmulationOptions', () => {
+    test('should default to a 1280x720 desktop viewport', () => {
+      expect(buildEmulationOptions(undefined, undefined)).toEqual({
+        viewport: { width: 1280, height: 720 },
+        deviceScaleFactor: 1
+      });
+    });
+
+    test('should apply a device profile by name, ignoring case', () => {
+      const options = buildEmulationOptions(undefined, { device: 'iphone 13' });
+
+      expect(options.viewport).toEqual({ width: 390, height: 664 });
+      expect(options.deviceScaleFactor).toBe(3);
+      expect(options.isMobile).toBe(true);
+      expect(options.hasTouch).toBe(true);
+      expect(options.userAgent).toContain('iPhone');
+      expect(options).not.toHaveProperty('defaultBrowserType');
+    });
+
+    test('should let explicit options override the device', () => {
+      const options = buildEmulationOptions({ width: 800 }, {
+        device: 'Pixel 7',
+        hasTouch: false,
+        colorScheme: 'dark',
+        locale: 'de-DE',
+        timezoneId: 'Europe/Berlin',
+        geolocation: { latitude: 52.52, longitude: 13.4 }
+      });
+
+      expect(options.viewport).toEqual({ width: 800, height: 839 });
+      expect(options.hasTouch).toBe(false);
+      expect(options.isMobile).toBe(true);
+      expect(options.colorScheme).toBe('dark');
+      expect(options.locale).toBe('de-DE');
+      expect(options.timezoneId).toBe('Europe/Berlin');
+      expect(options.geolocation).toEqual({ latitude: 52.52, longitude: 13.4 });
+      expect(options.permissions).toEqual(['geolocation']);
+    });
+
+    test('should reject unknown devices with suggestions', () => {
+      expect(() => findDevice('iPhone 99')).toThrow("Unknown device: iPhone 99. Did you mean 'iPhone 6'");
+    });
+  });
+
+  test('should compare only the emulated options of a context', () => {
+    const current = { ...buildEmulationOptions(undefined, { device: 'Pixel 7' }), storageState: 'auth.json' };
+
+    expect(emulationMatches(current, buildEmulationOptions(undefined, { device: 'Pixel 7' }))).toBe(true);
+    expect(emulationMatches(current, buildEmulationOptions(undefined, { device: 'iPhone 13' }))).toBe(false);
+    expect(emulationMatches(current, { colorScheme: 'dark' })).toBe(false);
+  });
+
+  test('should pick only emulation settings from tool arguments', () => {
+    expect(pickEmulationSettings({ url: 'https://example.com', width: 800 })).toBeUndefined();
+    expect(pickEmulationSettings({ url: 'https://example.com', device: 'Pixel 7', reducedMotion: 'reduce' })).toEqual({
+      device: 'Pixel 7',
+      reducedMotion: 'reduce'
+    });
+  });
+
+  describe('ListDevicesTool', () => {
+    test('should list devices matching a filter', async () => {
+      const tool = new ListDevicesTool(mockServer);
+
+      const result = await tool.execute({ filter: 'pixel 7' }, mockContext);
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toMatch(/^\d+ device\(s\):$/);
+      expect(result.content.map(item => item.text)).toContain('Pixel 7: 412x839 @2.625x, mobile, touch (chromium)');
+    });
+
+    test('should report when no device matches', async () => {
+      const tool = new ListDevicesTool(mockServer);
+
+      const result = await tool.execute({ filter: 'toaster' }, mockContext);
+
+      expect(result.content[0].text).toBe("No devices match 'toaster'");
+    });
+  });
+});
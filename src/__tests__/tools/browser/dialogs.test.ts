@@ -0,0 +1,184 @@
+import {
+  DialogPolicyTool,
+  HandleDialogTool,
+  DialogLogTool,
+  registerDialogListener,
+  getDialogLog,
+  getDialogPolicy,
+  clearDialogs
+} from '../../../tools/browser/dialogs.js';
+import { ClickTool } from '../../../tools/browser/interaction.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser, Dialog } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Captured page event listeners
+let dialogListener: (dialog: Dialog) => Promise<void>;
+const mockPageOn = jest.fn().mockImplementation((event: unknown, listener: unknown) => {
+  if (event === 'dialog') {
+    dialogListener = listener as typeof dialogListener;
+  }
+});
+
+// Mock locator whose click is set up per test
+const mockClick = jest.fn<() => Promise<void>>();
+const mockLocator = {
+  click: mockClick,
+  first: jest.fn()
+};
+mockLocator.first.mockReturnValue(mockLocator);
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  url: jest.fn().mockReturnValue('https://example.com/items'),
+  locator: jest.fn().mockReturnValue(mockLocator),
+  on: mockPageOn
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+/**
+ * Creates a mock dialog of the given type
+ */
+function createDialog(type: string, message: string, defaultValue = '') {
+  return {
+    type: () => type,
+    message: () => message,
+    defaultValue: () => defaultValue,
+    accept: jest.fn().mockImplementation(() => Promise.resolve()),
+    dismiss: jest.fn().mockImplementation(() => Promise.resolve())
+  };
+}
+
+describe('Dialog Tools', () => {
+  let dialogPolicyTool: DialogPolicyTool;
+  let handleDialogTool: HandleDialogTool;
+  let dialogLogTool: DialogLogTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearDialogs();
+    dialogPolicyTool = new DialogPolicyTool(mockServer);
+    handleDialogTool = new HandleDialogTool(mockServer);
+    dialogLogTool = new DialogLogTool(mockServer);
+    registerDialogListener(mockPage);
+  });
+
+  test('should dismiss dialogs by default and log them', async () => {
+    const dialog = createDialog('alert', 'Saved!');
+
+    await dialogListener(dialog as unknown as Dialog);
+
+    expect(getDialogPolicy().action).toBe('dismiss');
+    expect(dialog.dismiss).toHaveBeenCalled();
+    expect(getDialogLog()).toHaveLength(1);
+    expect(getDialogLog()[0]).toMatchObject({ type: 'alert', message: 'Saved!', url: 'https://example.com/items', status: 'dismissed' });
+  });
+
+  test('should accept prompts with the policy prompt text', async () => {
+    const result = await dialogPolicyTool.execute({ action: 'accept', promptText: 'Bob' }, mockContext);
+    const dialog = createDialog('prompt', 'Your name?', 'Anonymous');
+
+    await dialogListener(dialog as unknown as Dialog);
+
+    expect(result.content[0].text).toBe('Dialog policy set: accept dialogs with prompt text "Bob"');
+    expect(dialog.accept).toHaveBeenCalledWith('Bob');
+    expect(getDialogLog()[0]).toMatchObject({ defaultValue: 'Anonymous', status: 'accepted', promptText: 'Bob' });
+  });
+
+  test('should queue dialogs until they are handled', async () => {
+    await dialogPolicyTool.execute({ action: 'queue' }, mockContext);
+    const first = createDialog('confirm', 'Delete item?');
+    const second = createDialog('confirm', 'Really?');
+
+    await dialogListener(first as unknown as Dialog);
+    await dialogListener(second as unknown as Dialog);
+
+    expect(first.accept).not.toHaveBeenCalled();
+    expect(first.dismiss).not.toHaveBeenCalled();
+    expect(getDialogLog().map(entry => entry.status)).toEqual(['pending', 'pending']);
+
+    const secondId = getDialogLog()[1].id;
+    const handledSecond = await handleDialogTool.execute({ dialogId: secondId, accept: false }, mockContext);
+    const handledFirst = await handleDialogTool.execute({}, mockContext);
+    const nothingLeft = await handleDialogTool.execute({}, mockContext);
+
+    expect(second.dismiss).toHaveBeenCalled();
+    expect(handledSecond.content[0].text).toContain('confirm "Really?" on https://example.com/items -> dismissed');
+    expect(first.accept).toHaveBeenCalledWith(undefined);
+    expect(handledFirst.content[0].text).toContain('-> accepted');
+    expect(nothingLeft.isError).toBe(true);
+    expect(nothingLeft.content[0].text).toContain('No dialog is waiting');
+  });
+
+  test('should return from a click that opens a queued dialog', async () => {
+    await dialogPolicyTool.execute({ action: 'queue' }, mockContext);
+    const dialog = createDialog('confirm', 'Delete item?');
+    let clickFinished = false;
+    // Like Playwright, the click only finishes once the dialog it opened is answered
+    mockClick.mockImplementation(async () => {
+      const answered = new Promise<void>(resolve => {
+        dialog.accept.mockImplementation(async () => resolve());
+      });
+      await dialogListener(dialog as unknown as Dialog);
+      await answered;
+      clickFinished = true;
+    });
+
+    const clicked = await new ClickTool(mockServer).execute({ selector: '#delete' }, mockContext);
+    const dialogId = getDialogLog()[0].id;
+
+    expect(clicked.isError).toBe(false);
+    expect(clicked.content[0].text).toBe('Opened a confirm dialog: "Delete item?"');
+    expect(clicked.content[1].text).toBe(`Dialog ${dialogId} blocks the page until it is answered with playwright_handle_dialog`);
+    expect(clickFinished).toBe(false);
+
+    const handled = await handleDialogTool.execute({ dialogId }, mockContext);
+    await Promise.resolve();
+
+    expect(handled.content[0].text).toContain('confirm "Delete item?" on https://example.com/items -> accepted');
+    expect(dialog.accept).toHaveBeenCalled();
+    expect(clickFinished).toBe(true);
+  });
+
+  test('should list and clear the dialog log', async () => {
+    await dialogListener(createDialog('alert', 'Hello') as unknown as Dialog);
+
+    const result = await dialogLogTool.execute({ clear: true }, mockContext);
+    const empty = await dialogLogTool.execute({}, mockContext);
+
+    expect(result.content[0].text).toBe('1 dialog(s) seen (policy: dismiss):');
+    expect(result.content[1].text).toMatch(/^\[dialog-\d+\] alert "Hello" on https:\/\/example.com\/items -> dismissed$/);
+    expect(empty.content[0].text).toBe('No dialogs seen (policy: dismiss)');
+  });
+
+  test('should keep policies per session', async () => {
+    await dialogPolicyTool.execute({ action: 'accept', sessionId: 'other' }, { ...mockContext, sessionId: 'other' });
+
+    expect(getDialogPolicy('other').action).toBe('accept');
+    expect(getDialogPolicy().action).toBe('dismiss');
+  });
+
+  test('should reject an invalid policy', async () => {
+    const result = await dialogPolicyTool.execute({ action: 'ignore' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Invalid action: ignore');
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  ClickAndDownloadTool,
+  ListDownloadsTool,
+  registerDownloadListener,
+  getDownloads,
+  setDownloadsDir,
+  clearDownloads,
+  guessMimeType
+} from '../../../tools/browser/downloads.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser, Download } from 'playwright';
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+const CSV_CONTENT = 'id,name\n1,Alice\n2,Bob\n';
+
+// Captured page event listeners
+let downloadListener: (download: Download) => void;
+const mockPageOn = jest.fn().mockImplementation((event: unknown, listener: unknown) => {
+  if (event === 'download') {
+    downloadListener = listener as typeof downloadListener;
+  }
+});
+
+/**
+ * Creates a mock download that writes the given content when saved
+ */
+function createDownload(filename: string, content = CSV_CONTENT) {
+  return {
+    url: () => `https://example.com/export/${filename}`,
+    suggestedFilename: () => filename,
+    saveAs: jest.fn().mockImplementation((target: unknown) => {
+      fs.writeFileSync(target as string, content);
+      return Promise.resolve();
+    })
+  };
+}
+
+// Mock click that starts a download, like a real export button
+let nextDownload: ReturnType<typeof createDownload>;
+const mockClick = jest.fn().mockImplementation(() => {
+  downloadListener(nextDownload as unknown as Download);
+  return Promise.resolve();
+});
+const mockLocator = jest.fn().mockReturnValue({ click: mockClick, first() { return this; } });
+const mockWaitForEvent = jest.fn().mockImplementation(() => new Promise(resolve => setImmediate(() => resolve(nextDownload))));
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  locator: mockLocator,
+  waitForEvent: mockWaitForEvent,
+  on: mockPageOn
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Download Tools', () => {
+  let clickAndDownloadTool: ClickAndDownloadTool;
+  let listDownloadsTool: ListDownloadsTool;
+  let tempDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearDownloads();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-downloads-'));
+    setDownloadsDir('default', tempDir);
+    clickAndDownloadTool = new ClickAndDownloadTool(mockServer);
+    listDownloadsTool = new ListDownloadsTool(mockServer);
+    registerDownloadListener(mockPage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should click, save the download and report its details', async () => {
+    nextDownload = createDownload('report.csv');
+
+    const result = await clickAndDownloadTool.execute({ selector: '#export' }, mockContext);
+
+    const savedPath = path.join(tempDir, 'report.csv');
+    const sha256 = createHash('sha256').update(CSV_CONTENT).digest('hex');
+    expect(mockLocator).toHaveBeenCalledWith('#export');
+    expect(mockWaitForEvent).toHaveBeenCalledWith('download', { timeout: 30000 });
+    expect(fs.readFileSync(savedPath, 'utf8')).toBe(CSV_CONTENT);
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Downloaded report.csv after clicking #export');
+    expect(result.content[1].text).toBe(`Saved to: ${savedPath}`);
+    expect(result.content[2].text).toBe(`Size: ${CSV_CONTENT.length} B (${CSV_CONTENT.length} bytes)`);
+    expect(result.content[3].text).toBe('MIME type: text/csv');
+    expect(result.content[4].text).toBe(`SHA-256: ${sha256}`);
+  });
+
+  test('should not overwrite earlier downloads with the same name', async () => {
+    nextDownload = createDownload('report.csv');
+    await clickAndDownloadTool.execute({ selector: '#export' }, mockContext);
+    nextDownload = createDownload('report.csv');
+    const result = await clickAndDownloadTool.execute({ selector: '#export' }, mockContext);
+
+    expect(result.content[1].text).toBe(`Saved to: ${path.join(tempDir, 'report (1).csv')}`);
+    expect(getDownloads()).toHaveLength(2);
+  });
+
+  test('should move the file to a per-call download directory', async () => {
+    nextDownload = createDownload('data.json', '{}');
+    const otherDir = path.join(tempDir, 'exports');
+
+    const result = await clickAndDownloadTool.execute({ selector: '#export', downloadsDir: otherDir }, mockContext);
+
+    expect(result.content[1].text).toBe(`Saved to: ${path.join(otherDir, 'data.json')}`);
+    expect(fs.existsSync(path.join(tempDir, 'data.json'))).toBe(false);
+    expect(fs.existsSync(path.join(otherDir, 'data.json'))).toBe(true);
+  });
+
+  test('should report failed downloads', async () => {
+    nextDownload = createDownload('big.zip');
+    nextDownload.saveAs.mockImplementationOnce(() => Promise.reject(new Error('canceled')));
+
+    const result = await clickAndDownloadTool.execute({ selector: '#export' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Download of big.zip failed: canceled');
+    expect(getDownloads()[0].status).toBe('failed');
+  });
+
+  test('should list downloads of the session', async () => {
+    const empty = await listDownloadsTool.execute({}, mockContext);
+    nextDownload = createDownload('report.csv');
+    await clickAndDownloadTool.execute({ selector: '#export' }, mockContext);
+
+    const result = await listDownloadsTool.execute({}, mockContext);
+
+    expect(empty.content[0].text).toBe(`No downloads (files are saved to ${tempDir})`);
+    expect(result.content[0].text).toBe('1 download(s):');
+    expect(result.content[1].text).toMatch(/^\[download-\d+\] report\.csv \(\d+ B, text\/csv\) -> .*report\.csv sha256=[0-9a-f]{64}$/);
+  });
+
+  test('should guess MIME types from the extension', () => {
+    expect(guessMimeType('export.XLSX')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(guessMimeType('archive.unknown')).toBe('application/octet-stream');
+  });
+});
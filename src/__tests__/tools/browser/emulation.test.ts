@@ -0,0 +1,153 @@
+import {
+  SetViewportTool,
+  EmulateMediaTool,
+  SetGeolocationTool,
+  GrantPermissionsTool,
+  SetOfflineTool,
+  SetExtraHeadersTool
+} from '../../../tools/browser/emulation.js';
+import { CustomUserAgentTool } from '../../../tools/browser/useragent.js';
+import { recreateSessionContext, updateSessionContextOptions } from '../../../toolHandler.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+jest.mock('../../../toolHandler.js', () => ({
+  recreateSessionContext: jest.fn(),
+  updateSessionContextOptions: jest.fn()
+}));
+const mockedRecreateSessionContext = jest.mocked(recreateSessionContext);
+const mockedUpdateSessionContextOptions = jest.mocked(updateSessionContextOptions);
+
+// Mock the browser context of the page
+const mockState = { cookies: [{ name: 'session', value: 'abc' }], origins: [] };
+const mockBrowserContext = {
+  setGeolocation: jest.fn().mockImplementation(() => Promise.resolve()),
+  grantPermissions: jest.fn().mockImplementation(() => Promise.resolve()),
+  clearPermissions: jest.fn().mockImplementation(() => Promise.resolve()),
+  setOffline: jest.fn().mockImplementation(() => Promise.resolve()),
+  setExtraHTTPHeaders: jest.fn().mockImplementation(() => Promise.resolve()),
+  storageState: jest.fn().mockImplementation(() => Promise.resolve(mockState))
+};
+
+// Mock the current page and the page of a recreated context
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  url: jest.fn().mockReturnValue('https://example.com/account'),
+  context: jest.fn(() => mockBrowserContext),
+  setViewportSize: jest.fn().mockImplementation(() => Promise.resolve()),
+  emulateMedia: jest.fn().mockImplementation(() => Promise.resolve()),
+  setExtraHTTPHeaders: jest.fn().mockImplementation(() => Promise.resolve()),
+  evaluate: jest.fn().mockImplementation(() => Promise.resolve('Mozilla/5.0 HeadlessChrome'))
+} as unknown as Page;
+const mockNewPage = {
+  goto: jest.fn().mockImplementation(() => Promise.resolve())
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer,
+  sessionId: 'mobile'
+} as ToolContext;
+
+describe('Emulation Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedRecreateSessionContext.mockResolvedValue(mockNewPage);
+  });
+
+  test('should resize the viewport of the live page', async () => {
+    const result = await new SetViewportTool(mockServer).execute({ width: 375, height: 812 }, mockContext);
+
+    expect(mockPage.setViewportSize).toHaveBeenCalledWith({ width: 375, height: 812 });
+    expect(mockedUpdateSessionContextOptions).toHaveBeenCalledWith('mobile', { viewport: { width: 375, height: 812 } });
+    expect(result.content[0].text).toBe('Set viewport to 375x812');
+  });
+
+  test('should emulate media and reset features', async () => {
+    const result = await new EmulateMediaTool(mockServer).execute({ media: 'print', colorScheme: 'dark', forcedColors: 'reset' }, mockContext);
+
+    expect(mockPage.emulateMedia).toHaveBeenCalledWith({ media: 'print', colorScheme: 'dark', forcedColors: null });
+    expect(mockedUpdateSessionContextOptions).toHaveBeenCalledWith('mobile', { colorScheme: 'dark' });
+    expect(result.content[0].text).toBe('Emulating media: media=print, colorScheme=dark, forcedColors=reset');
+  });
+
+  test('should require at least one media option', async () => {
+    const result = await new EmulateMediaTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(mockPage.emulateMedia).not.toHaveBeenCalled();
+  });
+
+  test('should set the geolocation and grant its permission', async () => {
+    const result = await new SetGeolocationTool(mockServer).execute({ latitude: 48.85, longitude: 2.35, origin: 'https://maps.example.com' }, mockContext);
+
+    expect(mockBrowserContext.setGeolocation).toHaveBeenCalledWith({ latitude: 48.85, longitude: 2.35 });
+    expect(mockBrowserContext.grantPermissions).toHaveBeenCalledWith(['geolocation'], { origin: 'https://maps.example.com' });
+    expect(result.content.map(item => item.text)).toEqual([
+      'Set geolocation to 48.85, 2.35',
+      'Granted geolocation permission to https://maps.example.com'
+    ]);
+  });
+
+  test('should grant and clear permissions', async () => {
+    const tool = new GrantPermissionsTool(mockServer);
+
+    await tool.execute({ permissions: ['notifications', 'clipboard-read'] }, mockContext);
+    expect(mockBrowserContext.grantPermissions).toHaveBeenCalledWith(['notifications', 'clipboard-read'], undefined);
+    expect(mockedUpdateSessionContextOptions).toHaveBeenCalledWith('mobile', { permissions: ['notifications', 'clipboard-read'] });
+
+    const result = await tool.execute({ clear: true }, mockContext);
+    expect(mockBrowserContext.clearPermissions).toHaveBeenCalled();
+    expect(result.content[0].text).toBe('Cleared all granted permissions');
+  });
+
+  test('should take the session offline', async () => {
+    const result = await new SetOfflineTool(mockServer).execute({ offline: true }, mockContext);
+
+    expect(mockBrowserContext.setOffline).toHaveBeenCalledWith(true);
+    expect(result.content[0].text).toBe('Network is offline');
+  });
+
+  test('should set extra headers on the context or the page', async () => {
+    const tool = new SetExtraHeadersTool(mockServer);
+
+    await tool.execute({ headers: { 'X-Test': 1 } }, mockContext);
+    expect(mockBrowserContext.setExtraHTTPHeaders).toHaveBeenCalledWith({ 'X-Test': '1' });
+
+    const result = await tool.execute({ headers: { Authorization: 'Bearer token' }, scope: 'page' }, mockContext);
+    expect(mockPage.setExtraHTTPHeaders).toHaveBeenCalledWith({ Authorization: 'Bearer token' });
+    expect(mockedUpdateSessionContextOptions).toHaveBeenCalledTimes(1);
+    expect(result.content[0].text).toBe('Sending extra headers with requests of the current page: Authorization');
+  });
+
+  describe('CustomUserAgentTool', () => {
+    test('should recreate the context with the user agent and keep storage state', async () => {
+      const result = await new CustomUserAgentTool(mockServer).execute({ userAgent: 'TestBot/1.0' }, mockContext);
+
+      expect(mockedRecreateSessionContext).toHaveBeenCalledWith('mobile', { userAgent: 'TestBot/1.0', storageState: mockState });
+      expect(mockNewPage.goto).toHaveBeenCalledWith('https://example.com/account');
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toBe('Set User Agent: TestBot/1.0');
+    });
+
+    test('should keep the context when the user agent is already set', async () => {
+      const result = await new CustomUserAgentTool(mockServer).execute({ userAgent: 'Mozilla/5.0 HeadlessChrome' }, mockContext);
+
+      expect(mockedRecreateSessionContext).not.toHaveBeenCalled();
+      expect(result.content[0].text).toBe('User Agent is already set: Mozilla/5.0 HeadlessChrome');
+    });
+  });
+});
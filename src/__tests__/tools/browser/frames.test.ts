@@ -0,0 +1,136 @@
+import { ListFramesTool } from '../../../tools/browser/frames.js';
+import { ClickTool, EvaluateTool } from '../../../tools/browser/interaction.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser, Frame } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Mock a frame with its locator functions
+function createMockFrame(name: string, url: string, childFrames: Frame[] = []) {
+  const click = jest.fn().mockImplementation(() => Promise.resolve());
+  return {
+    name: () => name,
+    url: () => url,
+    childFrames: () => childFrames,
+    locator: jest.fn().mockReturnValue({ click, first() { return this; } }),
+    evaluate: jest.fn().mockImplementation(() => Promise.resolve(`result from ${name}`)),
+    click
+  };
+}
+
+const mockAdFrame = createMockFrame('', 'https://ads.example.com/banner');
+const mockCardFrame = createMockFrame('card', 'https://pay.example.com/card');
+const mockCheckoutFrame = createMockFrame('checkout', 'https://pay.example.com/checkout', [mockCardFrame as unknown as Frame]);
+const mockMainFrame = createMockFrame('', 'https://example.com/', [
+  mockCheckoutFrame as unknown as Frame,
+  mockAdFrame as unknown as Frame
+]);
+
+// Mock an iframe found by selector, whose content frame is the checkout frame
+const mockElementHandle = {
+  contentFrame: jest.fn().mockImplementation(() => Promise.resolve(mockCheckoutFrame)),
+  dispose: jest.fn().mockImplementation(() => Promise.resolve())
+};
+const mockFrameLocator = jest.fn().mockReturnValue({
+  owner: () => ({ elementHandle: () => Promise.resolve(mockElementHandle) }),
+  locator: jest.fn()
+});
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  mainFrame: () => mockMainFrame,
+  frameLocator: mockFrameLocator,
+  evaluate: jest.fn()
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Frame Tools', () => {
+  let listFramesTool: ListFramesTool;
+  let clickTool: ClickTool;
+  let evaluateTool: EvaluateTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    listFramesTool = new ListFramesTool(mockServer);
+    clickTool = new ClickTool(mockServer);
+    evaluateTool = new EvaluateTool(mockServer);
+  });
+
+  describe('ListFramesTool', () => {
+    test('should list the frame tree with names and URLs', async () => {
+      const result = await listFramesTool.execute({}, mockContext);
+
+      expect(result.isError).toBe(false);
+      expect(result.content.map(item => item.text)).toEqual([
+        '4 frame(s):',
+        '- main https://example.com/',
+        '  - name="checkout" https://pay.example.com/checkout',
+        '    - name="card" https://pay.example.com/card',
+        '  - (unnamed) https://ads.example.com/banner'
+      ]);
+    });
+  });
+
+  describe('frame parameter', () => {
+    test('should find a frame by name anywhere in the tree', async () => {
+      const result = await clickTool.execute({ selector: '#pay', frame: { name: 'card' } }, mockContext);
+
+      expect(mockCardFrame.locator).toHaveBeenCalledWith('#pay');
+      expect(mockCardFrame.click).toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Clicked element: #pay in frame name="card"');
+    });
+
+    test('should find a frame by URL pattern', async () => {
+      await clickTool.execute({ selector: '#close', frame: { url: 'https://ads.example.com/**' } }, mockContext);
+
+      expect(mockAdFrame.locator).toHaveBeenCalledWith('#close');
+    });
+
+    test('should resolve nested frames from an iframe selector', async () => {
+      const result = await clickTool.execute({ selector: '#pay', frame: ['#checkout-iframe', { name: 'card' }] }, mockContext);
+
+      expect(mockFrameLocator).toHaveBeenCalledWith('#checkout-iframe');
+      expect(mockCardFrame.click).toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Clicked element: #pay in frame #checkout-iframe >> name="card"');
+    });
+
+    test('should evaluate scripts inside a frame', async () => {
+      const result = await evaluateTool.execute({ script: 'document.title', frame: '#checkout-iframe' }, mockContext);
+
+      expect(mockCheckoutFrame.evaluate).toHaveBeenCalledWith('document.title');
+      expect(mockElementHandle.dispose).toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Executed JavaScript in frame #checkout-iframe:');
+      expect(result.content[3].text).toBe('"result from checkout"');
+    });
+
+    test('should report frames that do not exist', async () => {
+      const result = await clickTool.execute({ selector: '#pay', frame: { name: 'missing' } }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Frame not found: name="missing"');
+    });
+
+    test('should reject frame descriptors with several fields', async () => {
+      const result = await clickTool.execute({ selector: '#pay', frame: { name: 'card', url: 'pay' } }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Exactly one of selector, name or url must be provided');
+    });
+  });
+});
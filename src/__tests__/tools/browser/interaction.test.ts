@@ -1,4 +1,4 @@
-import { ClickTool,ClickAndSwitchTabTool, FillTool, SelectTool, HoverTool, EvaluateTool, IframeClickTool, UploadFileTool } from '../../../tools/browser/interaction.js';
+import { ClickTool,ClickAndSwitchTabTool, DoubleClickTool, CheckTool, UncheckTool, FillTool, SelectTool, HoverTool, EvaluateTool, IframeClickTool, UploadFileTool } from '../../../tools/browser/interaction.js';
 import { NavigationTool } from '../../../tools/browser/navigation.js';
 import { ToolContext } from '../../../tools/common/types.js';
 import { Page, Browser } from 'playwright';
@@ -15,6 +15,10 @@ const mockWaitForEvent = jest.fn().mockImplementation(() => Promise.resolve(mock
 const mockWaitForLoadState = jest.fn().mockImplementation(() => Promise.resolve());
 const mockBringToFront = jest.fn().mockImplementation(() => Promise.resolve());
 const mockUrl = jest.fn().mockReturnValue('https://example.com');
+const mockFileChooserSetFiles = jest.fn().mockImplementation(() => Promise.resolve());
+const mockPageWaitForEvent = jest.fn().mockImplementation(() => Promise.resolve({ setFiles: mockFileChooserSetFiles }));
+const mockDataTransferDispose = jest.fn().mockImplementation(() => Promise.resolve());
+const mockEvaluateHandle = jest.fn().mockImplementation(() => Promise.resolve({ dispose: mockDataTransferDispose }));
 
 // Mock new page
 const mockNewPage = {
@@ -27,23 +31,41 @@ const mockNewPage = {
 
 // Mock locator functions
 const mockLocatorClick = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorDblclick = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorCheck = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorUncheck = jest.fn().mockImplementation(() => Promise.resolve());
 const mockLocatorFill = jest.fn().mockImplementation(() => Promise.resolve());
 const mockLocatorSelectOption = jest.fn().mockImplementation(() => Promise.resolve());
 const mockLocatorHover = jest.fn().mockImplementation(() => Promise.resolve());
-const mockLocatorUploadFile = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorSetInputFiles = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorDispatchEvent = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorNth = jest.fn();
+const mockLocatorFirst = jest.fn();
+const mockGetByRole = jest.fn();
 
 // Mock locator
-const mockLocator = jest.fn().mockReturnValue({
+const mockLocatorObject = {
   click: mockLocatorClick,
+  dblclick: mockLocatorDblclick,
+  check: mockLocatorCheck,
+  uncheck: mockLocatorUncheck,
   fill: mockLocatorFill,
   selectOption: mockLocatorSelectOption,
   hover: mockLocatorHover,
-  uploadFile: mockLocatorUploadFile
-});
+  setInputFiles: mockLocatorSetInputFiles,
+  dispatchEvent: mockLocatorDispatchEvent,
+  nth: mockLocatorNth,
+  first: mockLocatorFirst
+};
+mockLocatorNth.mockReturnValue(mockLocatorObject);
+mockLocatorFirst.mockReturnValue(mockLocatorObject);
+mockGetByRole.mockReturnValue(mockLocatorObject);
+const mockLocator = jest.fn().mockReturnValue(mockLocatorObject);
 
 // Mock iframe locator
 const mockIframeLocator = jest.fn().mockReturnValue({
-  click: mockLocatorClick
+  click: mockLocatorClick,
+  first() { return this; }
 });
 
 // Mock frame locator
@@ -66,8 +88,11 @@ const mockPage = {
   setInputFiles: mockPageSetInputFiles,
   waitForSelector: mockPageWaitForSelector,
   locator: mockLocator,
+  getByRole: mockGetByRole,
   frameLocator: mockFrameLocator,
   evaluate: mockEvaluate,
+  evaluateHandle: mockEvaluateHandle,
+  waitForEvent: mockPageWaitForEvent,
   goto: mockGoto,
   isClosed: mockIsClosed,
   context: jest.fn(() => ({
@@ -95,6 +120,9 @@ const mockContext = {
 
 describe('Browser Interaction Tools', () => {
   let clickTool: ClickTool;
+  let doubleClickTool: DoubleClickTool;
+  let checkTool: CheckTool;
+  let uncheckTool: UncheckTool;
   let fillTool: FillTool;
   let selectTool: SelectTool;
   let hoverTool: HoverTool;
@@ -106,6 +134,9 @@ describe('Browser Interaction Tools', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     clickTool = new ClickTool(mockServer);
+    doubleClickTool = new DoubleClickTool(mockServer);
+    checkTool = new CheckTool(mockServer);
+    uncheckTool = new UncheckTool(mockServer);
     fillTool = new FillTool(mockServer);
     selectTool = new SelectTool(mockServer);
     hoverTool = new HoverTool(mockServer);
@@ -123,27 +154,98 @@ describe('Browser Interaction Tools', () => {
 
       const result = await clickTool.execute(args, mockContext);
 
-      // The actual implementation uses page.click directly, not locator
-      expect(mockPageClick).toHaveBeenCalledWith('#test-button');
+      expect(mockLocator).toHaveBeenCalledWith('#test-button');
+      expect(mockLocatorClick).toHaveBeenCalled();
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain('Clicked element');
     });
 
+    test('should click the first element matching a selector, like page.click', async () => {
+      await clickTool.execute({ selector: '.item' }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('.item');
+      expect(mockLocatorFirst).toHaveBeenCalled();
+      expect(mockLocatorClick).toHaveBeenCalled();
+    });
+
+    test('should keep snapshot refs and locator descriptors strict', async () => {
+      await clickTool.execute({ ref: 'e12' }, mockContext);
+      await clickTool.execute({ locator: { role: 'button', name: 'Save' } }, mockContext);
+
+      expect(mockLocatorFirst).not.toHaveBeenCalled();
+      expect(mockLocatorClick).toHaveBeenCalledTimes(2);
+    });
+
     test('should handle click errors', async () => {
       const args = {
         selector: '#test-button'
       };
 
       // Mock a click error
-      mockPageClick.mockImplementationOnce(() => Promise.reject(new Error('Click failed')));
+      mockLocatorClick.mockImplementationOnce(() => Promise.reject(new Error('Click failed')));
 
       const result = await clickTool.execute(args, mockContext);
 
-      expect(mockPageClick).toHaveBeenCalledWith('#test-button');
+      expect(mockLocator).toHaveBeenCalledWith('#test-button');
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Operation failed');
     });
 
+    test('should click an element by snapshot ref', async () => {
+      const result = await clickTool.execute({ ref: 'e12' }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('[data-mcp-ref="e12"]');
+      expect(mockLocatorClick).toHaveBeenCalled();
+      expect(result.isError).toBe(false);
+    });
+
+    test('should click an element by locator descriptor', async () => {
+      const result = await clickTool.execute({ locator: { role: 'button', name: 'Save', exact: true, nth: 1 } }, mockContext);
+
+      expect(mockGetByRole).toHaveBeenCalledWith('button', { name: 'Save', exact: true });
+      expect(mockLocatorNth).toHaveBeenCalledWith(1);
+      expect(mockLocatorClick).toHaveBeenCalled();
+      expect(result.content[0].text).toBe("Clicked element: page.getByRole('button', { name: 'Save', exact: true }).nth(1)");
+    });
+
+    test('should click an element inside an iframe by locator descriptor', async () => {
+      await clickTool.execute({ locator: { frame: '#checkout', css: '#pay' } }, mockContext);
+
+      expect(mockFrameLocator).toHaveBeenCalledWith('#checkout');
+      expect(mockIframeLocator).toHaveBeenCalledWith('#pay');
+      expect(mockLocatorClick).toHaveBeenCalled();
+    });
+
+    test('should pass click options', async () => {
+      const args = {
+        selector: '#row-3',
+        button: 'right',
+        modifiers: ['Shift'],
+        position: { x: 5, y: 10 },
+        force: true
+      };
+
+      const result = await clickTool.execute(args, mockContext);
+
+      expect(mockLocatorClick).toHaveBeenCalledWith({ button: 'right', modifiers: ['Shift'], position: { x: 5, y: 10 }, force: true });
+      expect(result.content[0].text).toBe('Clicked element: #row-3 (button: "right", modifiers: ["Shift"], position: {"x":5,"y":10}, force: true)');
+    });
+
+    test('should only run actionability checks on a trial click', async () => {
+      const result = await clickTool.execute({ selector: '#save', trial: true }, mockContext);
+
+      expect(mockLocatorClick).toHaveBeenCalledWith({ trial: true });
+      expect(result.content[0].text).toBe('Trial click succeeded: #save (trial: true)');
+    });
+
+    test('should require a selector, ref or locator', async () => {
+      const result = await clickTool.execute({}, mockContext);
+
+      expect(mockLocatorClick).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('selector, ref or locator must be provided');
+    });
+
     test('should handle missing page', async () => {
       const args = {
         selector: '#test-button'
@@ -151,12 +253,53 @@ describe('Browser Interaction Tools', () => {
 
       const result = await clickTool.execute(args, { server: mockServer } as ToolContext);
 
-      expect(mockPageClick).not.toHaveBeenCalled();
+      expect(mockLocatorClick).not.toHaveBeenCalled();
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Browser page not initialized');
     });
   });
 
+  describe('DoubleClickTool', () => {
+    test('should double-click an element', async () => {
+      const result = await doubleClickTool.execute({ selector: '.cell', modifiers: ['Alt'], clickCount: 3 }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('.cell');
+      expect(mockLocatorDblclick).toHaveBeenCalledWith({ modifiers: ['Alt'] });
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('Double-clicked element: .cell');
+    });
+  });
+
+  describe('CheckTool', () => {
+    test('should check a checkbox', async () => {
+      const result = await checkTool.execute({ locator: { role: 'checkbox', name: 'Remember me' }, force: true }, mockContext);
+
+      expect(mockGetByRole).toHaveBeenCalledWith('checkbox', { name: 'Remember me' });
+      expect(mockLocatorCheck).toHaveBeenCalledWith({ force: true });
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('Checked: page.getByRole');
+    });
+  });
+
+  describe('UncheckTool', () => {
+    test('should uncheck a checkbox', async () => {
+      const result = await uncheckTool.execute({ selector: '#newsletter' }, mockContext);
+
+      expect(mockLocatorUncheck).toHaveBeenCalledWith({});
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toBe('Unchecked: #newsletter');
+    });
+
+    test('should report uncheck errors', async () => {
+      mockLocatorUncheck.mockImplementationOnce(() => Promise.reject(new Error('Clicking the checkbox did not change its state')));
+
+      const result = await uncheckTool.execute({ selector: '#newsletter' }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('did not change its state');
+    });
+  });
+
   describe('ClickAndSwitchTabTool', () => {
     test('should click a link and switch to the new tab', async () => {
       const args = { 
@@ -165,7 +308,8 @@ describe('Browser Interaction Tools', () => {
   
       const result = await clickAndSwitchTabTool.execute(args, mockContext);
   
-      expect(mockPageClick).toHaveBeenCalledWith('a#test-link');
+      expect(mockLocator).toHaveBeenCalledWith('a#test-link');
+      expect(mockLocatorClick).toHaveBeenCalled();
       expect(mockWaitForEvent).toHaveBeenCalledWith('page');
       expect(mockWaitForLoadState).toHaveBeenCalledWith('domcontentloaded');
       expect(result.isError).toBe(false);
@@ -179,11 +323,11 @@ describe('Browser Interaction Tools', () => {
       };
   
       // Mock a click error
-      mockPageClick.mockImplementationOnce(() => Promise.reject(new Error('Click failed')));
+      mockLocatorClick.mockImplementationOnce(() => Promise.reject(new Error('Click failed')));
   
       const result = await clickAndSwitchTabTool.execute(args, mockContext);
   
-      expect(mockPageClick).toHaveBeenCalledWith('a#test-link');
+      expect(mockLocator).toHaveBeenCalledWith('a#test-link');
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Operation failed');
     });
@@ -198,7 +342,8 @@ describe('Browser Interaction Tools', () => {
   
       const result = await clickAndSwitchTabTool.execute(args, mockContext);
   
-      expect(mockPageClick).toHaveBeenCalledWith('a#test-link');
+      expect(mockLocator).toHaveBeenCalledWith('a#test-link');
+      expect(mockLocatorClick).toHaveBeenCalled();
       expect(mockWaitForEvent).toHaveBeenCalledWith('page');
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Operation failed');
@@ -211,7 +356,7 @@ describe('Browser Interaction Tools', () => {
   
       const result = await clickAndSwitchTabTool.execute(args, { server: mockServer } as ToolContext);
   
-      expect(mockPageClick).not.toHaveBeenCalled();
+      expect(mockLocatorClick).not.toHaveBeenCalled();
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Browser page not initialized');
     });
@@ -244,8 +389,8 @@ describe('Browser Interaction Tools', () => {
 
       const result = await fillTool.execute(args, mockContext);
 
-      expect(mockPageWaitForSelector).toHaveBeenCalledWith('#test-input');
-      expect(mockPageFill).toHaveBeenCalledWith('#test-input', 'test value');
+      expect(mockLocator).toHaveBeenCalledWith('#test-input');
+      expect(mockLocatorFill).toHaveBeenCalledWith('test value');
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain('Filled');
     });
@@ -260,8 +405,8 @@ describe('Browser Interaction Tools', () => {
 
       const result = await selectTool.execute(args, mockContext);
 
-      expect(mockPageWaitForSelector).toHaveBeenCalledWith('#test-select');
-      expect(mockPageSelectOption).toHaveBeenCalledWith('#test-select', 'option1');
+      expect(mockLocator).toHaveBeenCalledWith('#test-select');
+      expect(mockLocatorSelectOption).toHaveBeenCalledWith('option1');
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain('Selected');
     });
@@ -275,8 +420,8 @@ describe('Browser Interaction Tools', () => {
 
       const result = await hoverTool.execute(args, mockContext);
 
-      expect(mockPageWaitForSelector).toHaveBeenCalledWith('#test-element');
-      expect(mockPageHover).toHaveBeenCalledWith('#test-element');
+      expect(mockLocator).toHaveBeenCalledWith('#test-element');
+      expect(mockLocatorHover).toHaveBeenCalled();
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain('Hovered');
     });
@@ -291,11 +436,101 @@ describe('Browser Interaction Tools', () => {
 
       const result = await uploadFileTool.execute(args, mockContext);
 
-      expect(mockPageWaitForSelector).toHaveBeenCalledWith('#file-input');
-      expect(mockPageSetInputFiles).toHaveBeenCalledWith('#file-input', '/tmp/testfile.txt');
+      expect(mockLocator).toHaveBeenCalledWith('#file-input');
+      expect(mockLocatorSetInputFiles).toHaveBeenCalledWith('/tmp/testfile.txt');
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain("Uploaded file '/tmp/testfile.txt' to '#file-input'");
     });
+
+    test('should upload several files from disk', async () => {
+      const args = {
+        selector: '#file-input',
+        filePath: ['/tmp/a.txt', '/tmp/b.png']
+      };
+
+      const result = await uploadFileTool.execute(args, mockContext);
+
+      expect(mockLocatorSetInputFiles).toHaveBeenCalledWith(['/tmp/a.txt', '/tmp/b.png']);
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain("Uploaded 2 file(s) (a.txt, b.png) to '#file-input'");
+    });
+
+    test('should upload in-memory files', async () => {
+      const args = {
+        selector: '#file-input',
+        files: [
+          { name: 'notes.txt', buffer: Buffer.from('hello').toString('base64') },
+          { name: 'data.bin', mimeType: 'application/x-custom', buffer: 'AAE=' }
+        ]
+      };
+
+      const result = await uploadFileTool.execute(args, mockContext);
+
+      expect(mockLocatorSetInputFiles).toHaveBeenCalledWith([
+        { name: 'notes.txt', mimeType: 'text/plain', buffer: Buffer.from('hello') },
+        { name: 'data.bin', mimeType: 'application/x-custom', buffer: Buffer.from([0, 1]) }
+      ]);
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('Uploaded 2 file(s) (notes.txt, data.bin)');
+    });
+
+    test('should clear the selected files', async () => {
+      const result = await uploadFileTool.execute({ selector: '#file-input', clear: true }, mockContext);
+
+      expect(mockLocatorSetInputFiles).toHaveBeenCalledWith([]);
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain("Cleared files of '#file-input'");
+    });
+
+    test('should answer the file chooser opened by an element', async () => {
+      const args = {
+        selector: '#upload-button',
+        filePath: '/tmp/testfile.txt',
+        mode: 'filechooser'
+      };
+
+      const result = await uploadFileTool.execute(args, mockContext);
+
+      expect(mockPageWaitForEvent).toHaveBeenCalledWith('filechooser');
+      expect(mockLocatorClick).toHaveBeenCalled();
+      expect(mockFileChooserSetFiles).toHaveBeenCalledWith('/tmp/testfile.txt');
+      expect(mockLocatorSetInputFiles).not.toHaveBeenCalled();
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain("through the file chooser opened by '#upload-button'");
+    });
+
+    test('should drop files onto a dropzone', async () => {
+      const args = {
+        selector: '#dropzone',
+        files: [{ name: 'photo.png', buffer: 'iVBORw==' }],
+        mode: 'drop'
+      };
+
+      const result = await uploadFileTool.execute(args, mockContext);
+
+      expect(mockEvaluateHandle).toHaveBeenCalledWith(expect.any(Function), [
+        { name: 'photo.png', mimeType: 'image/png', buffer: 'iVBORw==' }
+      ]);
+      expect(mockLocatorDispatchEvent.mock.calls.map(call => call[0])).toEqual(['dragenter', 'dragover', 'drop']);
+      expect(mockDataTransferDispose).toHaveBeenCalled();
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain("Dropped 1 file(s) (photo.png) onto '#dropzone'");
+    });
+
+    test('should require files to upload', async () => {
+      const result = await uploadFileTool.execute({ selector: '#file-input' }, mockContext);
+
+      expect(mockLocatorSetInputFiles).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('filePath, files or clear must be provided');
+    });
+
+    test('should reject an invalid mode', async () => {
+      const result = await uploadFileTool.execute({ selector: '#file-input', filePath: '/tmp/a.txt', mode: 'paste' }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid mode: paste');
+    });
   });
 
   describe('EvaluateTool', () => {
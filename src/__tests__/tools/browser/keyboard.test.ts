@@ -0,0 +1,147 @@
+import { TypeTool, KeyboardTool, SelectTextTool } from '../../../tools/browser/keyboard.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Mock keyboard functions
+const mockKeyboardPress = jest.fn().mockImplementation(() => Promise.resolve());
+const mockKeyboardType = jest.fn().mockImplementation(() => Promise.resolve());
+const mockKeyboardInsertText = jest.fn().mockImplementation(() => Promise.resolve());
+const mockKeyboardDown = jest.fn().mockImplementation(() => Promise.resolve());
+const mockKeyboardUp = jest.fn().mockImplementation(() => Promise.resolve());
+
+// Mock locator functions
+const mockPressSequentially = jest.fn().mockImplementation(() => Promise.resolve());
+const mockClear = jest.fn().mockImplementation(() => Promise.resolve());
+const mockFocus = jest.fn().mockImplementation(() => Promise.resolve());
+const mockSelectText = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorEvaluate = jest.fn().mockImplementation(() => Promise.resolve('llo'));
+const mockLocator = jest.fn().mockReturnValue({
+  pressSequentially: mockPressSequentially,
+  clear: mockClear,
+  focus: mockFocus,
+  selectText: mockSelectText,
+  evaluate: mockLocatorEvaluate,
+  first() { return this; }
+});
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  locator: mockLocator,
+  keyboard: {
+    press: mockKeyboardPress,
+    type: mockKeyboardType,
+    insertText: mockKeyboardInsertText,
+    down: mockKeyboardDown,
+    up: mockKeyboardUp
+  }
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Keyboard Tools', () => {
+  let typeTool: TypeTool;
+  let keyboardTool: KeyboardTool;
+  let selectTextTool: SelectTextTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    typeTool = new TypeTool(mockServer);
+    keyboardTool = new KeyboardTool(mockServer);
+    selectTextTool = new SelectTextTool(mockServer);
+  });
+
+  describe('TypeTool', () => {
+    test('should type into an element key by key', async () => {
+      const result = await typeTool.execute({ selector: '#search', text: 'play', delay: 50, clear: true }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('#search');
+      expect(mockClear).toHaveBeenCalled();
+      expect(mockPressSequentially).toHaveBeenCalledWith('play', { delay: 50 });
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toBe('Typed into #search: play');
+    });
+
+    test('should type into the focused element without a target', async () => {
+      const result = await typeTool.execute({ text: 'hello' }, mockContext);
+
+      expect(mockLocator).not.toHaveBeenCalled();
+      expect(mockKeyboardType).toHaveBeenCalledWith('hello', undefined);
+      expect(result.content[0].text).toBe('Typed into focused element: hello');
+    });
+
+    test('should require text', async () => {
+      const result = await typeTool.execute({ selector: '#search' }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('text must be provided');
+    });
+  });
+
+  describe('KeyboardTool', () => {
+    test('should run chords, repeats and text actions in order', async () => {
+      const result = await keyboardTool.execute({
+        selector: '#editor',
+        actions: ['Control+A', { key: 'Shift+ArrowDown', repeat: 3 }, { type: 'abc' }, { insertText: '👋' }, { down: 'Shift' }, { up: 'Shift' }]
+      }, mockContext);
+
+      expect(mockFocus).toHaveBeenCalled();
+      expect(mockKeyboardPress).toHaveBeenCalledTimes(4);
+      expect(mockKeyboardPress).toHaveBeenNthCalledWith(1, 'Control+A', undefined);
+      expect(mockKeyboardPress).toHaveBeenLastCalledWith('Shift+ArrowDown', undefined);
+      expect(mockKeyboardType).toHaveBeenCalledWith('abc', undefined);
+      expect(mockKeyboardInsertText).toHaveBeenCalledWith('👋');
+      expect(mockKeyboardDown).toHaveBeenCalledWith('Shift');
+      expect(mockKeyboardUp).toHaveBeenCalledWith('Shift');
+      expect(result.content[0].text).toBe('Keyboard: press Control+A, press Shift+ArrowDown x3, type "abc", insert "👋", hold Shift, release Shift');
+    });
+
+    test('should reject invalid actions', async () => {
+      const empty = await keyboardTool.execute({ actions: [] }, mockContext);
+      const invalid = await keyboardTool.execute({ actions: [{ repeat: 2 }] }, mockContext);
+
+      expect(empty.isError).toBe(true);
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toContain('Invalid keyboard action');
+    });
+  });
+
+  describe('SelectTextTool', () => {
+    test('should select all text', async () => {
+      const result = await selectTextTool.execute({ selector: 'p' }, mockContext);
+
+      expect(mockSelectText).toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Selected all text of p');
+    });
+
+    test('should select a range of text', async () => {
+      const result = await selectTextTool.execute({ selector: '#name', start: 2, end: 5 }, mockContext);
+
+      expect(mockLocatorEvaluate).toHaveBeenCalledWith(expect.any(Function), { start: 2, end: 5 });
+      expect(result.content[0].text).toBe('Selected text of #name: "llo"');
+    });
+
+    test('should reject an invalid range', async () => {
+      const result = await selectTextTool.execute({ selector: '#name', start: 5, end: 2 }, mockContext);
+
+      expect(mockLocatorEvaluate).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+    });
+  });
+});
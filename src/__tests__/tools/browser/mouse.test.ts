@@ -0,0 +1,170 @@
+import { MouseTool, TouchTool } from '../../../tools/browser/mouse.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Mock mouse functions
+const mockMouseMove = jest.fn().mockImplementation(() => Promise.resolve());
+const mockMouseDown = jest.fn().mockImplementation(() => Promise.resolve());
+const mockMouseUp = jest.fn().mockImplementation(() => Promise.resolve());
+const mockMouseClick = jest.fn().mockImplementation(() => Promise.resolve());
+const mockMouseWheel = jest.fn().mockImplementation(() => Promise.resolve());
+const mockTouchscreenTap = jest.fn().mockImplementation(() => Promise.resolve());
+
+// Mock CDP session
+const mockCdpSend = jest.fn().mockImplementation(() => Promise.resolve());
+const mockCdpDetach = jest.fn().mockImplementation(() => Promise.resolve());
+const mockNewCDPSession = jest.fn().mockImplementation(() => Promise.resolve({
+  send: mockCdpSend,
+  detach: mockCdpDetach
+}));
+const mockBrowserTypeName = jest.fn().mockReturnValue('chromium');
+
+// Mock locator
+const mockTap = jest.fn().mockImplementation(() => Promise.resolve());
+const mockBoundingBox = jest.fn().mockImplementation(() => Promise.resolve({ x: 0, y: 100, width: 200, height: 100 }));
+const mockLocator = jest.fn().mockReturnValue({
+  tap: mockTap,
+  boundingBox: mockBoundingBox,
+  first() { return this; }
+});
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  locator: mockLocator,
+  mouse: {
+    move: mockMouseMove,
+    down: mockMouseDown,
+    up: mockMouseUp,
+    click: mockMouseClick,
+    wheel: mockMouseWheel
+  },
+  touchscreen: {
+    tap: mockTouchscreenTap
+  },
+  context: jest.fn(() => ({
+    newCDPSession: mockNewCDPSession,
+    browser: () => ({ browserType: () => ({ name: mockBrowserTypeName }) })
+  }))
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Mouse and Touch Tools', () => {
+  let mouseTool: MouseTool;
+  let touchTool: TouchTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mouseTool = new MouseTool(mockServer);
+    touchTool = new TouchTool(mockServer);
+  });
+
+  describe('MouseTool', () => {
+    test('should run mouse actions in order', async () => {
+      const result = await mouseTool.execute({
+        actions: [
+          { type: 'move', x: 10, y: 20 },
+          { type: 'down' },
+          { type: 'move', x: 300, y: 20, steps: 15 },
+          { type: 'up' },
+          { type: 'click', x: 5, y: 5, button: 'right' },
+          { type: 'wheel', x: 400, y: 300, deltaY: 250 }
+        ]
+      }, mockContext);
+
+      expect(mockMouseMove).toHaveBeenNthCalledWith(1, 10, 20);
+      expect(mockMouseMove).toHaveBeenNthCalledWith(2, 300, 20, { steps: 15 });
+      expect(mockMouseMove).toHaveBeenNthCalledWith(3, 400, 300);
+      expect(mockMouseDown).toHaveBeenCalledWith(undefined);
+      expect(mockMouseUp).toHaveBeenCalledWith(undefined);
+      expect(mockMouseClick).toHaveBeenCalledWith(5, 5, { button: 'right' });
+      expect(mockMouseWheel).toHaveBeenCalledWith(0, 250);
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('move to (300, 20) in 15 steps');
+      expect(result.content[0].text).toContain('wheel by (0, 250) at (400, 300)');
+    });
+
+    test('should reject invalid actions', async () => {
+      const empty = await mouseTool.execute({ actions: [] }, mockContext);
+      const missingPoint = await mouseTool.execute({ actions: [{ type: 'move' }] }, mockContext);
+      const unknown = await mouseTool.execute({ actions: [{ type: 'hover' }] }, mockContext);
+
+      expect(empty.isError).toBe(true);
+      expect(missingPoint.content[0].text).toContain('move requires x and y');
+      expect(unknown.content[0].text).toContain('Invalid mouse action');
+    });
+  });
+
+  describe('TouchTool', () => {
+    test('should tap an element or coordinates', async () => {
+      const element = await touchTool.execute({ gesture: 'tap', selector: '#menu' }, mockContext);
+      const point = await touchTool.execute({ gesture: 'tap', x: 50, y: 60 }, mockContext);
+
+      expect(mockTap).toHaveBeenCalled();
+      expect(element.content[0].text).toBe('Tapped #menu');
+      expect(mockTouchscreenTap).toHaveBeenCalledWith(50, 60);
+      expect(point.content[0].text).toBe('Tapped at (50, 60)');
+    });
+
+    test('should swipe with touch events over CDP', async () => {
+      const result = await touchTool.execute({ gesture: 'swipe', selector: '#carousel', deltaX: -100, steps: 4 }, mockContext);
+
+      // Starts at the element center
+      expect(mockCdpSend).toHaveBeenNthCalledWith(1, 'Input.dispatchTouchEvent', { type: 'touchStart', touchPoints: [{ x: 100, y: 150, id: 0 }] });
+      expect(mockCdpSend).toHaveBeenNthCalledWith(5, 'Input.dispatchTouchEvent', { type: 'touchMove', touchPoints: [{ x: 0, y: 150, id: 0 }] });
+      expect(mockCdpSend).toHaveBeenLastCalledWith('Input.dispatchTouchEvent', { type: 'touchEnd', touchPoints: [] });
+      expect(mockCdpSend).toHaveBeenCalledTimes(6);
+      expect(mockCdpDetach).toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Swiped from (100, 150) to (0, 150)');
+    });
+
+    test('should pinch with two touch points', async () => {
+      const result = await touchTool.execute({ gesture: 'pinch', x: 200, y: 200, scale: 3, steps: 2 }, mockContext);
+
+      expect(mockCdpSend).toHaveBeenNthCalledWith(1, 'Input.dispatchTouchEvent', {
+        type: 'touchStart',
+        touchPoints: [{ x: 150, y: 200, id: 0 }, { x: 250, y: 200, id: 1 }]
+      });
+      expect(mockCdpSend).toHaveBeenNthCalledWith(3, 'Input.dispatchTouchEvent', {
+        type: 'touchMove',
+        touchPoints: [{ x: 50, y: 200, id: 0 }, { x: 350, y: 200, id: 1 }]
+      });
+      expect(result.content[0].text).toBe('Pinched at (200, 200) with scale 3');
+    });
+
+    test('should require chromium for swipe and pinch', async () => {
+      mockBrowserTypeName.mockReturnValueOnce('webkit');
+
+      const result = await touchTool.execute({ gesture: 'swipe', x: 0, y: 0, deltaY: -200 }, mockContext);
+
+      expect(mockNewCDPSession).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('needs Chromium');
+    });
+
+    test('should validate the gesture and position', async () => {
+      const invalid = await touchTool.execute({ gesture: 'rotate', x: 0, y: 0 }, mockContext);
+      const noPosition = await touchTool.execute({ gesture: 'swipe' }, mockContext);
+
+      expect(invalid.content[0].text).toContain('Invalid gesture: rotate');
+      expect(noPosition.content[0].text).toContain('Either x and y');
+    });
+  });
+});
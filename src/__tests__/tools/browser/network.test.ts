@@ -0,0 +1,191 @@
+import { NetworkLogTool, ExportHarTool, registerNetworkListeners, getNetworkLog, clearNetworkLog, MAX_NETWORK_ENTRIES, MAX_RESPONSE_BODY_SIZE, MAX_SESSION_BODY_SIZE } from '../../../tools/browser/network.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Mock page that records its event listeners so tests can emit events
+const listeners: Record<string, ((...args: any[]) => void)[]> = {};
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+    (listeners[event] ??= []).push(handler);
+  })
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer,
+  sessionId: 'network-test'
+} as ToolContext;
+
+function emit(event: string, payload: any) {
+  listeners[event].forEach(handler => handler(payload));
+}
+
+// Creates a mock request and emits it, optionally followed by a response or a failure
+function simulateRequest(url: string, options: { method?: string; resourceType?: string; status?: number; failure?: string; postData?: string; contentType?: string; body?: Buffer } = {}) {
+  const request = {
+    url: () => url,
+    method: () => options.method ?? 'GET',
+    resourceType: () => options.resourceType ?? 'fetch',
+    headers: () => ({ accept: '*/*', ...(options.postData && { 'content-type': 'application/json' }) }),
+    postData: () => options.postData ?? null,
+    failure: () => options.failure ? { errorText: options.failure } : null
+  };
+  emit('request', request);
+
+  if (options.failure) {
+    emit('requestfailed', request);
+  } else if (options.status) {
+    emit('response', {
+      request: () => request,
+      status: () => options.status,
+      statusText: () => 'OK',
+      headers: () => ({
+        'content-type': options.contentType ?? 'application/json',
+        ...(options.body && { 'content-length': String(options.body.length) })
+      }),
+      body: () => options.body ? Promise.resolve(options.body) : Promise.reject(new Error('No body'))
+    });
+  }
+}
+
+describe('Network Recording Tools', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    registerNetworkListeners(mockPage, 'network-test');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearNetworkLog('network-test');
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-network-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should record requests with their responses and failures', () => {
+    simulateRequest('https://example.com/api/users', { status: 200 });
+    simulateRequest('https://example.com/tracker.js', { resourceType: 'script', failure: 'net::ERR_BLOCKED_BY_CLIENT' });
+
+    const entries = getNetworkLog('network-test');
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toEqual(expect.objectContaining({ url: 'https://example.com/api/users', status: 200 }));
+    expect(entries[1]).toEqual(expect.objectContaining({ failure: 'net::ERR_BLOCKED_BY_CLIENT' }));
+  });
+
+  test('should drop the oldest requests when the buffer is full', () => {
+    for (let i = 0; i < MAX_NETWORK_ENTRIES + 5; i++) {
+      simulateRequest(`https://example.com/item/${i}`);
+    }
+
+    const entries = getNetworkLog('network-test');
+    expect(entries).toHaveLength(MAX_NETWORK_ENTRIES);
+    expect(entries[0].url).toBe('https://example.com/item/5');
+  });
+
+  test('should filter requests by URL glob, method, status and resource type', async () => {
+    simulateRequest('https://example.com/api/users', { status: 200 });
+    simulateRequest('https://example.com/api/orders', { method: 'POST', status: 500, postData: '{}' });
+    simulateRequest('https://example.com/api/missing', { status: 404 });
+    simulateRequest('https://example.com/logo.png', { resourceType: 'image', status: 200 });
+
+    const tool = new NetworkLogTool(mockServer);
+
+    const apiResult = await tool.execute({ urlPattern: '**/api/**' }, mockContext);
+    expect(apiResult.content[0].text).toContain('Retrieved 3 network request(s)');
+
+    const postResult = await tool.execute({ method: 'post' }, mockContext);
+    expect(postResult.content[1].text).toBe('[fetch] POST https://example.com/api/orders -> 500 ' + getNetworkLog('network-test')[1].duration + 'ms');
+
+    const errorResult = await tool.execute({ status: '4xx' }, mockContext);
+    expect(errorResult.content).toHaveLength(2);
+    expect(errorResult.content[1].text).toContain('/api/missing -> 404');
+
+    const imageResult = await tool.execute({ resourceType: 'image' }, mockContext);
+    expect(imageResult.content[1].text).toContain('logo.png');
+  });
+
+  test('should clear the log after retrieval when requested', async () => {
+    simulateRequest('https://example.com/api/users', { status: 200 });
+
+    await new NetworkLogTool(mockServer).execute({ clear: true }, mockContext);
+    const result = await new NetworkLogTool(mockServer).execute({}, mockContext);
+
+    expect(result.content[0].text).toBe('No network requests matching the criteria');
+  });
+
+  test('should export captured requests as a HAR file', async () => {
+    simulateRequest('https://example.com/api/users?page=2', { status: 200 });
+    simulateRequest('https://example.com/api/orders', { method: 'POST', postData: '{"id":1}', failure: 'net::ERR_FAILED' });
+    const harPath = path.join(tempDir, 'out', 'session.har');
+
+    const result = await new ExportHarTool(mockServer).execute({ path: harPath }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('Exported 2 request(s)');
+    const har = JSON.parse(fs.readFileSync(harPath, 'utf-8'));
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries).toHaveLength(2);
+    expect(har.log.entries[0].request.queryString).toEqual([{ name: 'page', value: '2' }]);
+    expect(har.log.entries[0].response.status).toBe(200);
+    expect(har.log.entries[1].request.postData).toEqual({ mimeType: 'application/json', text: '{"id":1}' });
+    expect(har.log.entries[1]._failureText).toBe('net::ERR_FAILED');
+  });
+
+  test('should export text response bodies and leave binary bodies out', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    simulateRequest('https://example.com/api/users', { status: 200, body: Buffer.from('[{"id":1}]') });
+    simulateRequest('https://example.com/logo.png', { resourceType: 'image', status: 200, contentType: 'image/png', body: png });
+    simulateRequest('https://example.com/redirect', { status: 302 });
+    // Bodies are read asynchronously after the response event
+    await new Promise(resolve => setImmediate(resolve));
+    const harPath = path.join(tempDir, 'bodies.har');
+
+    await new ExportHarTool(mockServer).execute({ path: harPath }, mockContext);
+
+    const [json, image, redirect] = JSON.parse(fs.readFileSync(harPath, 'utf-8')).log.entries;
+    expect(json.response.content).toEqual({ size: 10, mimeType: 'application/json', text: '[{"id":1}]' });
+    expect(image.response.content).toEqual({ size: 4, mimeType: 'image/png', comment: 'Binary bodies are not captured' });
+    expect(image.response.bodySize).toBe(4);
+    expect(redirect.response.content).toEqual({ size: -1, mimeType: 'application/json' });
+  });
+
+  test('should drop the oldest bodies once the session keeps too many bytes', async () => {
+    const count = MAX_SESSION_BODY_SIZE / MAX_RESPONSE_BODY_SIZE + 2;
+    for (let i = 0; i < count; i++) {
+      simulateRequest(`https://example.com/data/${i}.json`, { status: 200, body: Buffer.alloc(MAX_RESPONSE_BODY_SIZE, 'a') });
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    const entries = getNetworkLog('network-test');
+    expect(entries.slice(0, 2).map(entry => entry.responseBody)).toEqual([undefined, undefined]);
+    expect(entries[0].responseBodyOmitted).toBe('Dropped to keep the network log within its memory budget');
+    expect(entries.slice(2).every(entry => entry.responseBody?.length === MAX_RESPONSE_BODY_SIZE)).toBe(true);
+    expect(entries[0].responseBodySize).toBe(MAX_RESPONSE_BODY_SIZE);
+  });
+
+  test('should require a path for the HAR export', async () => {
+    const result = await new ExportHarTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+  });
+});
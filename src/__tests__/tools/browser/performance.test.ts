@@ -0,0 +1,130 @@
+import { PerformanceMetricsTool, PagePerformance, checkBudget, flattenMetrics } from '../../../tools/browser/performance.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Metrics the in-page collector reports
+const mockMetrics: PagePerformance = {
+  url: 'https://example.com/',
+  navigation: { ttfb: 120, fcp: 450.5, domContentLoaded: 600, load: 1200, transferSize: 20480 },
+  webVitals: { lcp: 1800, cls: 0.12, inp: 96, tbt: 250 },
+  resources: {
+    count: 12,
+    transferSize: 307200,
+    byType: {
+      script: { count: 5, transferSize: 204800 },
+      img: { count: 7, transferSize: 102400 }
+    }
+  }
+};
+
+// Mock the CDP session and the browser context of the page
+const mockCdpSend = jest.fn().mockImplementation((method: unknown) => Promise.resolve(method === 'Performance.getMetrics'
+  ? { metrics: [{ name: 'JSHeapUsedSize', value: 2097152 }, { name: 'LayoutCount', value: 14 }, { name: 'Timestamp', value: 1 }] }
+  : {}));
+const mockCdpDetach = jest.fn().mockImplementation(() => Promise.resolve());
+let mockBrowserName = 'chromium';
+const mockBrowserContext = {
+  newCDPSession: jest.fn().mockImplementation(() => Promise.resolve({ send: mockCdpSend, detach: mockCdpDetach })),
+  addInitScript: jest.fn().mockImplementation(() => Promise.resolve()),
+  browser: () => ({ browserType: () => ({ name: () => mockBrowserName }) })
+};
+
+// The first evaluate installs the observers, the second collects the metrics
+const mockEvaluate = jest.fn();
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  context: jest.fn(() => mockBrowserContext),
+  evaluate: mockEvaluate
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('PerformanceMetricsTool', () => {
+  let performanceMetricsTool: PerformanceMetricsTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBrowserName = 'chromium';
+    mockEvaluate.mockImplementation(() => Promise.resolve(mockMetrics));
+    performanceMetricsTool = new PerformanceMetricsTool(mockServer);
+  });
+
+  test('should report navigation timing, Web Vitals, resources and Chromium metrics', async () => {
+    const result = await performanceMetricsTool.execute({}, mockContext);
+
+    expect(mockEvaluate).toHaveBeenCalledTimes(2);
+    expect(mockCdpSend).toHaveBeenCalledWith('Performance.enable');
+    expect(mockCdpDetach).toHaveBeenCalled();
+    expect(result.isError).toBe(false);
+    expect(result.content.map(item => item.text)).toEqual([
+      'Performance metrics for https://example.com/:',
+      'Navigation: TTFB 120ms, FCP 450.5ms, DOMContentLoaded 600ms, load 1200ms, document 20.0 KB',
+      'Web Vitals: LCP 1800ms, CLS 0.12, INP 96ms, FID n/a, TBT 250ms',
+      'Resources: 12 request(s), 300.0 KB transferred: script 5 (200.0 KB), img 7 (100.0 KB)',
+      'Chromium: JSHeapUsedSize 2.0 MB, LayoutCount 14'
+    ]);
+  });
+
+  test('should register the observers for later documents only once per context', async () => {
+    const browserContext = { ...mockBrowserContext, addInitScript: jest.fn().mockImplementation(() => Promise.resolve()) };
+    const page = { ...mockPage, context: () => browserContext } as unknown as Page;
+
+    await performanceMetricsTool.execute({}, { ...mockContext, page });
+    await performanceMetricsTool.execute({}, { ...mockContext, page });
+
+    expect(browserContext.addInitScript).toHaveBeenCalledTimes(1);
+    expect(browserContext.addInitScript).toHaveBeenCalledWith(expect.any(Function));
+  });
+
+  test('should skip CDP metrics on other browsers', async () => {
+    mockBrowserName = 'webkit';
+
+    const result = await performanceMetricsTool.execute({}, mockContext);
+
+    expect(mockBrowserContext.newCDPSession).not.toHaveBeenCalled();
+    expect(result.content).toHaveLength(4);
+  });
+
+  test('should pass when all metrics are within budget', async () => {
+    const result = await performanceMetricsTool.execute({ budget: { lcp: 2500, scriptRequests: 5 } }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content.map(item => item.text)).toContain('Budget: PASSED (2 metric(s) within budget)');
+  });
+
+  test('should report metrics over budget or not measured', async () => {
+    const result = await performanceMetricsTool.execute({ budget: { lcp: 2500, cls: 0.1, fid: 100 } }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content.map(item => item.text).slice(-4)).toEqual([
+      'Budget: FAILED (2 of 3 metric(s) over budget)',
+      '  ✓ lcp 1800 <= 2500',
+      '  ✗ cls 0.12 > 0.1',
+      '  ✗ fid not measured (budget 100)'
+    ]);
+  });
+
+  test('should flatten metrics to budget names', () => {
+    const flat = flattenMetrics(mockMetrics, { JSHeapUsedSize: 2097152 });
+
+    expect(flat).toMatchObject({ ttfb: 120, lcp: 1800, requests: 12, resourceTransferSize: 307200, imgTransferSize: 102400, JSHeapUsedSize: 2097152 });
+    expect(flat).not.toHaveProperty('fid');
+    expect(checkBudget(flat, { tbt: 200 })).toEqual([{ metric: 'tbt', limit: 200, actual: 250, pass: false }]);
+  });
+});
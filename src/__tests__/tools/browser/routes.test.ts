@@ -0,0 +1,219 @@
+import { RouteTool, UnrouteTool, ListRoutesTool, RouteFromHarTool, getRoutes, clearRoutes } from '../../../tools/browser/routes.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Mock browser context functions
+const mockRoute = jest.fn().mockImplementation(() => Promise.resolve());
+const mockUnroute = jest.fn().mockImplementation(() => Promise.resolve());
+const mockUnrouteAll = jest.fn().mockImplementation(() => Promise.resolve());
+const mockRouteFromHAR = jest.fn().mockImplementation(() => Promise.resolve());
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  context: jest.fn(() => ({
+    route: mockRoute,
+    unroute: mockUnroute,
+    unrouteAll: mockUnrouteAll,
+    routeFromHAR: mockRouteFromHAR
+  }))
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+// Creates a mock Playwright route for a request with the given method
+function createMockRoute(method = 'GET'): any {
+  return {
+    request: () => ({ method: () => method }),
+    fulfill: jest.fn(() => Promise.resolve()),
+    abort: jest.fn(() => Promise.resolve()),
+    continue: jest.fn(() => Promise.resolve()),
+    fallback: jest.fn(() => Promise.resolve())
+  };
+}
+
+// Gets the handler registered by the last playwright_route call
+function lastHandler(): (route: any) => Promise<void> {
+  return mockRoute.mock.calls[mockRoute.mock.calls.length - 1][1] as (route: any) => Promise<void>;
+}
+
+describe('Route Tools', () => {
+  let routeTool: RouteTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearRoutes();
+    routeTool = new RouteTool(mockServer);
+  });
+
+  test('should fulfill matching requests with a JSON body', async () => {
+    const result = await routeTool.execute({ url: '**/api/users', body: [{ id: 1 }] }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('for any method **/api/users');
+    expect(mockRoute).toHaveBeenCalledWith('**/api/users', expect.any(Function));
+
+    const route = createMockRoute();
+    await lastHandler()(route);
+    expect(route.fulfill).toHaveBeenCalledWith({
+      status: 200,
+      headers: undefined,
+      contentType: 'application/json',
+      body: '[{"id":1}]'
+    });
+  });
+
+  test('should fall back for requests with another method', async () => {
+    await routeTool.execute({ url: '**/api/users', method: 'post', status: 201 }, mockContext);
+
+    const route = createMockRoute('GET');
+    await lastHandler()(route);
+    expect(route.fallback).toHaveBeenCalled();
+    expect(route.fulfill).not.toHaveBeenCalled();
+    expect(Array.from(getRoutes().values())[0].hits).toBe(0);
+  });
+
+  test('should abort matching requests with an error code', async () => {
+    await routeTool.execute({ url: '**/*.png', abort: true, errorCode: 'blockedbyclient' }, mockContext);
+
+    const route = createMockRoute();
+    await lastHandler()(route);
+    expect(route.abort).toHaveBeenCalledWith('blockedbyclient');
+  });
+
+  test('should continue delayed requests without a mocked response', async () => {
+    jest.useFakeTimers();
+    try {
+      await routeTool.execute({ url: '**/slow', delay: 500 }, mockContext);
+
+      const route = createMockRoute();
+      const handled = lastHandler()(route);
+      await jest.advanceTimersByTimeAsync(500);
+      await handled;
+      expect(route.continue).toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should reject routes that both abort and fulfill', async () => {
+    const result = await routeTool.execute({ url: '**/api', abort: true, status: 200 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(mockRoute).not.toHaveBeenCalled();
+  });
+
+  test('should list and remove routes', async () => {
+    await routeTool.execute({ url: '**/api/users', status: 500 }, mockContext);
+    await routeTool.execute({ url: '**/api/orders', status: 404 }, mockContext);
+    const [usersRoute] = Array.from(getRoutes().values());
+
+    const listResult = await new ListRoutesTool(mockServer).execute({}, mockContext);
+    expect(listResult.content[0].text).toBe('2 active route(s):');
+    expect(JSON.parse(listResult.content[1].text as string)[0]).toEqual(
+      expect.objectContaining({ id: usersRoute.id, url: '**/api/users', status: 500, hits: 0 })
+    );
+
+    const unrouteResult = await new UnrouteTool(mockServer).execute({ routeId: usersRoute.id }, mockContext);
+    expect(unrouteResult.content[0].text).toBe('Removed 1 route(s)');
+    expect(mockUnroute).toHaveBeenCalledWith('**/api/users', usersRoute.handler);
+
+    await new UnrouteTool(mockServer).execute({ all: true }, mockContext);
+    expect(getRoutes().size).toBe(0);
+  });
+
+  test('should report an unknown route ID', async () => {
+    const result = await new UnrouteTool(mockServer).execute({ routeId: 'route-missing' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Route not found');
+  });
+
+  describe('Route From HAR Tool', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-routes-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should serve responses from an existing HAR file', async () => {
+      const harPath = path.join(tempDir, 'backend.har');
+      fs.writeFileSync(harPath, JSON.stringify({ log: { version: '1.2', entries: [] } }));
+
+      const result = await new RouteFromHarTool(mockServer).execute({ path: harPath, url: '**/api/**', notFound: 'fallback' }, mockContext);
+
+      expect(result.isError).toBe(false);
+      expect(mockRouteFromHAR).toHaveBeenCalledWith(harPath, { url: '**/api/**', notFound: 'fallback', update: false });
+      expect(result.content[1].text).toContain('fall back');
+    });
+
+    test('should report a missing HAR file unless updating', async () => {
+      const harPath = path.join(tempDir, 'recordings', 'backend.har');
+
+      const missingResult = await new RouteFromHarTool(mockServer).execute({ path: harPath }, mockContext);
+      expect(missingResult.isError).toBe(true);
+      expect(missingResult.content[0].text).toContain('HAR file not found');
+
+      const updateResult = await new RouteFromHarTool(mockServer).execute({ path: harPath, update: true }, mockContext);
+      expect(updateResult.isError).toBe(false);
+      expect(mockRouteFromHAR).toHaveBeenCalledWith(harPath, { url: '**/*', notFound: 'abort', update: true });
+      expect(fs.existsSync(path.dirname(harPath))).toBe(true);
+    });
+
+    test('should register the remaining routes again when removing a HAR route', async () => {
+      const harPath = path.join(tempDir, 'backend.har');
+      const recordingPath = path.join(tempDir, 'new.har');
+      fs.writeFileSync(harPath, JSON.stringify({ log: { version: '1.2', entries: [] } }));
+      await routeTool.execute({ url: '**/*', status: 503 }, mockContext);
+      await new RouteFromHarTool(mockServer).execute({ path: harPath }, mockContext);
+      await new RouteFromHarTool(mockServer).execute({ path: recordingPath, update: true }, mockContext);
+      const [userRoute, harRoute] = Array.from(getRoutes().values());
+      expect(harRoute.hits).toBeUndefined();
+      jest.clearAllMocks();
+
+      await new UnrouteTool(mockServer).execute({ routeId: harRoute.id }, mockContext);
+
+      expect(mockUnrouteAll).toHaveBeenCalledWith({ behavior: 'ignoreErrors' });
+      expect(mockRoute).toHaveBeenCalledWith('**/*', userRoute.handler);
+      // The recording keeps going on the context, so it is not started a second time
+      expect(mockRouteFromHAR).not.toHaveBeenCalled();
+      expect(getRoutes().size).toBe(2);
+    });
+
+    test('should leave other routes alone when removing a HAR recording', async () => {
+      const harPath = path.join(tempDir, 'new.har');
+      await new RouteFromHarTool(mockServer).execute({ path: harPath, update: true }, mockContext);
+      const [harRoute] = Array.from(getRoutes().values());
+
+      const result = await new UnrouteTool(mockServer).execute({ routeId: harRoute.id }, mockContext);
+
+      expect(mockUnroute).not.toHaveBeenCalled();
+      expect(mockUnrouteAll).not.toHaveBeenCalled();
+      expect(result.content[1].text).toBe(`Recording into ${harPath} continues until the session closes`);
+      expect(getRoutes().size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { ScrollTool, ScrollUntilTool } from '../../../tools/browser/scroll.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Mock locator functions
+const mockScrollIntoViewIfNeeded = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorEvaluate = jest.fn().mockImplementation(() => Promise.resolve({
+  scrollTop: 500,
+  scrollLeft: 0,
+  scrollHeight: 2000,
+  clientHeight: 800
+}));
+const mockItemCount = jest.fn().mockImplementation(() => Promise.resolve(10));
+const mockEndCount = jest.fn().mockImplementation(() => Promise.resolve(0));
+const mockLocator = jest.fn().mockImplementation((selector: unknown) => ({
+  scrollIntoViewIfNeeded: mockScrollIntoViewIfNeeded,
+  evaluate: mockLocatorEvaluate,
+  count: selector === '#end' ? mockEndCount : mockItemCount,
+  first() { return this; }
+}));
+
+// Mock the Page object with proper typing
+const mockWaitForTimeout = jest.fn().mockImplementation(() => Promise.resolve());
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  locator: mockLocator,
+  waitForTimeout: mockWaitForTimeout
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Scroll Tools', () => {
+  let scrollTool: ScrollTool;
+  let scrollUntilTool: ScrollUntilTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    scrollTool = new ScrollTool(mockServer);
+    scrollUntilTool = new ScrollUntilTool(mockServer);
+  });
+
+  describe('ScrollTool', () => {
+    test('should scroll an element into view', async () => {
+      const result = await scrollTool.execute({ selector: '#footer' }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('#footer');
+      expect(mockScrollIntoViewIfNeeded).toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Scrolled #footer into view');
+    });
+
+    test('should scroll the page by a delta', async () => {
+      const result = await scrollTool.execute({ deltaY: 500 }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('html');
+      expect(mockLocatorEvaluate).toHaveBeenCalledWith(expect.any(Function), { deltaX: undefined, deltaY: 500, to: undefined });
+      expect(result.content[0].text).toBe('Scrolled page by (0, 500): scrollTop 500, scrollLeft 0, scrollHeight 2000');
+    });
+
+    test('should scroll a container to the bottom', async () => {
+      mockLocatorEvaluate.mockImplementationOnce(() => Promise.resolve({ scrollTop: 1200, scrollLeft: 0, scrollHeight: 2000, clientHeight: 800 }));
+
+      const result = await scrollTool.execute({ container: '.table-body', to: 'bottom' }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('.table-body');
+      expect(result.content[0].text).toBe('Scrolled .table-body to bottom: scrollTop 1200, scrollLeft 0, scrollHeight 2000 (at bottom)');
+    });
+
+    test('should require exactly one scroll target', async () => {
+      const none = await scrollTool.execute({}, mockContext);
+      const several = await scrollTool.execute({ selector: '#a', to: 'top' }, mockContext);
+      const invalid = await scrollTool.execute({ to: 'middle' }, mockContext);
+
+      expect(none.isError).toBe(true);
+      expect(several.content[0].text).toContain('Exactly one of');
+      expect(invalid.content[0].text).toContain('Invalid to value: middle');
+    });
+  });
+
+  describe('ScrollUntilTool', () => {
+    test('should stop when the item count stops growing', async () => {
+      mockItemCount
+        .mockImplementationOnce(() => Promise.resolve(10))
+        .mockImplementationOnce(() => Promise.resolve(20))
+        .mockImplementationOnce(() => Promise.resolve(30))
+        .mockImplementationOnce(() => Promise.resolve(30));
+
+      const result = await scrollUntilTool.execute({ itemSelector: '.post', wait: 100 }, mockContext);
+
+      expect(mockLocatorEvaluate).toHaveBeenCalledTimes(3);
+      expect(mockLocatorEvaluate).toHaveBeenCalledWith(expect.any(Function), { to: 'bottom' });
+      expect(mockWaitForTimeout).toHaveBeenCalledWith(100);
+      expect(result.content[0].text).toBe('Scrolled 3 time(s): item count stopped growing');
+      expect(result.content[1].text).toBe('Items matching .post: 30 (20 loaded)');
+    });
+
+    test('should stop when the selector appears', async () => {
+      mockEndCount
+        .mockImplementationOnce(() => Promise.resolve(0))
+        .mockImplementationOnce(() => Promise.resolve(1));
+
+      const result = await scrollUntilTool.execute({ untilSelector: '#end', container: '#feed', deltaY: 400 }, mockContext);
+
+      expect(mockLocatorEvaluate).toHaveBeenCalledTimes(1);
+      expect(mockLocatorEvaluate).toHaveBeenCalledWith(expect.any(Function), { deltaY: 400 });
+      expect(result.content[0].text).toBe('Scrolled 1 time(s): found #end');
+    });
+
+    test('should stop after the maximum number of scrolls', async () => {
+      const result = await scrollUntilTool.execute({ untilSelector: '#end', maxIterations: 3, wait: 0 }, mockContext);
+
+      expect(mockLocatorEvaluate).toHaveBeenCalledTimes(3);
+      expect(result.content[0].text).toBe('Scrolled 3 time(s): reached the maximum of 3 scrolls');
+    });
+
+    test('should require untilSelector or itemSelector', async () => {
+      const result = await scrollUntilTool.execute({}, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('untilSelector or itemSelector must be provided');
+    });
+  });
+});
@@ -0,0 +1,364 @@
+import { handleToolCall, getConsoleLogs, getSession, listTabs, resetBrowserState } from '../../../toolHandler.js';
+import { getRefTarget } from '../../../tools/browser/snapshot.js';
+import { getNetworkLog } from '../../../tools/browser/network.js';
+import { getDownloads, getDownloadsDir, setDownloadsDir } from '../../../tools/browser/downloads.js';
+import { getDialogLog, getDialogPolicy } from '../../../tools/browser/dialogs.js';
+import { jest } from '@jest/globals';
+import fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { chromium } from 'playwright';
+
+// Mock Playwright so every browser context gets its own page
+jest.mock('playwright', () => {
+  const createMockPage = (): any => {
+    const listeners: Record<string, ((...args: any[]) => void)[]> = {};
+    return {
+      listeners,
+      on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+        (listeners[event] ??= []).push(handler);
+      }),
+      addInitScript: jest.fn(() => Promise.resolve()),
+      goto: jest.fn(() => Promise.resolve()),
+      setViewportSize: jest.fn(() => Promise.resolve()),
+      emulateMedia: jest.fn(() => Promise.resolve()),
+      // Result of the snapshot walker
+      evaluate: jest.fn(() => Promise.resolve({ nodes: [{ role: 'button', name: 'Save', ref: 'e1' }], liveRefs: ['e1'] })),
+      url: jest.fn().mockReturnValue('https://example.com'),
+      isClosed: jest.fn().mockReturnValue(false)
+    };
+  };
+  const createMockContext = () => {
+    const context: any = {
+      newPage: jest.fn(() => Promise.resolve({ ...createMockPage(), context: () => context })),
+      on: jest.fn(),
+      close: jest.fn(() => Promise.resolve()),
+      routeFromHAR: jest.fn(() => Promise.resolve()),
+      storageState: jest.fn(() => Promise.resolve({ cookies: [], origins: [] })),
+      tracing: {
+        start: jest.fn(() => Promise.resolve()),
+        stop: jest.fn(() => Promise.resolve())
+      }
+    };
+    return context;
+  };
+  const mockLaunchedBrowser = {
+    newContext: jest.fn(() => Promise.resolve(createMockContext())),
+    on: jest.fn(),
+    isConnected: jest.fn().mockReturnValue(true),
+    close: jest.fn(() => Promise.resolve())
+  };
+  const mockLaunch = jest.fn(() => Promise.resolve(mockLaunchedBrowser));
+  return {
+    chromium: { launch: mockLaunch },
+    firefox: { launch: mockLaunch },
+    webkit: { launch: mockLaunch },
+    request: { newContext: jest.fn() },
+    devices: {
+      'Pixel 7': { viewport: { width: 412, height: 839 }, deviceScaleFactor: 2.625, isMobile: true, hasTouch: true, defaultBrowserType: 'chromium' }
+    }
+  };
+});
+
+// Mock server
+const mockServer = {
+  sendMessage: jest.fn(),
+  notification: jest.fn()
+};
+
+// Emits a console message on the active page of a session
+function emitConsole(sessionId: string, text: string) {
+  const page: any = getSession(sessionId)!.page;
+  page.listeners['console'].forEach(handler => handler({
+    type: () => 'log',
+    text: () => text
+  }));
+}
+
+describe('Session Management Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetBrowserState();
+  });
+
+  test('should create isolated sessions with their own contexts', async () => {
+    const adminResult = await handleToolCall('playwright_create_session', { sessionId: 'admin' }, mockServer);
+    const customerResult = await handleToolCall('playwright_create_session', { sessionId: 'customer' }, mockServer);
+
+    expect(adminResult.isError).toBe(false);
+    expect(adminResult.content[0].text).toContain("Created session 'admin'");
+    expect(customerResult.isError).toBe(false);
+    expect(getSession('admin')!.context).not.toBe(getSession('customer')!.context);
+    expect(listTabs('admin')).toHaveLength(1);
+  });
+
+  test('should reject creating a session twice', async () => {
+    await handleToolCall('playwright_create_session', { sessionId: 'admin' }, mockServer);
+    const result = await handleToolCall('playwright_create_session', { sessionId: 'admin' }, mockServer);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Session already exists');
+  });
+
+  test('should route browser tools to the requested session', async () => {
+    await handleToolCall('playwright_navigate', { url: 'https://example.com' }, mockServer);
+    await handleToolCall('playwright_navigate', { url: 'https://example.com/admin', sessionId: 'admin' }, mockServer);
+
+    expect(getSession('admin')!.page!.goto).toHaveBeenCalledWith('https://example.com/admin', expect.anything());
+    expect(getSession()!.page!.goto).not.toHaveBeenCalledWith('https://example.com/admin', expect.anything());
+  });
+
+  test('should scope console logs per session', async () => {
+    await handleToolCall('playwright_create_session', { sessionId: 'admin' }, mockServer);
+    await handleToolCall('playwright_create_session', { sessionId: 'customer' }, mockServer);
+
+    emitConsole('admin', 'admin message');
+    emitConsole('customer', 'customer message');
+
+    expect(getConsoleLogs('admin')).toEqual(['[log] admin message']);
+    const result = await handleToolCall('playwright_console_logs', { sessionId: 'customer' }, mockServer);
+    expect(result.content[1].text).toBe('[log] customer message');
+  });
+
+  test('should list sessions', async () => {
+    await handleToolCall('playwright_create_session', { sessionId: 'admin' }, mockServer);
+
+    const result = await handleToolCall('playwright_list_sessions', {}, mockServer);
+
+    expect(result.isError).toBe(false);
+    const sessions = JSON.parse(result.content[1].text as string);
+    expect(sessions).toEqual([
+      expect.objectContaining({ sessionId: 'admin', tabs: 1, url: 'https://example.com' })
+    ]);
+  });
+
+  test('should destroy a session and discard its logs', async () => {
+    await handleToolCall('playwright_create_session', { sessionId: 'admin' }, mockServer);
+    const context = getSession('admin')!.context;
+    emitConsole('admin', 'admin message');
+
+    const result = await handleToolCall('playwright_destroy_session', { sessionId: 'admin' }, mockServer);
+
+    expect(result.isError).toBe(false);
+    expect(context.close).toHaveBeenCalled();
+    expect(getSession('admin')).toBeUndefined();
+    expect(getConsoleLogs('admin')).toEqual([]);
+  });
+
+  test('should forget snapshot refs of a destroyed session', async () => {
+    await handleToolCall('playwright_snapshot', {}, mockServer);
+    await handleToolCall('playwright_snapshot', { sessionId: 'admin' }, mockServer);
+
+    await handleToolCall('playwright_destroy_session', { sessionId: 'admin' }, mockServer);
+
+    expect(getRefTarget('e1', 'admin')).toBeUndefined();
+    expect(getRefTarget('e1')).toEqual({ role: 'button', name: 'Save' });
+  });
+
+  test('should forget the state of every session when the browser is reset', async () => {
+    await handleToolCall('playwright_snapshot', {}, mockServer);
+    await handleToolCall('playwright_snapshot', { sessionId: 'admin' }, mockServer);
+    await handleToolCall('playwright_dialog_policy', { action: 'queue' }, mockServer);
+    emitConsole('default', 'stale message');
+    getNetworkLog().push({ id: 1, url: 'https://example.com', method: 'GET', resourceType: 'document', requestHeaders: {}, startedAt: 0 });
+    getDownloads('admin').push({ id: 'download-1', url: 'https://example.com/a.csv', suggestedFilename: 'a.csv', startedAt: 0, status: 'in_progress' });
+    getDialogLog().push({ id: 'dialog-1', type: 'alert', message: 'Hi', url: 'https://example.com', openedAt: 0, status: 'pending' });
+    setDownloadsDir('admin', os.tmpdir());
+
+    resetBrowserState();
+
+    expect(getRefTarget('e1')).toBeUndefined();
+    expect(getRefTarget('e1', 'admin')).toBeUndefined();
+    expect(getConsoleLogs()).toEqual([]);
+    expect(getNetworkLog()).toEqual([]);
+    expect(getDownloads('admin')).toEqual([]);
+    expect(getDownloadsDir('admin')).not.toBe(path.resolve(os.tmpdir()));
+    expect(getDialogLog()).toEqual([]);
+    expect(getDialogPolicy().action).toBe('dismiss');
+  });
+
+  test('should report destroying an unknown session', async () => {
+    const result = await handleToolCall('playwright_destroy_session', { sessionId: 'missing' }, mockServer);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Session not found');
+  });
+
+  test('should save traces when the browser is closed', async () => {
+    const tracePath = path.join(os.tmpdir(), 'sessions-test-trace.zip');
+    await handleToolCall('playwright_start_tracing', { path: tracePath }, mockServer);
+    const context: any = getSession()!.context;
+    const browser: any = await chromium.launch();
+
+    const result = await handleToolCall('playwright_close', {}, mockServer);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Browser closed successfully');
+    expect(result.content[1].text).toBe(`Saved trace of session 'default' to: ${tracePath}`);
+    expect(context.tracing.stop).toHaveBeenCalledWith({ path: tracePath });
+    expect(context.tracing.stop.mock.invocationCallOrder[0]).toBeLessThan(browser.close.mock.invocationCallOrder[0]);
+    expect(getSession()).toBeUndefined();
+  });
+
+  test('should write HAR recordings of every session when the browser is closed', async () => {
+    const harPath = path.join(os.tmpdir(), `sessions-test-${Date.now()}.har`);
+    await handleToolCall('playwright_route_from_har', { path: harPath, update: true }, mockServer);
+    await handleToolCall('playwright_create_session', { sessionId: 'admin' }, mockServer);
+    const context: any = getSession()!.context;
+    const adminContext: any = getSession('admin')!.context;
+    // Playwright writes update-mode recordings when the context closes
+    context.close.mockImplementation(async () => {
+      fs.writeFileSync(context.routeFromHAR.mock.calls[0][0], JSON.stringify({ log: { entries: [] } }));
+    });
+
+    try {
+      await handleToolCall('playwright_close', {}, mockServer);
+
+      expect(fs.existsSync(harPath)).toBe(true);
+      expect(adminContext.close).toHaveBeenCalled();
+    } finally {
+      fs.rmSync(harPath, { force: true });
+    }
+  });
+
+  test('should refuse to recreate the context of a session recording a HAR', async () => {
+    const harPath = path.join(os.tmpdir(), `sessions-test-${Date.now()}.har`);
+    const statePath = path.join(os.tmpdir(), `sessions-test-${Date.now()}.json`);
+    fs.writeFileSync(statePath, JSON.stringify({ cookies: [], origins: [] }));
+    await handleToolCall('playwright_route_from_har', { path: harPath, update: true }, mockServer);
+    const context = getSession()!.context;
+    const browser: any = await chromium.launch();
+
+    try {
+      const navigateResult = await handleToolCall('playwright_navigate', { url: 'https://example.com', colorScheme: 'dark' }, mockServer);
+      const loadResult = await handleToolCall('playwright_load_storage_state', { path: statePath }, mockServer);
+
+      expect(navigateResult.isError).toBe(true);
+      expect(navigateResult.content[0].text).toBe(`Session 'default' is recording into ${harPath}, which a new context would overwrite. Destroy the session to save the recording first`);
+      expect(loadResult.isError).toBe(true);
+      expect(loadResult.content[0].text).toContain(`is recording into ${harPath}`);
+      expect(browser.close).not.toHaveBeenCalled();
+      expect(getSession()!.context).toBe(context);
+    } finally {
+      fs.rmSync(statePath, { force: true });
+    }
+  });
+
+  test('should reject an unknown device without dropping other sessions', async () => {
+    await handleToolCall('playwright_create_session', { sessionId: 'admin' }, mockServer);
+    const adminContext = getSession('admin')!.context;
+    const browser: any = await chromium.launch();
+
+    const navigateResult = await handleToolCall('playwright_navigate', { url: 'https://example.com', device: 'Nokia 3310' }, mockServer);
+    const createResult = await handleToolCall('playwright_create_session', { sessionId: 'mobile', device: 'Nokia 3310' }, mockServer);
+
+    expect(navigateResult.isError).toBe(true);
+    expect(navigateResult.content[0].text).toContain('Unknown device: Nokia 3310');
+    expect(createResult.isError).toBe(true);
+    expect(createResult.content[0].text).toContain('Unknown device: Nokia 3310');
+    expect(browser.close).not.toHaveBeenCalled();
+    expect(getSession('admin')!.context).toBe(adminContext);
+    expect(getSession('mobile')).toBeUndefined();
+  });
+
+  test('should reject a missing or invalid storage state file without dropping other sessions', async () => {
+    await handleToolCall('playwright_navigate', { url: 'https://example.com' }, mockServer);
+    const context = getSession()!.context;
+    const invalidPath = path.join(os.tmpdir(), `sessions-test-${Date.now()}.json`);
+    fs.writeFileSync(invalidPath, '{ not json');
+
+    try {
+      const missingResult = await handleToolCall('playwright_navigate', { url: 'https://example.com', storageState: '/missing/state.json' }, mockServer);
+      const invalidResult = await handleToolCall('playwright_navigate', { url: 'https://example.com', storageState: invalidPath }, mockServer);
+
+      expect(missingResult.isError).toBe(true);
+      expect(missingResult.content[0].text).toBe('Storage state file not found: /missing/state.json');
+      expect(invalidResult.isError).toBe(true);
+      expect(invalidResult.content[0].text).toContain('Invalid storage state file');
+      expect(getSession()!.context).toBe(context);
+    } finally {
+      fs.rmSync(invalidPath, { force: true });
+    }
+  });
+
+  test('should not recreate a context for a storage state file it already started from', async () => {
+    const statePath = path.join(os.tmpdir(), `sessions-test-${Date.now()}.json`);
+    fs.writeFileSync(statePath, JSON.stringify({ cookies: [], origins: [] }));
+    const browser: any = await chromium.launch();
+
+    try {
+      await handleToolCall('playwright_navigate', { url: 'https://example.com', storageState: statePath }, mockServer);
+      // Emulation recreates the context with a snapshot of the state
+      await handleToolCall('playwright_navigate', { url: 'https://example.com', colorScheme: 'dark' }, mockServer);
+      expect(browser.newContext).toHaveBeenCalledTimes(2);
+
+      await handleToolCall('playwright_navigate', { url: 'https://example.com', storageState: statePath }, mockServer);
+
+      expect(browser.newContext).toHaveBeenCalledTimes(2);
+      expect(getSession()!.storageStateSource).toBe(statePath);
+    } finally {
+      fs.rmSync(statePath, { force: true });
+    }
+  });
+
+  test('should not recreate a context when a relative storage state path is given again', async () => {
+    const statePath = path.join(os.tmpdir(), `sessions-test-${Date.now()}.json`);
+    const relativePath = path.relative(process.cwd(), statePath);
+    fs.writeFileSync(statePath, JSON.stringify({ cookies: [], origins: [] }));
+    const browser: any = await chromium.launch();
+
+    try {
+      await handleToolCall('playwright_navigate', { url: 'https://example.com' }, mockServer);
+      await handleToolCall('playwright_load_storage_state', { path: relativePath }, mockServer);
+      expect(browser.newContext).toHaveBeenCalledTimes(2);
+
+      await handleToolCall('playwright_navigate', { url: 'https://example.com', storageState: relativePath }, mockServer);
+
+      expect(browser.newContext).toHaveBeenCalledTimes(2);
+      expect(getSession()!.storageStateSource).toBe(statePath);
+    } finally {
+      fs.rmSync(statePath, { force: true });
+    }
+  });
+
+  test('should keep a changed viewport when emulation recreates the context', async () => {
+    const browser: any = await chromium.launch();
+    await handleToolCall('playwright_navigate', { url: 'https://example.com' }, mockServer);
+    await handleToolCall('playwright_set_viewport', { width: 375, height: 812 }, mockServer);
+
+    await handleToolCall('playwright_navigate', { url: 'https://example.com', colorScheme: 'dark' }, mockServer);
+
+    expect(browser.newContext).toHaveBeenCalledTimes(2);
+    expect(browser.newContext).toHaveBeenLastCalledWith(expect.objectContaining({
+      viewport: { width: 375, height: 812 },
+      deviceScaleFactor: 1,
+      colorScheme: 'dark'
+    }));
+
+    await handleToolCall('playwright_navigate', { url: 'https://example.com', colorScheme: 'dark' }, mockServer);
+
+    expect(browser.newContext).toHaveBeenCalledTimes(2);
+    expect(getSession()!.contextOptions.viewport).toEqual({ width: 375, height: 812 });
+  });
+
+  test('should not reapply a reset media feature when the context is recreated', async () => {
+    const browser: any = await chromium.launch();
+    await handleToolCall('playwright_navigate', { url: 'https://example.com', colorScheme: 'dark' }, mockServer);
+    await handleToolCall('playwright_emulate_media', { colorScheme: 'reset', reducedMotion: 'reduce' }, mockServer);
+
+    await handleToolCall('playwright_navigate', { url: 'https://example.com', locale: 'de-DE' }, mockServer);
+
+    expect(browser.newContext).toHaveBeenCalledTimes(2);
+    const [options] = browser.newContext.mock.calls[1];
+    expect(options.colorScheme).toBeUndefined();
+    expect(options).toMatchObject({ reducedMotion: 'reduce', locale: 'de-DE' });
+  });
+
+  test('should list devices without launching a browser', async () => {
+    const result = await handleToolCall('playwright_list_devices', {}, mockServer);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[1].text).toBe('Pixel 7: 412x839 @2.625x, mobile, touch (chromium)');
+    expect(chromium.launch).not.toHaveBeenCalled();
+  });
+});
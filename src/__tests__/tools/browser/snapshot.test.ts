@@ -0,0 +1,179 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SnapshotTool, formatSnapshot, getRefTarget, clearSnapshotRefs, SnapshotNode } from '../../../tools/browser/snapshot.js';
+import { refToSelector } from '../../../tools/common/refs.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Accessibility tree returned by the in-page walker
+const mockNodes: SnapshotNode[] = [
+  { role: 'heading', name: 'Sign in', ref: 'e1', level: 1 },
+  {
+    role: 'form', ref: 'e2', children: [
+      { role: 'textbox', name: 'Email', ref: 'e3', value: 'user@example.com', required: true },
+      { role: 'checkbox', name: 'Remember me', ref: 'e4', checked: false },
+      { role: 'button', name: 'Sign in', ref: 'e5', disabled: true }
+    ]
+  },
+  { role: 'list', ref: 'e6', children: [{ role: 'listitem', ref: 'e7', children: [{ role: 'text', name: 'Forgot password?' }] }] }
+];
+
+// Mock evaluate function
+const mockEvaluate = jest.fn().mockImplementation(() => Promise.resolve({
+  nodes: mockNodes,
+  liveRefs: ['e1', 'e2', 'e3', 'e4', 'e5', 'e6', 'e7']
+}));
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  url: jest.fn().mockReturnValue('https://example.com/login'),
+  evaluate: mockEvaluate
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Snapshot Tool', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearSnapshotRefs();
+  });
+
+  test('should format nodes as compact YAML with refs and states', () => {
+    expect(formatSnapshot(mockNodes)).toBe([
+      '- heading "Sign in" [level=1] [ref=e1]',
+      '- form [ref=e2]:',
+      '  - textbox "Email" [required] [ref=e3]: "user@example.com"',
+      '  - checkbox "Remember me" [ref=e4]',
+      '  - button "Sign in" [disabled] [ref=e5]',
+      '- list [ref=e6]:',
+      '  - listitem [ref=e7]: "Forgot password?"'
+    ].join('\n'));
+  });
+
+  test('should return a YAML snapshot of the page', async () => {
+    const result = await new SnapshotTool(mockServer).execute({}, mockContext);
+
+    expect(mockEvaluate).toHaveBeenCalledWith(expect.any(Function), { rootSelector: 'body', refAttribute: 'data-mcp-ref' });
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('Accessibility snapshot of https://example.com/login');
+    expect(result.content[1].text).toContain('- button "Sign in" [disabled] [ref=e5]');
+  });
+
+  test('should return a JSON snapshot when requested', async () => {
+    const result = await new SnapshotTool(mockServer).execute({ format: 'json', selector: 'form' }, mockContext);
+
+    expect(mockEvaluate).toHaveBeenCalledWith(expect.any(Function), { rootSelector: 'form', refAttribute: 'data-mcp-ref' });
+    expect(JSON.parse(result.content[1].text as string)).toEqual(mockNodes);
+  });
+
+  test('should remember the role and name of each ref', async () => {
+    await new SnapshotTool(mockServer).execute({}, mockContext);
+
+    expect(getRefTarget('e5')).toEqual({ role: 'button', name: 'Sign in' });
+    expect(getRefTarget('e6')).toEqual({ role: 'list' });
+    expect(getRefTarget('e5', 'other-session')).toBeUndefined();
+  });
+
+  test('should report a missing root element', async () => {
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve(null));
+
+    const result = await new SnapshotTool(mockServer).execute({ selector: '#missing' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Element not found: #missing');
+  });
+});
+
+describe('Snapshot walker', () => {
+  // Runs the in-page walker against the jsdom document
+  const domPage = {
+    isClosed: jest.fn().mockReturnValue(false),
+    url: jest.fn().mockReturnValue('http://localhost/'),
+    evaluate: jest.fn((fn: (arg: unknown) => unknown, arg: unknown) => Promise.resolve(fn(arg)))
+  } as unknown as Page;
+  const domContext = { ...mockContext, page: domPage } as ToolContext;
+
+  beforeEach(() => {
+    clearSnapshotRefs();
+    delete (window as { __mcpRefCounter?: number }).__mcpRefCounter;
+  });
+
+  const signInForm = `
+    <h1>Sign in</h1>
+    <form>
+      <label for="email">Email</label><input id="email" type="email" required value="user@example.com">
+      <input type="password" aria-label="Password" value="secret">
+      <button disabled>Sign in</button>
+      <div hidden><button>Hidden</button></div>
+      <script>ignored()</script>
+    </form>
+    <nav aria-label="Footer"><ul><li><a href="/help">Help</a></li><li><a>No link</a></li></ul></nav>
+    <div role="presentation"><span>Plain text</span></div>`;
+
+  test('should build the accessibility tree and mark elements with refs', async () => {
+    document.body.innerHTML = signInForm;
+
+    const result = await new SnapshotTool(mockServer).execute({}, domContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[1].text).toBe([
+      '- heading "Sign in" [level=1] [ref=e1]',
+      '- form [ref=e2]:',
+      '  - text: "Email"',
+      '  - textbox "Email" [required] [ref=e3]: "user@example.com"',
+      '  - textbox "Password" [ref=e4]: "••••"',
+      '  - button "Sign in" [disabled] [ref=e5]',
+      '- navigation "Footer" [ref=e6]:',
+      '  - list [ref=e7]:',
+      '    - listitem [ref=e8]:',
+      '      - link "Help" [ref=e9]',
+      '    - listitem [ref=e10]: "No link"',
+      '- text: "Plain text"'
+    ].join('\n'));
+    expect(document.querySelector(refToSelector('e5'))!.textContent).toBe('Sign in');
+    expect(document.querySelector('[hidden] button')!.hasAttribute('data-mcp-ref')).toBe(false);
+  });
+
+  test('should keep refs of elements that still exist and drop refs of removed ones', async () => {
+    document.body.innerHTML = signInForm;
+    await new SnapshotTool(mockServer).execute({}, domContext);
+
+    document.querySelector('button')!.remove();
+    document.querySelector('form')!.insertAdjacentHTML('beforeend', '<button>Continue</button>');
+    const result = await new SnapshotTool(mockServer).execute({ selector: 'form' }, domContext);
+
+    expect(result.content[1].text).toContain('- button "Continue" [ref=e11]');
+    expect(getRefTarget('e3')).toEqual({ role: 'textbox', name: 'Email' });
+    // Elements outside the snapshot root keep their refs
+    expect(getRefTarget('e9')).toEqual({ role: 'link', name: 'Help' });
+    expect(getRefTarget('e5')).toBeUndefined();
+  });
+
+  test('should escape refs in selectors', () => {
+    document.body.innerHTML = '<h1 data-mcp-ref="e1">Title</h1>';
+
+    expect(refToSelector('e1')).toBe('[data-mcp-ref="e1"]');
+    expect(refToSelector('a"b\\c')).toBe('[data-mcp-ref="a\\"b\\\\c"]');
+    expect(document.querySelector(refToSelector('e1'))!.textContent).toBe('Title');
+    expect(document.querySelector(refToSelector('x"], h1, [x="'))).toBeNull();
+    expect(document.querySelector(refToSelector('e1\n'))).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { SaveStorageStateTool, LoadStorageStateTool } from '../../../tools/browser/storageState.js';
+import { recreateSessionContext } from '../../../toolHandler.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('../../../toolHandler.js', () => ({
+  recreateSessionContext: jest.fn()
+}));
+const mockedRecreateSessionContext = jest.mocked(recreateSessionContext);
+
+// Mock storage state returned by the context
+const mockState = {
+  cookies: [{ name: 'session', value: 'abc', domain: 'example.com' }],
+  origins: [{ origin: 'https://example.com', localStorage: [{ name: 'token', value: 'xyz' }] }]
+};
+const mockStorageState = jest.fn().mockImplementation(() => Promise.resolve(mockState));
+
+// Mock the current page and the page of the recreated context
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  url: jest.fn().mockReturnValue('https://example.com/dashboard'),
+  context: jest.fn(() => ({ storageState: mockStorageState }))
+} as unknown as Page;
+const mockNewPage = {
+  goto: jest.fn().mockImplementation(() => Promise.resolve())
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer,
+  sessionId: 'admin'
+} as ToolContext;
+
+describe('Storage State Tools', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-storage-state-'));
+    mockedRecreateSessionContext.mockResolvedValue(mockNewPage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should save storage state to a file', async () => {
+    const statePath = path.join(tempDir, 'auth', 'admin.json');
+
+    const result = await new SaveStorageStateTool(mockServer).execute({ path: statePath }, mockContext);
+
+    expect(mockStorageState).toHaveBeenCalledWith({ path: statePath });
+    expect(fs.existsSync(path.dirname(statePath))).toBe(true);
+    expect(result.isError).toBe(false);
+    expect(result.content[1].text).toContain('Cookies: 1, origins with localStorage: 1');
+  });
+
+  test('should recreate the session context from a storage state file', async () => {
+    const statePath = path.join(tempDir, 'admin.json');
+    fs.writeFileSync(statePath, JSON.stringify(mockState));
+
+    const result = await new LoadStorageStateTool(mockServer).execute({ path: statePath }, mockContext);
+
+    expect(mockedRecreateSessionContext).toHaveBeenCalledWith('admin', { storageState: statePath });
+    expect(mockNewPage.goto).toHaveBeenCalledWith('https://example.com/dashboard', { timeout: 30000, waitUntil: 'load' });
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('Loaded storage state');
+  });
+
+  test('should report a missing storage state file', async () => {
+    const result = await new LoadStorageStateTool(mockServer).execute({ path: path.join(tempDir, 'missing.json') }, mockContext);
+
+    expect(mockedRecreateSessionContext).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Storage state file not found');
+  });
+
+  test('should report an invalid storage state file', async () => {
+    const statePath = path.join(tempDir, 'broken.json');
+    fs.writeFileSync(statePath, '{ not json');
+
+    const result = await new LoadStorageStateTool(mockServer).execute({ path: statePath }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Invalid storage state file');
+  });
+});
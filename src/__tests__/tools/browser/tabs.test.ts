@@ -0,0 +1,158 @@
+import { ListTabsTool, NewTabTool, SwitchTabTool, CloseTabTool } from '../../../tools/browser/tabs.js';
+import { ensureBrowser, trackPage, listTabs, resetBrowserState } from '../../../toolHandler.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Creates a mock page whose close() fires the registered 'close' listeners
+function createMockPage(url: string, title: string): Page {
+  const listeners: Record<string, ((...args: any[]) => void)[]> = {};
+  let closed = false;
+  const mockPage: any = {
+    url: jest.fn().mockReturnValue(url),
+    title: jest.fn().mockImplementation(() => Promise.resolve(title)),
+    on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+      (listeners[event] ??= []).push(handler);
+    }),
+    addInitScript: jest.fn().mockImplementation(() => Promise.resolve()),
+    bringToFront: jest.fn().mockImplementation(() => Promise.resolve()),
+    goto: jest.fn().mockImplementation(() => Promise.resolve()),
+    isClosed: jest.fn(() => closed),
+    close: jest.fn().mockImplementation(async () => {
+      closed = true;
+      (listeners['close'] ?? []).forEach(handler => handler());
+    }),
+  };
+  return mockPage as Page;
+}
+
+// Page returned for the session's first tab
+let mockInitialPage: Page;
+
+// Mock the Playwright launcher so ensureBrowser creates a session around mockInitialPage
+jest.mock('playwright', () => {
+  const mockBrowserContext = {
+    newPage: jest.fn(() => Promise.resolve(mockInitialPage)),
+    on: jest.fn()
+  };
+  const mockLaunchedBrowser = {
+    newContext: jest.fn(() => Promise.resolve(mockBrowserContext)),
+    on: jest.fn(),
+    isConnected: jest.fn().mockReturnValue(true),
+    close: jest.fn(() => Promise.resolve())
+  };
+  const mockLaunch = jest.fn(() => Promise.resolve(mockLaunchedBrowser));
+  return {
+    chromium: { launch: mockLaunch },
+    firefox: { launch: mockLaunch },
+    webkit: { launch: mockLaunch },
+    request: { newContext: jest.fn() }
+  };
+});
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+describe('Tab Management Tools', () => {
+  let firstPage: Page;
+  let secondPage: Page;
+  let mockContext: ToolContext;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    resetBrowserState();
+
+    firstPage = createMockPage('https://example.com/home', 'Home');
+    secondPage = createMockPage('https://auth.example.com/oauth/authorize', 'Sign in');
+    const newPage = createMockPage('about:blank', '');
+    (firstPage as any).context = jest.fn(() => ({
+      newPage: jest.fn().mockImplementation(() => Promise.resolve(newPage))
+    }));
+
+    mockInitialPage = firstPage;
+    await ensureBrowser();
+    await trackPage(secondPage);
+
+    mockContext = {
+      page: firstPage,
+      browser: mockBrowser,
+      server: mockServer
+    } as ToolContext;
+  });
+
+  test('trackPage should assign stable tab IDs and ignore duplicates', async () => {
+    const id = await trackPage(firstPage);
+    expect(id).toBe('tab-1');
+    expect(listTabs().map(tab => tab.id)).toEqual(['tab-1', 'tab-2']);
+    expect(firstPage.addInitScript).toHaveBeenCalledTimes(1);
+  });
+
+  test('should list open tabs', async () => {
+    const result = await new ListTabsTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('Open tabs (2)');
+    const tabs = JSON.parse(result.content[1].text as string);
+    expect(tabs[0]).toMatchObject({ id: 'tab-1', index: 0, url: 'https://example.com/home', title: 'Home' });
+    expect(tabs[1]).toMatchObject({ id: 'tab-2', index: 1, title: 'Sign in' });
+  });
+
+  test('should open a new tab and switch to it', async () => {
+    const result = await new NewTabTool(mockServer).execute({ url: 'https://example.com/new' }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('Opened new tab tab-3');
+    const tabs = listTabs();
+    expect(tabs).toHaveLength(3);
+    expect(tabs[2].active).toBe(true);
+    expect(tabs[2].page.goto).toHaveBeenCalledWith('https://example.com/new', { timeout: 30000, waitUntil: 'load' });
+  });
+
+  test('should switch tabs by index', async () => {
+    const result = await new SwitchTabTool(mockServer).execute({ index: 1 }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('Switched to tab tab-2');
+    expect(secondPage.bringToFront).toHaveBeenCalled();
+  });
+
+  test('should switch tabs by URL glob pattern', async () => {
+    const result = await new SwitchTabTool(mockServer).execute({ urlPattern: '**/oauth/**' }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('tab-2');
+  });
+
+  test('should switch tabs by title', async () => {
+    const result = await new SwitchTabTool(mockServer).execute({ title: 'home' }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('tab-1');
+  });
+
+  test('should reject an out of range index', async () => {
+    const result = await new SwitchTabTool(mockServer).execute({ index: 5 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Tab index out of range');
+  });
+
+  test('should close the active tab and fall back to the last remaining tab', async () => {
+    await new SwitchTabTool(mockServer).execute({ tabId: 'tab-1' }, mockContext);
+
+    const result = await new CloseTabTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(firstPage.close).toHaveBeenCalled();
+    expect(result.content[0].text).toContain('Closed tab tab-1');
+    expect(result.content[1].text).toContain('Active tab: tab-2');
+    expect(listTabs().map(tab => tab.id)).toEqual(['tab-2']);
+  });
+});
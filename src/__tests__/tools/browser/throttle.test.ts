@@ -0,0 +1,155 @@
+import { ThrottleTool, applyThrottle, clearThrottles, restoreLatencyRoute, toNetworkConditions } from '../../../tools/browser/throttle.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Mock the CDP session and the browser context of the page
+const mockCdpSend = jest.fn().mockImplementation(() => Promise.resolve());
+let mockBrowserName = 'chromium';
+const mockBrowserContext = {
+  newCDPSession: jest.fn().mockImplementation(() => Promise.resolve({ send: mockCdpSend })),
+  browser: () => ({ browserType: () => ({ name: () => mockBrowserName }) }),
+  route: jest.fn().mockImplementation(() => Promise.resolve()),
+  unroute: jest.fn().mockImplementation(() => Promise.resolve()),
+  setOffline: jest.fn().mockImplementation(() => Promise.resolve()),
+  pages: jest.fn(() => [])
+};
+
+// Mock the Page object with proper typing
+const createMockPage = () => ({
+  isClosed: jest.fn().mockReturnValue(false),
+  context: jest.fn(() => mockBrowserContext)
+} as unknown as Page);
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+describe('ThrottleTool', () => {
+  let throttleTool: ThrottleTool;
+  let mockContext: ToolContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearThrottles();
+    mockBrowserName = 'chromium';
+    throttleTool = new ThrottleTool(mockServer);
+    mockContext = {
+      page: createMockPage(),
+      browser: mockBrowser,
+      server: mockServer
+    } as ToolContext;
+  });
+
+  test('should apply a network preset and CPU slowdown through CDP', async () => {
+    const result = await throttleTool.execute({ preset: 'slow-3g', cpuRate: 4 }, mockContext);
+
+    expect(mockCdpSend).toHaveBeenCalledWith('Network.enable');
+    expect(mockCdpSend).toHaveBeenCalledWith('Network.emulateNetworkConditions', {
+      offline: false, latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000
+    });
+    expect(mockCdpSend).toHaveBeenCalledWith('Emulation.setCPUThrottlingRate', { rate: 4 });
+    expect(result.content.map(item => item.text)).toEqual([
+      'Applied throttling preset: slow-3g',
+      'Network: latency 2000ms, download 400 kbps, upload 400 kbps',
+      'CPU: 4x slowdown'
+    ]);
+  });
+
+  test('should keep the network conditions when only the CPU rate changes', async () => {
+    await throttleTool.execute({ preset: 'fast-3g' }, mockContext);
+    await throttleTool.execute({ cpuRate: 6 }, mockContext);
+
+    // The CDP session stays attached so the throttling of the page persists
+    expect(mockBrowserContext.newCDPSession).toHaveBeenCalledTimes(1);
+    expect(mockCdpSend).toHaveBeenLastCalledWith('Emulation.setCPUThrottlingRate', { rate: 6 });
+    expect(mockCdpSend).toHaveBeenCalledWith('Network.emulateNetworkConditions', expect.objectContaining({ latency: 562.5 }));
+  });
+
+  test('should let custom values override a preset', () => {
+    expect(toNetworkConditions({ preset: 'fast-3g', latency: 100, downloadKbps: 1000 })).toEqual({
+      offline: false, latency: 100, downloadThroughput: 125000, uploadThroughput: 84375
+    });
+    expect(() => toNetworkConditions({ preset: '2g' })).toThrow('Unknown preset: 2g');
+  });
+
+  test('should fall back to a latency route on other browsers', async () => {
+    mockBrowserName = 'firefox';
+
+    const result = await throttleTool.execute({ preset: 'slow-3g', cpuRate: 4 }, mockContext);
+
+    expect(mockBrowserContext.newCDPSession).not.toHaveBeenCalled();
+    expect(mockBrowserContext.route).toHaveBeenCalledWith('**/*', expect.any(Function));
+    expect(mockBrowserContext.setOffline).toHaveBeenCalledWith(false);
+    expect(result.content.map(item => item.text)).toEqual([
+      'Applied throttling preset: slow-3g',
+      'Network: latency 2000ms (delayed through a route)',
+      'Throughput limits need Chromium and were not applied on firefox',
+      'CPU slowdown needs Chromium and was not applied on firefox'
+    ]);
+
+    await throttleTool.execute({ preset: 'none' }, mockContext);
+    expect(mockBrowserContext.unroute).toHaveBeenCalledWith('**/*', mockBrowserContext.route.mock.calls[0][1]);
+    expect(mockBrowserContext.route).toHaveBeenCalledTimes(1);
+  });
+
+  test('should throttle tabs opened later through their own CDP session', async () => {
+    const otherTab = createMockPage();
+    (mockBrowserContext.pages as jest.Mock).mockReturnValueOnce([mockContext.page, otherTab]);
+    await throttleTool.execute({ preset: 'slow-3g' }, mockContext);
+    expect(mockBrowserContext.newCDPSession).toHaveBeenCalledWith(otherTab);
+
+    const newTab = createMockPage();
+    await applyThrottle(newTab);
+
+    expect(mockBrowserContext.newCDPSession).toHaveBeenCalledTimes(3);
+    expect(mockBrowserContext.newCDPSession).toHaveBeenLastCalledWith(newTab);
+    expect(mockCdpSend).toHaveBeenLastCalledWith('Emulation.setCPUThrottlingRate', { rate: 1 });
+  });
+
+  test('should add the latency route again to a recreated context', async () => {
+    mockBrowserName = 'firefox';
+    await throttleTool.execute({ latency: 300 }, mockContext);
+    const recreatedContext = { ...mockBrowserContext, route: jest.fn().mockImplementation(() => Promise.resolve()) };
+    const recreatedPage = { ...createMockPage(), context: () => recreatedContext } as unknown as Page;
+
+    await applyThrottle(recreatedPage);
+    await applyThrottle(recreatedPage);
+
+    expect(recreatedContext.route).toHaveBeenCalledTimes(1);
+    expect(recreatedContext.route).toHaveBeenCalledWith('**/*', expect.any(Function));
+    // The previous context is gone, so its route is not removed
+    expect(mockBrowserContext.unroute).not.toHaveBeenCalled();
+  });
+
+  test('should restore the latency route after the routes of the context were removed', async () => {
+    mockBrowserName = 'firefox';
+    await throttleTool.execute({ latency: 300 }, mockContext);
+    const handler = mockBrowserContext.route.mock.calls[0][1];
+
+    await restoreLatencyRoute(mockBrowserContext as any);
+    await restoreLatencyRoute({ ...mockBrowserContext } as any);
+
+    expect(mockBrowserContext.route).toHaveBeenCalledTimes(2);
+    expect(mockBrowserContext.route).toHaveBeenLastCalledWith('**/*', handler);
+  });
+
+  test('should leave pages of unthrottled sessions alone', async () => {
+    await applyThrottle(createMockPage());
+
+    expect(mockBrowserContext.newCDPSession).not.toHaveBeenCalled();
+  });
+
+  test('should require a preset or custom values', async () => {
+    const result = await throttleTool.execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('At least one of preset');
+  });
+});
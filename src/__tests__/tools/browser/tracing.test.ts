@@ -0,0 +1,115 @@
+import { StartTracingTool, StopTracingTool, getSavedTraces, resumeTracing, stopAllTracing, clearTracing } from '../../../tools/browser/tracing.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser, BrowserContext } from 'playwright';
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Mock a browser context with its tracing API
+function createMockBrowserContext() {
+  return {
+    tracing: {
+      start: jest.fn().mockImplementation(() => Promise.resolve()),
+      stop: jest.fn().mockImplementation(() => Promise.resolve())
+    }
+  };
+}
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+describe('Tracing Tools', () => {
+  let tempDir: string;
+  let mockBrowserContext: ReturnType<typeof createMockBrowserContext>;
+  let mockContext: ToolContext;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    clearTracing();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-tracing-'));
+    mockBrowserContext = createMockBrowserContext();
+    mockContext = {
+      page: {
+        isClosed: jest.fn().mockReturnValue(false),
+        context: jest.fn(() => mockBrowserContext)
+      } as unknown as Page,
+      browser: mockBrowser,
+      server: mockServer,
+      sessionId: 'checkout'
+    } as ToolContext;
+    // Turn off tracing new sessions left on by a previous test
+    await new StopTracingTool(mockServer).execute({ stopAutoStart: true }, mockContext);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should record a trace and save it to the requested path', async () => {
+    const tracePath = path.join(tempDir, 'runs', 'checkout.zip');
+
+    const started = await new StartTracingTool(mockServer).execute({ path: tracePath, title: 'Checkout', sources: false }, mockContext);
+    expect(mockBrowserContext.tracing.start).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Checkout', screenshots: true, snapshots: true, sources: false
+    }));
+    expect(started.content.map(item => item.text)).toEqual([
+      "Started tracing session 'checkout'",
+      'Recording: screenshots, snapshots',
+      `Trace will be saved to: ${tracePath}`
+    ]);
+
+    const stopped = await new StopTracingTool(mockServer).execute({}, mockContext);
+    expect(fs.existsSync(path.dirname(tracePath))).toBe(true);
+    expect(mockBrowserContext.tracing.stop).toHaveBeenCalledWith({ path: tracePath });
+    expect(stopped.isError).toBe(false);
+    expect(stopped.content[0].text).toBe(`Saved trace to: ${tracePath}`);
+    expect(stopped.content[2].text).toContain('npx playwright show-trace');
+    expect(getSavedTraces().map(trace => trace.path)).toContain(tracePath);
+  });
+
+  test('should reject starting a second trace and stopping without one', async () => {
+    const tool = new StartTracingTool(mockServer);
+    await tool.execute({ path: path.join(tempDir, 'trace.zip') }, mockContext);
+
+    const second = await tool.execute({}, mockContext);
+    expect(second.isError).toBe(true);
+    expect(second.content[0].text).toContain("Session 'checkout' is already tracing");
+
+    await new StopTracingTool(mockServer).execute({}, mockContext);
+    const stopped = await new StopTracingTool(mockServer).execute({}, mockContext);
+    expect(stopped.isError).toBe(true);
+    expect(stopped.content[0].text).toContain("Session 'checkout' is not tracing");
+  });
+
+  test('should start tracing new sessions when auto start is on', async () => {
+    await new StartTracingTool(mockServer).execute({ path: path.join(tempDir, 'first.zip'), autoStart: true, snapshots: false }, mockContext);
+
+    const newContext = createMockBrowserContext();
+    await resumeTracing('admin', newContext as unknown as BrowserContext);
+    expect(newContext.tracing.start).toHaveBeenCalledWith(expect.objectContaining({ snapshots: false }));
+
+    const adminContext = { ...mockContext, sessionId: 'admin' } as ToolContext;
+    const stopped = await new StopTracingTool(mockServer).execute({ path: path.join(tempDir, 'admin.zip'), stopAutoStart: true }, adminContext);
+    expect(newContext.tracing.stop).toHaveBeenCalledWith({ path: path.join(tempDir, 'admin.zip') });
+    expect(stopped.content.map(item => item.text)).toContain('New sessions will no longer start tracing');
+
+    const saved = await stopAllTracing();
+    expect(saved.map(trace => trace.sessionId)).toEqual(['checkout']);
+  });
+
+  test('should not start tracing new sessions by default', async () => {
+    const newContext = createMockBrowserContext();
+
+    await resumeTracing('admin', newContext as unknown as BrowserContext);
+
+    expect(newContext.tracing.start).not.toHaveBeenCalled();
+  });
+});
@@ -43,7 +43,7 @@ describe('VisibleTextTool', () => {
     // Reset mocks
     mockIsConnected.mockReturnValue(true);
     mockIsClosed.mockReturnValue(false);
-    mockEvaluate.mockImplementation(() => Promise.resolve('Sample visible text content'));
+    mockEvaluate.mockImplementation(() => Promise.resolve({ text: 'Sample visible text content', shadowHosts: [], iframes: [] }));
   });
 
   test('should retrieve visible text content', async () => {
@@ -57,6 +57,32 @@ describe('VisibleTextTool', () => {
     expect(result.content[0].text).toContain('Sample visible text content');
   });
 
+  test('should report expanded shadow roots and iframes', async () => {
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve({
+      text: 'Inside component\n[iframe https://example.com/help]\nHelp\n[/iframe]',
+      shadowHosts: ['my-app', 'user-card', 'user-card'],
+      iframes: [
+        { src: 'https://example.com/help', inlined: true },
+        { src: 'https://ads.example.net/', inlined: false }
+      ]
+    }));
+
+    const result = await visibleTextTool.execute({}, mockContext);
+
+    expect(mockEvaluate).toHaveBeenCalledWith(expect.any(Function), { includeShadowDom: true, includeIframes: true });
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('[iframe https://example.com/help]');
+    expect(result.content[1].text).toBe('Expanded 3 shadow root(s): my-app, user-card (x2)');
+    expect(result.content[2].text).toBe('Inlined 1 same-origin iframe(s): https://example.com/help');
+    expect(result.content[3].text).toBe('Skipped 1 cross-origin iframe(s): https://ads.example.net/');
+  });
+
+  test('should pass shadow DOM and iframe options', async () => {
+    await visibleTextTool.execute({ includeShadowDom: false, includeIframes: false }, mockContext);
+
+    expect(mockEvaluate).toHaveBeenCalledWith(expect.any(Function), { includeShadowDom: false, includeIframes: false });
+  });
+
   test('should handle missing page', async () => {
     const args = {};
 
@@ -124,6 +150,8 @@ describe('VisibleHtmlTool', () => {
     mockIsConnected.mockReturnValue(true);
     mockIsClosed.mockReturnValue(false);
     mockContent.mockImplementation(() => Promise.resolve('<html><body>Sample HTML content</body></html>'));
+    // Nothing to expand, so the HTML comes from page.content()
+    mockEvaluate.mockImplementation(() => Promise.resolve({ html: null, shadowHosts: [], iframes: [] }));
   });
 
   test('should retrieve HTML content', async () => {
@@ -148,6 +176,7 @@ describe('VisibleHtmlTool', () => {
     };
 
     // Mock the page.evaluate to capture the filter arguments
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve({ html: null, shadowHosts: [], iframes: [] }));
     mockEvaluate.mockImplementationOnce((callback, params) => {
       expect(params).toEqual({
         html: '<html><body>Sample HTML content</body></html>',
@@ -180,6 +209,7 @@ describe('VisibleHtmlTool', () => {
       Promise.resolve('<html><body>Sample HTML content</body></html>')
     );
 
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve({ html: null, shadowHosts: [], iframes: [] }));
     mockEvaluate.mockImplementationOnce((callback, params: any) => {
       expect(params).toEqual({
         html: '<html><body>Sample HTML content</body></html>',
@@ -220,6 +250,26 @@ describe('VisibleHtmlTool', () => {
     expect(result.content[0].text).toContain('Processed selected content');
   });
 
+  test('should use the expanded HTML when shadow roots were found', async () => {
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve({
+      html: '<!DOCTYPE html><html><body><my-app><template shadowrootmode="open"><p>Inside</p></template></my-app></body></html>',
+      shadowHosts: ['my-app'],
+      iframes: []
+    }));
+
+    const result = await visibleHtmlTool.execute({ removeScripts: false, declarativeShadowDom: true }, mockContext);
+
+    expect(mockEvaluate).toHaveBeenCalledWith(expect.any(Function), {
+      selector: undefined,
+      includeShadowDom: true,
+      includeIframes: true,
+      declarative: true
+    });
+    expect(mockContent).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain('<template shadowrootmode="open"><p>Inside</p></template>');
+    expect(result.content[1].text).toBe('Expanded 1 shadow root(s): my-app');
+  });
+
   test('should handle empty HTML content', async () => {
     const args = {
       removeScripts: true
@@ -228,6 +278,7 @@ describe('VisibleHtmlTool', () => {
     // Mock content to return empty HTML
     mockContent.mockImplementationOnce(() => Promise.resolve(''));
 
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve({ html: null, shadowHosts: [], iframes: [] }));
     mockEvaluate.mockImplementationOnce((callback, params: any) => {
       expect(params.html).toBe('');
       return Promise.resolve('');
@@ -243,6 +294,7 @@ describe('VisibleHtmlTool', () => {
       cleanHtml: true
     };
 
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve({ html: null, shadowHosts: [], iframes: [] }));
     mockEvaluate.mockImplementationOnce((callback, params) => {
       expect(params).toEqual({
         html: '<html><body>Sample HTML content</body></html>',
@@ -0,0 +1,130 @@
+import { WaitForTool } from '../../../tools/browser/wait.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Mock locator
+const mockWaitFor = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocator = jest.fn().mockReturnValue({
+  waitFor: mockWaitFor,
+  first() { return this; }
+});
+const mockGetByRole = jest.fn().mockReturnValue({
+  waitFor: mockWaitFor
+});
+
+// Mock page functions
+const mockWaitForLoadState = jest.fn().mockImplementation(() => Promise.resolve());
+const mockWaitForURL = jest.fn().mockImplementation(() => Promise.resolve());
+const mockWaitForFunction = jest.fn().mockImplementation(() => Promise.resolve());
+const mockWaitForTimeout = jest.fn().mockImplementation(() => Promise.resolve());
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  locator: mockLocator,
+  getByRole: mockGetByRole,
+  waitForLoadState: mockWaitForLoadState,
+  waitForURL: mockWaitForURL,
+  waitForFunction: mockWaitForFunction,
+  waitForTimeout: mockWaitForTimeout
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Wait For Tool', () => {
+  let waitForTool: WaitForTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    waitForTool = new WaitForTool(mockServer);
+  });
+
+  test('should wait for an element state', async () => {
+    const result = await waitForTool.execute({ selector: '.spinner', state: 'hidden' }, mockContext);
+
+    expect(mockLocator).toHaveBeenCalledWith('.spinner');
+    expect(mockWaitFor).toHaveBeenCalledWith({ state: 'hidden', timeout: 30000 });
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('for .spinner to be hidden');
+  });
+
+  test('should wait for a locator to be visible by default', async () => {
+    const result = await waitForTool.execute({ locator: { role: 'dialog' }, timeout: 5000 }, mockContext);
+
+    expect(mockGetByRole).toHaveBeenCalledWith('dialog', {});
+    expect(mockWaitFor).toHaveBeenCalledWith({ state: 'visible', timeout: 5000 });
+    expect(result.isError).toBe(false);
+  });
+
+  test('should wait for load state, URL and function', async () => {
+    await waitForTool.execute({ loadState: 'networkidle' }, mockContext);
+    await waitForTool.execute({ url: '**/dashboard' }, mockContext);
+    await waitForTool.execute({ url: '/orders/\\d+$', regex: true }, mockContext);
+    await waitForTool.execute({ function: '() => window.appReady', polling: 100 }, mockContext);
+
+    expect(mockWaitForLoadState).toHaveBeenCalledWith('networkidle', { timeout: 30000 });
+    expect(mockWaitForURL).toHaveBeenCalledWith('**/dashboard', { timeout: 30000 });
+    expect(mockWaitForURL).toHaveBeenCalledWith(/\/orders\/\d+$/, { timeout: 30000 });
+    expect(mockWaitForFunction).toHaveBeenCalledWith('() => window.appReady', undefined, { timeout: 30000, polling: 100 });
+  });
+
+  test('should reject a frame for load state, URL and function waits', async () => {
+    const results = [
+      await waitForTool.execute({ loadState: 'load', frame: '#checkout' }, mockContext),
+      await waitForTool.execute({ url: '**/done', frame: '#checkout' }, mockContext),
+      await waitForTool.execute({ function: '() => true', frame: { name: 'card' } }, mockContext)
+    ];
+
+    for (const result of results) {
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('frame only applies to element waits; loadState, url and function wait on the page');
+    }
+    expect(mockWaitForLoadState).not.toHaveBeenCalled();
+    expect(mockWaitForURL).not.toHaveBeenCalled();
+    expect(mockWaitForFunction).not.toHaveBeenCalled();
+  });
+
+  test('should wait a fixed time', async () => {
+    const result = await waitForTool.execute({ time: 500 }, mockContext);
+
+    expect(mockWaitForTimeout).toHaveBeenCalledWith(500);
+    expect(result.content[0].text).toBe('Waited 500ms');
+  });
+
+  test('should report timeouts clearly', async () => {
+    const timeoutError = new Error('Timeout 1000ms exceeded.');
+    timeoutError.name = 'TimeoutError';
+    mockWaitForURL.mockImplementationOnce(() => Promise.reject(timeoutError));
+
+    const result = await waitForTool.execute({ url: '**/done', timeout: 1000 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Timed out after 1000ms waiting for URL to match **/done');
+  });
+
+  test('should require exactly one condition', async () => {
+    const none = await waitForTool.execute({}, mockContext);
+    const several = await waitForTool.execute({ selector: '#a', loadState: 'load' }, mockContext);
+    const invalidState = await waitForTool.execute({ selector: '#a', state: 'gone' }, mockContext);
+
+    expect(none.isError).toBe(true);
+    expect(several.content[0].text).toContain('Exactly one of');
+    expect(invalidState.content[0].text).toContain('Invalid state: gone');
+  });
+});
@@ -0,0 +1,96 @@
+import { GetStorageTool, SetStorageTool } from '../../../tools/browser/webStorage.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Mock evaluate function
+const mockEvaluate = jest.fn();
+
+// Mock the Page object with proper typing
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  evaluate: mockEvaluate
+} as unknown as Page;
+
+// Mock the browser
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+// Mock the server
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+// Mock context
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Web Storage Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should read localStorage by default', async () => {
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve({
+      origin: 'https://example.com',
+      entries: { token: 'xyz', 'feature:beta': 'true' }
+    }));
+
+    const result = await new GetStorageTool(mockServer).execute({}, mockContext);
+
+    expect(mockEvaluate).toHaveBeenCalledWith(expect.any(Function), { type: 'local', key: undefined });
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('Retrieved 2 localStorage item(s) for https://example.com');
+    expect(JSON.parse(result.content[1].text as string)).toEqual({ token: 'xyz', 'feature:beta': 'true' });
+  });
+
+  test('should read sessionStorage with a key filter', async () => {
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve({ origin: 'https://example.com', entries: {} }));
+
+    await new GetStorageTool(mockServer).execute({ type: 'session', key: 'feature' }, mockContext);
+
+    expect(mockEvaluate).toHaveBeenCalledWith(expect.any(Function), { type: 'session', key: 'feature' });
+  });
+
+  test('should reject an unknown storage type', async () => {
+    const result = await new GetStorageTool(mockServer).execute({ type: 'indexeddb' }, mockContext);
+
+    expect(mockEvaluate).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+  });
+
+  test('should set, remove and clear storage items', async () => {
+    mockEvaluate.mockImplementationOnce(() => Promise.resolve('https://example.com'));
+
+    const result = await new SetStorageTool(mockServer).execute({
+      items: { token: 'abc', flags: { beta: true } },
+      remove: ['legacy'],
+      clear: true
+    }, mockContext);
+
+    expect(mockEvaluate).toHaveBeenCalledWith(expect.any(Function), {
+      type: 'local',
+      items: { token: 'abc', flags: '{"beta":true}' },
+      remove: ['legacy'],
+      clear: true
+    });
+    expect(result.isError).toBe(false);
+    expect(result.content.map(c => c.text)).toEqual([
+      'Updated localStorage for https://example.com',
+      'Cleared all existing items',
+      'Removed: legacy',
+      'Set: token, flags'
+    ]);
+  });
+
+  test('should require something to do', async () => {
+    const result = await new SetStorageTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Nothing to do');
+  });
+});
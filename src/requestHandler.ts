@@ -6,31 +6,63 @@ import {
   CallToolRequestSchema,
   Tool
 } from "@modelcontextprotocol/sdk/types.js";
-import { handleToolCall, getConsoleLogs, getScreenshots } from "./toolHandler.js";
+import { handleToolCall, getConsoleLogs, getScreenshots, listSessions } from "./toolHandler.js";
+import { DEFAULT_SESSION_ID } from "./tools/common/types.js";
+import { getNetworkLog, formatNetworkEntry } from "./tools/browser/network.js";
 
 export function setupRequestHandlers(server: Server, tools: Tool[]) {
   // List resources handler
-  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-    resources: [
-      {
-        uri: "console://logs",
-        mimeType: "text/plain",
-        name: "Browser console logs",
-      },
-      ...Array.from(getScreenshots().keys()).map(name => ({
-        uri: `screenshot://${name}`,
-        mimeType: "image/png",
-        name: `Screenshot: ${name}`,
-      })),
-    ],
-  }));
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    // The default session keeps the original URIs, other sessions are prefixed with their ID
+    const namedSessions = listSessions()
+      .map(session => session.id)
+      .filter(sessionId => sessionId !== DEFAULT_SESSION_ID);
+
+    return {
+      resources: [
+        {
+          uri: "console://logs",
+          mimeType: "text/plain",
+          name: "Browser console logs",
+        },
+        ...namedSessions.map(sessionId => ({
+          uri: `console://logs/${sessionId}`,
+          mimeType: "text/plain",
+          name: `Browser console logs: ${sessionId}`,
+        })),
+        {
+          uri: "network://log",
+          mimeType: "text/plain",
+          name: "Browser network log",
+        },
+        ...namedSessions.map(sessionId => ({
+          uri: `network://log/${sessionId}`,
+          mimeType: "text/plain",
+          name: `Browser network log: ${sessionId}`,
+        })),
+        ...Array.from(getScreenshots().keys()).map(name => ({
+          uri: `screenshot://${name}`,
+          mimeType: "image/png",
+          name: `Screenshot: ${name}`,
+        })),
+        ...namedSessions.flatMap(sessionId =>
+          Array.from(getScreenshots(sessionId).keys()).map(name => ({
+            uri: `screenshot://${sessionId}/${name}`,
+            mimeType: "image/png",
+            name: `Screenshot: ${name} (${sessionId})`,
+          }))
+        ),
+      ],
+    };
+  });
 
   // Read resource handler
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     const uri = request.params.uri.toString();
 
-    if (uri === "console://logs") {
-      const logs = getConsoleLogs().join("\n");
+    if (uri === "console://logs" || uri.startsWith("console://logs/")) {
+      const sessionId = uri.slice("console://logs/".length) || DEFAULT_SESSION_ID;
+      const logs = getConsoleLogs(sessionId).join("\n");
       return {
         contents: [{
           uri,
@@ -40,9 +72,25 @@ export function setupRequestHandlers(server: Server, tools: Tool[]) {
       };
     }
 
+    if (uri === "network://log" || uri.startsWith("network://log/")) {
+      const sessionId = uri.slice("network://log/".length) || DEFAULT_SESSION_ID;
+      const log = getNetworkLog(sessionId).map(formatNetworkEntry).join("\n");
+      return {
+        contents: [{
+          uri,
+          mimeType: "text/plain",
+          text: log,
+        }],
+      };
+    }
+
     if (uri.startsWith("screenshot://")) {
       const name = uri.split("://")[1];
-      const screenshot = getScreenshots().get(name);
+      let screenshot = getScreenshots().get(name);
+      if (!screenshot && name.includes("/")) {
+        const separator = name.indexOf("/");
+        screenshot = getScreenshots(name.slice(0, separator)).get(name.slice(separator + 1));
+      }
       if (screenshot) {
         return {
           contents: [{
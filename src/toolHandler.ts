@@ -1,8 +1,10 @@
-import type { Browser, Page } from 'playwright';
+import type { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
 import { chromium, firefox, webkit, request } from 'playwright';
+import * as path from 'node:path';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { BROWSER_TOOLS, API_TOOLS } from './tools.js';
 import type { ToolContext } from './tools/common/types.js';
+import { DEFAULT_SESSION_ID, createErrorResponse } from './tools/common/types.js';
 import { ActionRecorder } from './tools/codegen/recorder.js';
 import { 
   startCodegenSession,
@@ -19,8 +21,12 @@ import {
   AssertResponseTool,
   CustomUserAgentTool
 } from './tools/browser/index.js';
+import { clearResponsePromises } from './tools/browser/response.js';
 import {
   ClickTool,
+  DoubleClickTool,
+  CheckTool,
+  UncheckTool,
   IframeClickTool,
   FillTool,
   SelectTool,
@@ -44,36 +50,225 @@ import { GoBackTool, GoForwardTool } from './tools/browser/navigation.js';
 import { DragTool, PressKeyTool } from './tools/browser/interaction.js';
 import { SaveAsPdfTool } from './tools/browser/output.js';
 import { ClickAndSwitchTabTool } from './tools/browser/interaction.js';
+import { ListTabsTool, NewTabTool, SwitchTabTool, CloseTabTool } from './tools/browser/tabs.js';
+import { CreateSessionTool, ListSessionsTool, DestroySessionTool } from './tools/browser/sessions.js';
+import { SaveStorageStateTool, LoadStorageStateTool, readStorageStateFile } from './tools/browser/storageState.js';
+import { GetCookiesTool, SetCookiesTool, ClearCookiesTool } from './tools/browser/cookies.js';
+import { GetStorageTool, SetStorageTool } from './tools/browser/webStorage.js';
+import { NetworkLogTool, ExportHarTool, registerNetworkListeners, clearNetworkLog } from './tools/browser/network.js';
+import { RouteTool, UnrouteTool, ListRoutesTool, RouteFromHarTool, applyRoutes, clearRoutes, getHarRecording } from './tools/browser/routes.js';
+import { SnapshotTool, clearSnapshotRefs, getRefTarget } from './tools/browser/snapshot.js';
+import { ExpectTool } from './tools/browser/assertions.js';
+import { WaitForTool } from './tools/browser/wait.js';
+import { TypeTool, KeyboardTool, SelectTextTool } from './tools/browser/keyboard.js';
+import { MouseTool, TouchTool } from './tools/browser/mouse.js';
+import { ScrollTool, ScrollUntilTool } from './tools/browser/scroll.js';
+import { DialogPolicyTool, HandleDialogTool, DialogLogTool, registerDialogListener, clearDialogs } from './tools/browser/dialogs.js';
+import { ClickAndDownloadTool, ListDownloadsTool, registerDownloadListener, clearDownloads, setDownloadsDir } from './tools/browser/downloads.js';
+import { ListFramesTool } from './tools/browser/frames.js';
+import { ListDevicesTool, buildEmulationOptions, emulationMatches, pickEmulationSettings, EmulationSettings, DEFAULT_SCREEN, ScreenOptions } from './tools/browser/devices.js';
+import { SetViewportTool, EmulateMediaTool, SetGeolocationTool, GrantPermissionsTool, SetOfflineTool, SetExtraHeadersTool } from './tools/browser/emulation.js';
+import { ThrottleTool, applyThrottle, clearThrottles } from './tools/browser/throttle.js';
+import { PerformanceMetricsTool } from './tools/browser/performance.js';
+import { StartTracingTool, StopTracingTool, resumeTracing, stopTracing, stopAllTracing, clearTracing } from './tools/browser/tracing.js';
 
 // Global state
 let browser: Browser | undefined;
-let page: Page | undefined;
 let currentBrowserType: 'chromium' | 'firefox' | 'webkit' = 'chromium';
 
+/**
+ * An isolated browser context with its own pages, cookies and storage
+ */
+export interface BrowserSession {
+  id: string;
+  context: BrowserContext;
+  // Options the current context was created with, reused when it is recreated
+  contextOptions: BrowserContextOptions;
+  // Resolved path of the storage state file the session was started from. The context options may hold
+  // a snapshot of the state instead, when cookies and storage carried over to a recreated context.
+  storageStateSource?: string;
+  // The active page of the session
+  page?: Page;
+  // Every page in the context keyed by a stable tab ID
+  tabs: Map<string, Page>;
+  tabCounter: number;
+  createdAt: number;
+}
+
+// Session registry: every browser context keyed by its session ID
+const sessions = new Map<string, BrowserSession>();
+
+/**
+ * Drops every session along with its logs, network log, routes, refs, dialogs, downloads, throttling,
+ * traces and pending responses, so a session created later with the same ID starts clean
+ */
+function clearAllSessions(): void {
+  sessions.clear();
+  consoleLogsTool?.clearConsoleLogs();
+  clearResponsePromises();
+  clearNetworkLog();
+  clearRoutes();
+  clearSnapshotRefs();
+  clearDialogs();
+  clearThrottles();
+  clearDownloads();
+  clearTracing();
+}
+
 /**
  * Resets browser and page variables
  * Used when browser is closed
  */
 export function resetBrowserState() {
   browser = undefined;
-  page = undefined;
+  clearAllSessions();
   currentBrowserType = 'chromium';
 }
+
 /**
- * Sets the provided page to the global page variable
- * @param newPage The Page object to set as the global page
+ * Gets a session by its ID
+ * @param sessionId The session ID (defaults to the default session)
  */
-export function setGlobalPage(newPage: Page): void {
-  page = newPage;
-  page.bringToFront();// Bring the new tab to the front
+export function getSession(sessionId: string = DEFAULT_SESSION_ID): BrowserSession | undefined {
+  return sessions.get(sessionId);
+}
+
+/**
+ * Lists all sessions in the order they were created
+ */
+export function listSessions(): BrowserSession[] {
+  return Array.from(sessions.values());
+}
+
+/**
+ * Finds the session a page belongs to
+ */
+function findSessionForPage(targetPage: Page): BrowserSession | undefined {
+  for (const session of sessions.values()) {
+    for (const tabPage of session.tabs.values()) {
+      if (tabPage === targetPage) {
+        return session;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Sets the provided page as the active page of its session
+ * @param newPage The Page object to set as the active page
+ * @param sessionId The session the page belongs to (looked up from the page if omitted)
+ */
+export function setGlobalPage(newPage: Page, sessionId?: string): void {
+  const session = sessionId
+    ? sessions.get(sessionId)
+    : findSessionForPage(newPage) ?? sessions.get(DEFAULT_SESSION_ID);
+  if (session) {
+    session.page = newPage;
+  }
+  newPage.bringToFront();// Bring the new tab to the front
   console.log("Global page has been updated.");
 }
+
+/**
+ * Starts tracking a page as a tab of a session, registers its console and network listeners and applies the session's throttling.
+ * Calling it again for an already tracked page is a no-op.
+ * @param newPage The page to track
+ * @param sessionId The session the page belongs to
+ * @returns The stable tab ID assigned to the page
+ */
+export async function trackPage(newPage: Page, sessionId: string = DEFAULT_SESSION_ID): Promise<string> {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+
+  for (const [tabId, trackedPage] of session.tabs) {
+    if (trackedPage === newPage) {
+      return tabId;
+    }
+  }
+
+  const tabId = `tab-${++session.tabCounter}`;
+  session.tabs.set(tabId, newPage);
+
+  newPage.on('close', () => {
+    session.tabs.delete(tabId);
+    // Fall back to the most recently opened tab when the active one goes away
+    if (session.page === newPage) {
+      session.page = Array.from(session.tabs.values()).pop();
+    }
+  });
+
+  registerNetworkListeners(newPage, sessionId);
+  registerDialogListener(newPage, sessionId);
+  registerDownloadListener(newPage, sessionId);
+  await registerConsoleMessage(newPage, sessionId);
+  await applyThrottle(newPage, sessionId);
+  return tabId;
+}
+
+/**
+ * Lists all tracked tabs of a session in the order they were opened
+ * @param sessionId The session ID (defaults to the default session)
+ */
+export function listTabs(sessionId: string = DEFAULT_SESSION_ID): { id: string; page: Page; active: boolean }[] {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return [];
+  }
+  return Array.from(session.tabs.entries()).map(([id, tabPage]) => ({
+    id,
+    page: tabPage,
+    active: tabPage === session.page,
+  }));
+}
+
+/**
+ * Closes a session's browser context and drops its logs, screenshots, network log, routes, refs, dialogs, downloads, throttling and pending responses.
+ * A trace being recorded is saved before the context closes.
+ * @param sessionId The session to destroy
+ * @returns Whether a session with that ID existed
+ */
+export async function destroySession(sessionId: string): Promise<boolean> {
+  const session = sessions.get(sessionId);
+  sessions.delete(sessionId);
+  consoleLogsTool?.clearConsoleLogs(sessionId);
+  screenshotTool?.clearScreenshots(sessionId);
+  clearResponsePromises(sessionId);
+  clearNetworkLog(sessionId);
+  clearRoutes(sessionId);
+  clearSnapshotRefs(sessionId);
+  clearDialogs(sessionId);
+  clearThrottles(sessionId);
+  clearDownloads(sessionId);
+
+  if (!session) {
+    return false;
+  }
+
+  try {
+    await stopTracing(sessionId);
+  } catch (error) {
+    console.error(`Error saving trace of session ${sessionId}:`, error);
+  }
+  try {
+    await session.context.close();
+  } catch (error) {
+    console.error(`Error closing context of session ${sessionId}:`, error);
+  }
+  return true;
+}
+
 // Tool instances
 let screenshotTool: ScreenshotTool;
 let navigationTool: NavigationTool;
 let closeBrowserTool: CloseBrowserTool;
 let consoleLogsTool: ConsoleLogsTool;
 let clickTool: ClickTool;
+let doubleClickTool: DoubleClickTool;
+let checkTool: CheckTool;
+let uncheckTool: UncheckTool;
 let iframeClickTool: IframeClickTool;
 let iframeFillTool: IframeFillTool;
 let fillTool: FillTool;
@@ -100,9 +295,57 @@ let dragTool: DragTool;
 let pressKeyTool: PressKeyTool;
 let saveAsPdfTool: SaveAsPdfTool;
 let clickAndSwitchTabTool: ClickAndSwitchTabTool;
+let listTabsTool: ListTabsTool;
+let newTabTool: NewTabTool;
+let switchTabTool: SwitchTabTool;
+let closeTabTool: CloseTabTool;
+let createSessionTool: CreateSessionTool;
+let listSessionsTool: ListSessionsTool;
+let destroySessionTool: DestroySessionTool;
+let saveStorageStateTool: SaveStorageStateTool;
+let loadStorageStateTool: LoadStorageStateTool;
+let getCookiesTool: GetCookiesTool;
+let setCookiesTool: SetCookiesTool;
+let clearCookiesTool: ClearCookiesTool;
+let getStorageTool: GetStorageTool;
+let setStorageTool: SetStorageTool;
+let networkLogTool: NetworkLogTool;
+let exportHarTool: ExportHarTool;
+let routeTool: RouteTool;
+let unrouteTool: UnrouteTool;
+let listRoutesTool: ListRoutesTool;
+let routeFromHarTool: RouteFromHarTool;
+let snapshotTool: SnapshotTool;
+let expectTool: ExpectTool;
+let waitForTool: WaitForTool;
+let typeTool: TypeTool;
+let keyboardTool: KeyboardTool;
+let selectTextTool: SelectTextTool;
+let mouseTool: MouseTool;
+let touchTool: TouchTool;
+let scrollTool: ScrollTool;
+let scrollUntilTool: ScrollUntilTool;
+let dialogPolicyTool: DialogPolicyTool;
+let handleDialogTool: HandleDialogTool;
+let dialogLogTool: DialogLogTool;
+let clickAndDownloadTool: ClickAndDownloadTool;
+let listDownloadsTool: ListDownloadsTool;
+let listFramesTool: ListFramesTool;
+let listDevicesTool: ListDevicesTool;
+let setViewportTool: SetViewportTool;
+let emulateMediaTool: EmulateMediaTool;
+let setGeolocationTool: SetGeolocationTool;
+let grantPermissionsTool: GrantPermissionsTool;
+let setOfflineTool: SetOfflineTool;
+let setExtraHeadersTool: SetExtraHeadersTool;
+let throttleTool: ThrottleTool;
+let performanceMetricsTool: PerformanceMetricsTool;
+let startTracingTool: StartTracingTool;
+let stopTracingTool: StopTracingTool;
 
 
-interface BrowserSettings {
+export interface BrowserSettings {
+  sessionId?: string;
   viewport?: {
     width?: number;
     height?: number;
@@ -110,9 +353,15 @@ interface BrowserSettings {
   userAgent?: string;
   headless?: boolean;
   browserType?: 'chromium' | 'firefox' | 'webkit';
+  // Path to a storage state file (cookies and localStorage) to start the session from
+  storageState?: string;
+  // Directory downloads of the session are saved to
+  downloadsDir?: string;
+  // Device profile and emulation options of the session's context
+  emulation?: EmulationSettings;
 }
 
-async function registerConsoleMessage(page) {
+async function registerConsoleMessage(page, sessionId: string = DEFAULT_SESSION_ID) {
   page.on("console", (msg) => {
     if (consoleLogsTool) {
       const type = msg.type();
@@ -121,9 +370,9 @@ async function registerConsoleMessage(page) {
       // "Unhandled Rejection In Promise" we injected
       if (text.startsWith("[Playwright]")) {
         const payload = text.replace("[Playwright]", "");
-        consoleLogsTool.registerConsoleMessage("exception", payload);
+        consoleLogsTool.registerConsoleMessage("exception", payload, sessionId);
       } else {
-        consoleLogsTool.registerConsoleMessage(type, text);
+        consoleLogsTool.registerConsoleMessage(type, text, sessionId);
       }
     }
   });
@@ -133,7 +382,7 @@ async function registerConsoleMessage(page) {
     if (consoleLogsTool) {
       const message = error.message;
       const stack = error.stack || "";
-      consoleLogsTool.registerConsoleMessage("exception", `${message}\n${stack}`);
+      consoleLogsTool.registerConsoleMessage("exception", `${message}\n${stack}`, sessionId);
     }
   });
 
@@ -153,7 +402,205 @@ async function registerConsoleMessage(page) {
 }
 
 /**
- * Ensures a browser is launched and returns the page
+ * Opens a browser context for a session and registers it
+ */
+async function openSessionContext(sessionId: string, contextOptions: BrowserContextOptions): Promise<BrowserSession> {
+  console.error(`Creating browser context for session '${sessionId}'...`);
+  const context = await browser!.newContext(contextOptions);
+
+  const session: BrowserSession = {
+    id: sessionId,
+    context,
+    contextOptions,
+    storageStateSource: typeof contextOptions.storageState === 'string' ? path.resolve(contextOptions.storageState) : undefined,
+    tabs: new Map(),
+    tabCounter: 0,
+    createdAt: Date.now(),
+  };
+  sessions.set(sessionId, session);
+  watchContextPages(session);
+  await resumeTracing(sessionId, context);
+  return session;
+}
+
+/**
+ * Tracks every page opened in a session's context (popups, target=_blank links, new tabs)
+ */
+function watchContextPages(session: BrowserSession): void {
+  session.context.on('page', (newPage) => {
+    trackPage(newPage, session.id).catch(err => console.error("Error tracking new page:", err));
+  });
+}
+
+/**
+ * Replaces a session's browser context with a new one built from its previous options
+ * merged with the given overrides. Open tabs are closed and the new context starts with one page.
+ * @param sessionId The session whose context should be recreated
+ * @param overrides Context options to change (e.g. storageState, userAgent)
+ * @returns The active page of the new context
+ */
+export async function recreateSessionContext(
+  sessionId: string,
+  overrides: BrowserContextOptions
+): Promise<Page> {
+  const session = sessions.get(sessionId);
+  if (!session || !browser) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+  assertNotRecordingHar(sessionId);
+
+  const contextOptions = { ...session.contextOptions, ...overrides };
+  const newContext = await browser.newContext(contextOptions);
+  await applyRoutes(sessionId, newContext);
+
+  // A trace is saved before its context closes and continues in a new file
+  let previousTrace: Awaited<ReturnType<typeof stopTracing>>;
+  try {
+    previousTrace = await stopTracing(sessionId);
+  } catch (error) {
+    console.error(`Error saving trace of session ${sessionId}:`, error);
+  }
+  await resumeTracing(sessionId, newContext, previousTrace?.options);
+
+  try {
+    await session.context.close();
+  } catch (error) {
+    console.error(`Error closing previous context of session ${sessionId}:`, error);
+  }
+
+  // Tab IDs keep counting up so listeners of the old pages cannot clash with new tabs
+  session.context = newContext;
+  session.contextOptions = contextOptions;
+  if (typeof overrides.storageState === 'string') {
+    session.storageStateSource = path.resolve(overrides.storageState);
+  }
+  session.tabs = new Map();
+  session.page = undefined;
+  watchContextPages(session);
+
+  session.page = await newContext.newPage();
+  await trackPage(session.page, sessionId);
+  return session.page;
+}
+
+/**
+ * Merges options applied to a session's live context into the options it is recreated from
+ * @param sessionId The session whose context was changed
+ * @param options Context options now in effect (e.g. viewport, offline)
+ */
+export function updateSessionContextOptions(sessionId: string, options: BrowserContextOptions): void {
+  const session = sessions.get(sessionId);
+  if (session) {
+    session.contextOptions = { ...session.contextOptions, ...options };
+  }
+}
+
+/**
+ * Refuses to replace the context of a session that records a HAR, since the new context would overwrite the file
+ * @throws If the session is recording into a HAR file
+ */
+function assertNotRecordingHar(sessionId: string): void {
+  const recording = getHarRecording(sessionId);
+  if (recording) {
+    throw new Error(`Session '${sessionId}' is recording into ${recording.harPath}, which a new context would overwrite. Destroy the session to save the recording first`);
+  }
+}
+
+/**
+ * Gets the screen a session's context has now, e.g. after playwright_set_viewport.
+ * Emulation that names no device or viewport keeps it.
+ */
+function currentScreen(session: BrowserSession): ScreenOptions {
+  const { viewport, deviceScaleFactor } = session.contextOptions;
+  return {
+    viewport: viewport ?? DEFAULT_SCREEN.viewport,
+    deviceScaleFactor: deviceScaleFactor ?? DEFAULT_SCREEN.deviceScaleFactor,
+  };
+}
+
+/**
+ * Tells which browser settings require recreating a session's context.
+ * Storage state and emulation can only be applied when a context is created.
+ */
+function pendingContextChange(session: BrowserSession, browserSettings: BrowserSettings): 'storageState' | 'emulation' | undefined {
+  const { viewport, storageState, emulation } = browserSettings;
+  if (storageState && session.storageStateSource !== path.resolve(storageState)) {
+    return 'storageState';
+  }
+  if (emulation && !emulationMatches(session.contextOptions, buildEmulationOptions(viewport, emulation, currentScreen(session)))) {
+    return 'emulation';
+  }
+  return undefined;
+}
+
+/**
+ * Ensures a session exists in the running browser and returns its active page.
+ * Creates the session's browser context on first use.
+ */
+async function ensureSessionPage(browserSettings: BrowserSettings = {}): Promise<Page> {
+  const { sessionId = DEFAULT_SESSION_ID, viewport, userAgent, storageState, downloadsDir, emulation } = browserSettings;
+  if (downloadsDir) {
+    setDownloadsDir(sessionId, downloadsDir);
+  }
+
+  let session = sessions.get(sessionId);
+  const change = session && pendingContextChange(session, browserSettings);
+  if (!session) {
+    session = await openSessionContext(sessionId, {
+      ...buildEmulationOptions(viewport, emulation),
+      ...userAgent && { userAgent },
+      ...storageState && { storageState },
+    });
+  } else if (change === 'storageState') {
+    console.error(`Recreating context of session '${sessionId}' from storage state ${storageState}...`);
+    return await recreateSessionContext(sessionId, {
+      storageState,
+      ...emulation && buildEmulationOptions(viewport, emulation, currentScreen(session)),
+    });
+  } else if (change === 'emulation') {
+    // Cookies and storage carry over to the new context
+    console.error(`Recreating context of session '${sessionId}' to emulate ${emulation!.device ?? 'new device settings'}...`);
+    return await recreateSessionContext(sessionId, {
+      ...buildEmulationOptions(viewport, emulation, currentScreen(session)),
+      storageState: await session.context.storageState(),
+    });
+  }
+
+  // Verify page is still valid
+  if (!session.page || session.page.isClosed()) {
+    if (session.page) {
+      console.error("Page is closed or invalid. Creating new page...");
+    }
+    session.page = await session.context.newPage();
+
+    // Track the page as a tab and register its console message handler
+    await trackPage(session.page, sessionId);
+  }
+
+  return session.page;
+}
+
+/**
+ * Checks browser settings that would otherwise only fail while the session's context is created,
+ * where the error makes ensureBrowser relaunch the browser and drop every session
+ * @throws If a setting is invalid, e.g. an unknown device or a missing storage state file,
+ * or would recreate the context of a session that records a HAR
+ */
+export function validateBrowserSettings(browserSettings: BrowserSettings): void {
+  if (browserSettings.emulation) {
+    buildEmulationOptions(browserSettings.viewport, browserSettings.emulation);
+  }
+  if (browserSettings.storageState) {
+    readStorageStateFile(browserSettings.storageState);
+  }
+  const session = sessions.get(browserSettings.sessionId ?? DEFAULT_SESSION_ID);
+  if (session && pendingContextChange(session, browserSettings)) {
+    assertNotRecordingHar(session.id);
+  }
+}
+
+/**
+ * Ensures a browser is launched and returns the active page of the requested session
  */
 export async function ensureBrowser(browserSettings?: BrowserSettings) {
   try {
@@ -165,13 +612,13 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
       } catch (e) {
         // Ignore errors when closing disconnected browser
       }
-      // Reset browser and page references
+      // Reset browser and session references
       resetBrowserState();
     }
 
     // Launch new browser if needed
     if (!browser) {
-      const { viewport, userAgent, headless = false, browserType = 'chromium' } = browserSettings ?? {};
+      const { headless = false, browserType = 'chromium' } = browserSettings ?? {};
       
       // If browser type is changing, force a new browser instance
       if (browser && currentBrowserType !== browserType) {
@@ -213,36 +660,11 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
       browser.on('disconnected', () => {
         console.error("Browser disconnected event triggered");
         browser = undefined;
-        page = undefined;
-      });
-
-      const context = await browser.newContext({
-        ...userAgent && { userAgent },
-        viewport: {
-          width: viewport?.width ?? 1280,
-          height: viewport?.height ?? 720,
-        },
-        deviceScaleFactor: 1,
+        clearAllSessions();
       });
-
-      page = await context.newPage();
-
-      // Register console message handler
-      await registerConsoleMessage(page);
     }
     
-    // Verify page is still valid
-    if (!page || page.isClosed()) {
-      console.error("Page is closed or invalid. Creating new page...");
-      // Create a new page if the current one is invalid
-      const context = browser.contexts()[0] || await browser.newContext();
-      page = await context.newPage();
-      
-      // Re-register console message handler
-      await registerConsoleMessage(page);
-    }
-    
-    return page!;
+    return await ensureSessionPage(browserSettings);
   } catch (error) {
     console.error("Error ensuring browser:", error);
     // If something went wrong, clean up completely and retry once
@@ -257,7 +679,7 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
     resetBrowserState();
     
     // Try one more time from scratch
-    const { viewport, userAgent, headless = false, browserType = 'chromium' } = browserSettings ?? {};
+    const { headless = false, browserType = 'chromium' } = browserSettings ?? {};
     
     // Use the appropriate browser engine
     let browserInstance;
@@ -280,23 +702,10 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
     browser.on('disconnected', () => {
       console.error("Browser disconnected event triggered (retry)");
       browser = undefined;
-      page = undefined;
+      clearAllSessions();
     });
 
-    const context = await browser.newContext({
-      ...userAgent && { userAgent },
-      viewport: {
-        width: viewport?.width ?? 1280,
-        height: viewport?.height ?? 720,
-      },
-      deviceScaleFactor: 1,
-    });
-
-    page = await context.newPage();
-    
-    await registerConsoleMessage(page);
-    
-    return page!;
+    return await ensureSessionPage(browserSettings);
   }
 }
 
@@ -319,6 +728,9 @@ function initializeTools(server: any) {
   if (!closeBrowserTool) closeBrowserTool = new CloseBrowserTool(server);
   if (!consoleLogsTool) consoleLogsTool = new ConsoleLogsTool(server);
   if (!clickTool) clickTool = new ClickTool(server);
+  if (!doubleClickTool) doubleClickTool = new DoubleClickTool(server);
+  if (!checkTool) checkTool = new CheckTool(server);
+  if (!uncheckTool) uncheckTool = new UncheckTool(server);
   if (!iframeClickTool) iframeClickTool = new IframeClickTool(server);
   if (!iframeFillTool) iframeFillTool = new IframeFillTool(server);
   if (!fillTool) fillTool = new FillTool(server);
@@ -346,6 +758,53 @@ function initializeTools(server: any) {
   if (!pressKeyTool) pressKeyTool = new PressKeyTool(server);
   if (!saveAsPdfTool) saveAsPdfTool = new SaveAsPdfTool(server);
   if (!clickAndSwitchTabTool) clickAndSwitchTabTool = new ClickAndSwitchTabTool(server);
+  if (!listTabsTool) listTabsTool = new ListTabsTool(server);
+  if (!newTabTool) newTabTool = new NewTabTool(server);
+  if (!switchTabTool) switchTabTool = new SwitchTabTool(server);
+  if (!closeTabTool) closeTabTool = new CloseTabTool(server);
+  if (!createSessionTool) createSessionTool = new CreateSessionTool(server);
+  if (!listSessionsTool) listSessionsTool = new ListSessionsTool(server);
+  if (!destroySessionTool) destroySessionTool = new DestroySessionTool(server);
+  if (!saveStorageStateTool) saveStorageStateTool = new SaveStorageStateTool(server);
+  if (!loadStorageStateTool) loadStorageStateTool = new LoadStorageStateTool(server);
+  if (!getCookiesTool) getCookiesTool = new GetCookiesTool(server);
+  if (!setCookiesTool) setCookiesTool = new SetCookiesTool(server);
+  if (!clearCookiesTool) clearCookiesTool = new ClearCookiesTool(server);
+  if (!getStorageTool) getStorageTool = new GetStorageTool(server);
+  if (!setStorageTool) setStorageTool = new SetStorageTool(server);
+  if (!networkLogTool) networkLogTool = new NetworkLogTool(server);
+  if (!exportHarTool) exportHarTool = new ExportHarTool(server);
+  if (!routeTool) routeTool = new RouteTool(server);
+  if (!unrouteTool) unrouteTool = new UnrouteTool(server);
+  if (!listRoutesTool) listRoutesTool = new ListRoutesTool(server);
+  if (!routeFromHarTool) routeFromHarTool = new RouteFromHarTool(server);
+  if (!snapshotTool) snapshotTool = new SnapshotTool(server);
+  if (!expectTool) expectTool = new ExpectTool(server);
+  if (!waitForTool) waitForTool = new WaitForTool(server);
+  if (!typeTool) typeTool = new TypeTool(server);
+  if (!keyboardTool) keyboardTool = new KeyboardTool(server);
+  if (!selectTextTool) selectTextTool = new SelectTextTool(server);
+  if (!mouseTool) mouseTool = new MouseTool(server);
+  if (!touchTool) touchTool = new TouchTool(server);
+  if (!scrollTool) scrollTool = new ScrollTool(server);
+  if (!scrollUntilTool) scrollUntilTool = new ScrollUntilTool(server);
+  if (!dialogPolicyTool) dialogPolicyTool = new DialogPolicyTool(server);
+  if (!handleDialogTool) handleDialogTool = new HandleDialogTool(server);
+  if (!dialogLogTool) dialogLogTool = new DialogLogTool(server);
+  if (!clickAndDownloadTool) clickAndDownloadTool = new ClickAndDownloadTool(server);
+  if (!listDownloadsTool) listDownloadsTool = new ListDownloadsTool(server);
+  if (!listFramesTool) listFramesTool = new ListFramesTool(server);
+  if (!listDevicesTool) listDevicesTool = new ListDevicesTool(server);
+  if (!setViewportTool) setViewportTool = new SetViewportTool(server);
+  if (!emulateMediaTool) emulateMediaTool = new EmulateMediaTool(server);
+  if (!setGeolocationTool) setGeolocationTool = new SetGeolocationTool(server);
+  if (!grantPermissionsTool) grantPermissionsTool = new GrantPermissionsTool(server);
+  if (!setOfflineTool) setOfflineTool = new SetOfflineTool(server);
+  if (!setExtraHeadersTool) setExtraHeadersTool = new SetExtraHeadersTool(server);
+  if (!throttleTool) throttleTool = new ThrottleTool(server);
+  if (!performanceMetricsTool) performanceMetricsTool = new PerformanceMetricsTool(server);
+  if (!startTracingTool) startTracingTool = new StartTracingTool(server);
+  if (!stopTracingTool) stopTracingTool = new StopTracingTool(server);
 }
 
 /**
@@ -376,14 +835,22 @@ export async function handleToolCall(
     const recorder = ActionRecorder.getInstance();
     const activeSession = recorder.getActiveSession();
     if (activeSession && name !== 'playwright_close') {
-      recorder.recordAction(name, args);
+      // Refs only exist in the live page, so record the role and name they stood for
+      const refTarget = args.ref ? getRefTarget(args.ref, args.sessionId ?? DEFAULT_SESSION_ID) : undefined;
+      recorder.recordAction(name, refTarget ? { ...args, refTarget } : args);
     }
 
     // Special case for browser close to ensure it always works
     if (name === "playwright_close") {
       if (browser) {
+        // Traces are lost when their context closes, so they are saved first
+        const traces = await stopAllTracing();
         try {
           if (browser.isConnected()) {
+            // HAR files recorded in update mode are only written when their context closes
+            for (const session of sessions.values()) {
+              await session.context.close().catch(e => console.error(`Error closing context of session ${session.id}:`, e));
+            }
             await browser.close().catch(e => console.error("Error closing browser:", e));
           }
         } catch (error) {
@@ -392,10 +859,10 @@ export async function handleToolCall(
           resetBrowserState();
         }
         return {
-          content: [{
-            type: "text",
-            text: "Browser closed successfully",
-          }],
+          content: [
+            "Browser closed successfully",
+            ...traces.map(trace => `Saved trace of session '${trace.sessionId}' to: ${trace.path}`)
+          ].map(text => ({ type: "text" as const, text })),
           isError: false,
         };
       }
@@ -421,20 +888,31 @@ export async function handleToolCall(
 
   // Prepare context based on tool requirements
   const context: ToolContext = {
-    server
+    server,
+    sessionId: args.sessionId ?? DEFAULT_SESSION_ID
   };
   
   // Set up browser if needed
   if (BROWSER_TOOLS.includes(name)) {
     const browserSettings = {
+      sessionId: context.sessionId,
       viewport: {
         width: args.width,
         height: args.height
       },
       userAgent: name === "playwright_custom_user_agent" ? args.userAgent : undefined,
       headless: args.headless,
-      browserType: args.browserType || 'chromium'
+      browserType: args.browserType || 'chromium',
+      storageState: name === "playwright_navigate" ? args.storageState : undefined,
+      downloadsDir: name === "playwright_navigate" ? args.downloadsDir : undefined,
+      emulation: name === "playwright_navigate" ? pickEmulationSettings(args) : undefined
     };
+
+    try {
+      validateBrowserSettings(browserSettings);
+    } catch (error) {
+      return createErrorResponse((error as Error).message);
+    }
     
     try {
       context.page = await ensureBrowser(browserSettings);
@@ -483,6 +961,15 @@ export async function handleToolCall(
         
       case "playwright_click":
         return await clickTool.execute(args, context);
+
+      case "playwright_dblclick":
+        return await doubleClickTool.execute(args, context);
+
+      case "playwright_check":
+        return await checkTool.execute(args, context);
+
+      case "playwright_uncheck":
+        return await uncheckTool.execute(args, context);
         
       case "playwright_iframe_click":
         return await iframeClickTool.execute(args, context);
@@ -549,7 +1036,143 @@ export async function handleToolCall(
         return await saveAsPdfTool.execute(args, context);
       case "playwright_click_and_switch_tab":
         return await clickAndSwitchTabTool.execute(args, context);
-      
+
+      // Tab management tools
+      case "playwright_list_tabs":
+        return await listTabsTool.execute(args, context);
+      case "playwright_new_tab":
+        return await newTabTool.execute(args, context);
+      case "playwright_switch_tab":
+        return await switchTabTool.execute(args, context);
+      case "playwright_close_tab":
+        return await closeTabTool.execute(args, context);
+
+      // Session management tools
+      case "playwright_create_session":
+        return await createSessionTool.execute(args, context);
+      case "playwright_list_sessions":
+        return await listSessionsTool.execute(args, context);
+      case "playwright_destroy_session":
+        return await destroySessionTool.execute(args, context);
+
+      // Storage state tools
+      case "playwright_save_storage_state":
+        return await saveStorageStateTool.execute(args, context);
+      case "playwright_load_storage_state":
+        return await loadStorageStateTool.execute(args, context);
+
+      // Cookie tools
+      case "playwright_get_cookies":
+        return await getCookiesTool.execute(args, context);
+      case "playwright_set_cookies":
+        return await setCookiesTool.execute(args, context);
+      case "playwright_clear_cookies":
+        return await clearCookiesTool.execute(args, context);
+
+      // Web Storage tools
+      case "playwright_get_storage":
+        return await getStorageTool.execute(args, context);
+      case "playwright_set_storage":
+        return await setStorageTool.execute(args, context);
+
+      // Network recording
+      case "playwright_network_log":
+        return await networkLogTool.execute(args, context);
+      case "playwright_export_har":
+        return await exportHarTool.execute(args, context);
+
+      // Request interception
+      case "playwright_route":
+        return await routeTool.execute(args, context);
+      case "playwright_unroute":
+        return await unrouteTool.execute(args, context);
+      case "playwright_list_routes":
+        return await listRoutesTool.execute(args, context);
+      case "playwright_route_from_har":
+        return await routeFromHarTool.execute(args, context);
+
+      // Accessibility snapshot
+      case "playwright_snapshot":
+        return await snapshotTool.execute(args, context);
+
+      // Assertions
+      case "playwright_expect":
+        return await expectTool.execute(args, context);
+
+      // Waiting
+      case "playwright_wait_for":
+        return await waitForTool.execute(args, context);
+
+      // Keyboard tools
+      case "playwright_type":
+        return await typeTool.execute(args, context);
+      case "playwright_keyboard":
+        return await keyboardTool.execute(args, context);
+      case "playwright_select_text":
+        return await selectTextTool.execute(args, context);
+
+      // Mouse and touch tools
+      case "playwright_mouse":
+        return await mouseTool.execute(args, context);
+      case "playwright_touch":
+        return await touchTool.execute(args, context);
+
+      // Scroll tools
+      case "playwright_scroll":
+        return await scrollTool.execute(args, context);
+      case "playwright_scroll_until":
+        return await scrollUntilTool.execute(args, context);
+
+      // Dialog tools
+      case "playwright_dialog_policy":
+        return await dialogPolicyTool.execute(args, context);
+      case "playwright_handle_dialog":
+        return await handleDialogTool.execute(args, context);
+      case "playwright_dialog_log":
+        return await dialogLogTool.execute(args, context);
+
+      // Download tools
+      case "playwright_click_and_download":
+        return await clickAndDownloadTool.execute(args, context);
+      case "playwright_list_downloads":
+        return await listDownloadsTool.execute(args, context);
+
+      // Frames
+      case "playwright_list_frames":
+        return await listFramesTool.execute(args, context);
+
+      // Devices
+      case "playwright_list_devices":
+        return await listDevicesTool.execute(args, context);
+
+      // Emulation
+      case "playwright_set_viewport":
+        return await setViewportTool.execute(args, context);
+      case "playwright_emulate_media":
+        return await emulateMediaTool.execute(args, context);
+      case "playwright_set_geolocation":
+        return await setGeolocationTool.execute(args, context);
+      case "playwright_grant_permissions":
+        return await grantPermissionsTool.execute(args, context);
+      case "playwright_set_offline":
+        return await setOfflineTool.execute(args, context);
+      case "playwright_set_extra_headers":
+        return await setExtraHeadersTool.execute(args, context);
+
+      // Throttling
+      case "playwright_throttle":
+        return await throttleTool.execute(args, context);
+
+      // Performance
+      case "playwright_performance_metrics":
+        return await performanceMetricsTool.execute(args, context);
+
+      // Tracing
+      case "playwright_start_tracing":
+        return await startTracingTool.execute(args, context);
+      case "playwright_stop_tracing":
+        return await stopTracingTool.execute(args, context);
+
       default:
         return {
           content: [{
@@ -619,17 +1242,17 @@ async function handleCodegenResult(resultPromise: Promise<any>): Promise<CallToo
 }
 
 /**
- * Get console logs
+ * Get console logs of a session
  */
-export function getConsoleLogs(): string[] {
-  return consoleLogsTool?.getConsoleLogs() ?? [];
+export function getConsoleLogs(sessionId: string = DEFAULT_SESSION_ID): string[] {
+  return consoleLogsTool?.getConsoleLogs(sessionId) ?? [];
 }
 
 /**
- * Get screenshots
+ * Get screenshots of a session
  */
-export function getScreenshots(): Map<string, string> {
-  return screenshotTool?.getScreenshots() ?? new Map();
+export function getScreenshots(sessionId: string = DEFAULT_SESSION_ID): Map<string, string> {
+  return screenshotTool?.getScreenshots(sessionId) ?? new Map();
 }
 
 export { registerConsoleMessage };
@@ -1,6 +1,118 @@
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { codegenTools } from './tools/codegen';
 
+// Optional session selector accepted by every browser tool
+const sessionIdProperty = {
+  type: "string",
+  description: "ID of the browser session to run in (default: 'default'). Sessions are isolated browser contexts created with playwright_create_session"
+} as const;
+
+// Element ref from playwright_snapshot, accepted instead of a selector by interaction tools
+const refProperty = {
+  type: "string",
+  description: "Element ref from playwright_snapshot (e.g. 'e12'), used instead of selector"
+} as const;
+
+// Frame to work in, shared by the interaction, extraction, screenshot and evaluate tools
+const frameProperty = {
+  oneOf: [
+    { type: "string" },
+    {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector of the iframe element" },
+        name: { type: "string", description: "Frame name" },
+        url: { type: "string", description: "Substring or glob pattern of the frame URL" }
+      }
+    },
+    {
+      type: "array",
+      items: {
+        oneOf: [
+          { type: "string" },
+          {
+            type: "object",
+            properties: {
+              selector: { type: "string" },
+              name: { type: "string" },
+              url: { type: "string" }
+            }
+          }
+        ]
+      }
+    }
+  ],
+  description: "Frame to work in: the CSS selector of its iframe, { name } or { url } (substring or glob), or a list of these for nested frames, outermost first. See playwright_list_frames"
+} as const;
+
+// Locator descriptor accepted instead of a selector by interaction tools
+const locatorProperty = {
+  type: "object",
+  description: "Locator for the element, used instead of selector. Set exactly one of role, text, label, placeholder, testId, css or xpath, e.g. { role: 'button', name: 'Save' }. Unlike selector, which acts on the first match, it fails when several elements match unless nth is set",
+  properties: {
+    role: { type: "string", description: "ARIA role (e.g. button, link, textbox, checkbox)" },
+    name: { type: "string", description: "Accessible name to match together with role" },
+    text: { type: "string", description: "Text content to match" },
+    label: { type: "string", description: "Label text of a form control" },
+    placeholder: { type: "string", description: "Placeholder text of an input" },
+    testId: { type: "string", description: "Value of the test id attribute (data-testid)" },
+    css: { type: "string", description: "CSS selector" },
+    xpath: { type: "string", description: "XPath expression" },
+    exact: { type: "boolean", description: "Match name, text, label or placeholder exactly (default: case-insensitive substring)" },
+    nth: { type: "number", description: "Index of the match to use when several elements match (0-based, -1 for the last)" },
+    frame: {
+      oneOf: [
+        { type: "string" },
+        { type: "array", items: { type: "string" } }
+      ],
+      description: "CSS selector of the iframe to search in, or a list of selectors for nested iframes"
+    }
+  }
+} as const;
+
+// Device emulation options accepted by playwright_navigate and playwright_create_session
+const emulationProperties = {
+  device: { type: "string", description: "Device to emulate from Playwright's device registry, e.g. 'iPhone 13' or 'Pixel 7' (sets viewport, user agent, scale factor, mobile and touch). See playwright_list_devices" },
+  isMobile: { type: "boolean", description: "Emulate a mobile browser: meta viewport tag and touch-first layout (overrides the device)" },
+  hasTouch: { type: "boolean", description: "Enable touch events (overrides the device)" },
+  deviceScaleFactor: { type: "number", description: "Device pixel ratio (default: 1, or the device's)" },
+  colorScheme: { type: "string", enum: ["light", "dark", "no-preference"], description: "Value of the prefers-color-scheme media feature" },
+  reducedMotion: { type: "string", enum: ["reduce", "no-preference"], description: "Value of the prefers-reduced-motion media feature" },
+  locale: { type: "string", description: "Browser locale, e.g. 'de-DE'; affects navigator.language, Accept-Language and number and date formatting" },
+  timezoneId: { type: "string", description: "Time zone ID, e.g. 'Europe/Berlin'" },
+  geolocation: {
+    type: "object",
+    properties: {
+      latitude: { type: "number" },
+      longitude: { type: "number" },
+      accuracy: { type: "number", description: "Accuracy in meters (default: 0)" }
+    },
+    required: ["latitude", "longitude"],
+    description: "Position reported by the geolocation API; the geolocation permission is granted"
+  }
+} as const;
+
+// Pointer options accepted by the click family of tools
+const clickOptionProperties = {
+  button: { type: "string", description: "Mouse button to use (default: left)", enum: ["left", "right", "middle"] },
+  clickCount: { type: "number", description: "Number of clicks, e.g. 2 for a double click (default: 1)" },
+  modifiers: {
+    type: "array",
+    items: { type: "string", enum: ["Alt", "Control", "ControlOrMeta", "Meta", "Shift"] },
+    description: "Modifier keys to hold while clicking, e.g. ['Shift'] or ['ControlOrMeta'] for multi-select"
+  },
+  position: {
+    type: "object",
+    properties: {
+      x: { type: "number" },
+      y: { type: "number" }
+    },
+    description: "Point to click relative to the top-left corner of the element (default: the center)"
+  },
+  force: { type: "boolean", description: "Skip the actionability checks, e.g. for elements covered by a custom control (default: false)" },
+  trial: { type: "boolean", description: "Only run the actionability checks without performing the action (default: false)" }
+} as const;
+
 export function createToolDefinitions() {
   return [
     // Codegen tools
@@ -93,11 +205,15 @@ export function createToolDefinitions() {
         properties: {
           url: { type: "string", description: "URL to navigate to the website specified" },
           browserType: { type: "string", description: "Browser type to use (chromium, firefox, webkit). Defaults to chromium", enum: ["chromium", "firefox", "webkit"] },
-          width: { type: "number", description: "Viewport width in pixels (default: 1280)" },
-          height: { type: "number", description: "Viewport height in pixels (default: 720)" },
+          width: { type: "number", description: "Viewport width in pixels (default: 1280, or the device's)" },
+          height: { type: "number", description: "Viewport height in pixels (default: 720, or the device's)" },
           timeout: { type: "number", description: "Navigation timeout in milliseconds" },
           waitUntil: { type: "string", description: "Navigation wait condition" },
-          headless: { type: "boolean", description: "Run browser in headless mode (default: false)" }
+          headless: { type: "boolean", description: "Run browser in headless mode (default: false)" },
+          storageState: { type: "string", description: "Path to a storage state JSON file (saved with playwright_save_storage_state) to start the session from. Recreates the session's context if it was started from a different state" },
+          downloadsDir: { type: "string", description: "Directory the session saves downloaded files to (default: user's Downloads folder)" },
+          ...emulationProperties,
+          sessionId: sessionIdProperty
         },
         required: ["url"],
       },
@@ -116,6 +232,8 @@ export function createToolDefinitions() {
           fullPage: { type: "boolean", description: "Store screenshot of the entire page (default: false)" },
           savePng: { type: "boolean", description: "Save screenshot as PNG file (default: false)" },
           downloadsDir: { type: "string", description: "Custom downloads directory path (default: user's Downloads folder)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
         required: ["name"],
       },
@@ -127,31 +245,95 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for the element to click" },
+          ref: refProperty,
+          locator: locatorProperty,
+          ...clickOptionProperties,
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_dblclick",
+      description: "Double-click an element on the page",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector for the element to double-click" },
+          ref: refProperty,
+          locator: locatorProperty,
+          button: clickOptionProperties.button,
+          modifiers: clickOptionProperties.modifiers,
+          position: clickOptionProperties.position,
+          force: clickOptionProperties.force,
+          trial: clickOptionProperties.trial,
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_check",
+      description: "Check a checkbox or radio button, including custom ARIA checkboxes. Does nothing if it is already checked",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector for the checkbox or radio button" },
+          ref: refProperty,
+          locator: locatorProperty,
+          position: clickOptionProperties.position,
+          force: clickOptionProperties.force,
+          trial: clickOptionProperties.trial,
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
-        required: ["selector"],
+        required: [],
+      },
+    },
+    {
+      name: "playwright_uncheck",
+      description: "Uncheck a checkbox, including custom ARIA checkboxes. Does nothing if it is already unchecked",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector for the checkbox" },
+          ref: refProperty,
+          locator: locatorProperty,
+          position: clickOptionProperties.position,
+          force: clickOptionProperties.force,
+          trial: clickOptionProperties.trial,
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: [],
       },
     },
     {
       name: "playwright_iframe_click",
-      description: "Click an element in an iframe on the page",
+      description: "Click an element in an iframe on the page. Same as playwright_click with frame set to the iframe selector",
       inputSchema: {
         type: "object",
         properties: {
           iframeSelector: { type: "string", description: "CSS selector for the iframe containing the element to click" },
           selector: { type: "string", description: "CSS selector for the element to click" },
+          ...clickOptionProperties,
+          sessionId: sessionIdProperty
         },
         required: ["iframeSelector", "selector"],
       },
     },
     {
       name: "playwright_iframe_fill",
-      description: "Fill an element in an iframe on the page",
+      description: "Fill an element in an iframe on the page. Same as playwright_fill with frame set to the iframe selector",
       inputSchema: {
         type: "object",
         properties: {
           iframeSelector: { type: "string", description: "CSS selector for the iframe containing the element to fill" },
           selector: { type: "string", description: "CSS selector for the element to fill" },
           value: { type: "string", description: "Value to fill" },
+          sessionId: sessionIdProperty
         },
         required: ["iframeSelector", "selector", "value"],
       },
@@ -163,9 +345,13 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for input field" },
+          ref: refProperty,
+          locator: locatorProperty,
           value: { type: "string", description: "Value to fill" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
-        required: ["selector", "value"],
+        required: ["value"],
       },
     },
     {
@@ -175,9 +361,13 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for element to select" },
+          ref: refProperty,
+          locator: locatorProperty,
           value: { type: "string", description: "Value to select" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
-        required: ["selector", "value"],
+        required: ["value"],
       },
     },
     {
@@ -187,20 +377,54 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for element to hover" },
+          ref: refProperty,
+          locator: locatorProperty,
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
-        required: ["selector"],
+        required: [],
       },
     },
     {
       name: "playwright_upload_file",
-      description: "Upload a file to an input[type='file'] element on the page",
+      description: "Upload files to an input[type='file'] element, through the file chooser an element opens, or by dropping them onto a dropzone",
       inputSchema: {
         type: "object",
         properties: {
-          selector: { type: "string", description: "CSS selector for the file input element" },
-          filePath: { type: "string", description: "Absolute path to the file to upload" }
+          selector: { type: "string", description: "CSS selector for the file input element, the element that opens the file chooser, or the dropzone" },
+          ref: refProperty,
+          locator: locatorProperty,
+          filePath: {
+            oneOf: [
+              { type: "string" },
+              { type: "array", items: { type: "string" } }
+            ],
+            description: "Absolute path, or list of paths, of files on the server's disk to upload"
+          },
+          files: {
+            type: "array",
+            description: "Files to upload from memory, without writing them to disk",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string", description: "File name, e.g. report.csv" },
+                mimeType: { type: "string", description: "MIME type (guessed from the file name if omitted)" },
+                buffer: { type: "string", description: "File content encoded as base64" }
+              },
+              required: ["name", "buffer"]
+            }
+          },
+          clear: { type: "boolean", description: "Remove the selected files instead of uploading (default: false)" },
+          mode: {
+            type: "string",
+            enum: ["input", "filechooser", "drop"],
+            description: "How files are uploaded: 'input' sets the files of a file input (default), 'filechooser' clicks the element and answers the file chooser it opens, 'drop' dispatches a drop event with the files onto the element"
+          },
+          timeout: { type: "number", description: "Maximum time in milliseconds to wait for the file chooser in filechooser mode (default: 30000)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
-        required: ["selector", "filePath"],
+        required: [],
       },
     },
     {
@@ -210,6 +434,8 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           script: { type: "string", description: "JavaScript code to execute" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
         required: ["script"],
       },
@@ -236,7 +462,8 @@ export function createToolDefinitions() {
           clear: {
             type: "boolean",
             description: "Whether to clear logs after retrieval (default: false)"
-          }
+          },
+          sessionId: sessionIdProperty
         },
         required: [],
       },
@@ -321,7 +548,8 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           id: { type: "string", description: "Unique & arbitrary identifier to be used for retrieving this response later with `Playwright_assert_response`." },
-          url: { type: "string", description: "URL pattern to match in the response." }
+          url: { type: "string", description: "URL pattern to match in the response." },
+          sessionId: sessionIdProperty
         },
         required: ["id", "url"],
       },
@@ -333,28 +561,35 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           id: { type: "string", description: "Identifier of the HTTP response initially expected using `Playwright_expect_response`." },
-          value: { type: "string", description: "Data to expect in the body of the HTTP response. If provided, the assertion will fail if this value is not found in the response body." }
+          value: { type: "string", description: "Data to expect in the body of the HTTP response. If provided, the assertion will fail if this value is not found in the response body." },
+          sessionId: sessionIdProperty
         },
         required: ["id"],
       },
     },
     {
       name: "playwright_custom_user_agent",
-      description: "Set a custom User Agent for the browser",
+      description: "Set a custom User Agent for the session. The session's context is recreated with it; cookies and localStorage carry over and the current page is reopened",
       inputSchema: {
         type: "object",
         properties: {
-          userAgent: { type: "string", description: "Custom User Agent for the Playwright browser instance" }
+          userAgent: { type: "string", description: "Custom User Agent for the Playwright browser instance" },
+          sessionId: sessionIdProperty
         },
         required: ["userAgent"],
       },
     },
     {
       name: "playwright_get_visible_text",
-      description: "Get the visible text content of the current page",
+      description: "Get the visible text content of the current page, including open shadow roots and same-origin iframes",
       inputSchema: {
         type: "object",
-        properties: {},
+        properties: {
+          includeShadowDom: { type: "boolean", description: "Descend into open shadow roots of web components (default: true)" },
+          includeIframes: { type: "boolean", description: "Include the text of same-origin iframes inline between [iframe URL] and [/iframe] markers (default: true)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
         required: [],
       },
     },
@@ -371,7 +606,12 @@ export function createToolDefinitions() {
           removeMeta: { type: "boolean", description: "Remove all meta tags from the HTML (default: false)" },
           cleanHtml: { type: "boolean", description: "Perform comprehensive HTML cleaning (default: false)" },
           minify: { type: "boolean", description: "Minify the HTML output (default: false)" },
-          maxLength: { type: "number", description: "Maximum number of characters to return (default: 20000)" }
+          maxLength: { type: "number", description: "Maximum number of characters to return (default: 20000)" },
+          includeShadowDom: { type: "boolean", description: "Include open shadow roots of web components, flattened the way the page renders them (default: true)" },
+          declarativeShadowDom: { type: "boolean", description: "Keep shadow roots as declarative shadow DOM (<template shadowrootmode>) instead of flattening them (default: false)" },
+          includeIframes: { type: "boolean", description: "Include the documents of same-origin iframes inline as <mcp-iframe> elements (default: true)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
         required: [],
       },
@@ -381,7 +621,9 @@ export function createToolDefinitions() {
       description: "Navigate back in browser history",
       inputSchema: {
         type: "object",
-        properties: {},
+        properties: {
+          sessionId: sessionIdProperty
+        },
         required: [],
       },
     },
@@ -390,7 +632,9 @@ export function createToolDefinitions() {
       description: "Navigate forward in browser history",
       inputSchema: {
         type: "object",
-        properties: {},
+        properties: {
+          sessionId: sessionIdProperty
+        },
         required: [],
       },
     },
@@ -401,9 +645,21 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           sourceSelector: { type: "string", description: "CSS selector for the element to drag" },
-          targetSelector: { type: "string", description: "CSS selector for the target location" }
+          sourceLocator: { ...locatorProperty, description: "Locator for the element to drag, used instead of sourceSelector" },
+          targetSelector: { type: "string", description: "CSS selector for the target location" },
+          targetLocator: { ...locatorProperty, description: "Locator for the target location, used instead of targetSelector" },
+          sourcePosition: { ...clickOptionProperties.position, description: "Point to grab relative to the top-left corner of the source element (default: the center)" },
+          targetPosition: { ...clickOptionProperties.position, description: "Point to drop at relative to the top-left corner of the target element (default: the center)" },
+          steps: { type: "number", description: "Number of intermediate mouse moves between source and target, for sortable lists and canvas apps (default: 1)" },
+          mode: {
+            type: "string",
+            description: "How to drag: mouse moves the mouse directly, html5 uses Playwright's dragTo for HTML5 drag and drop (default: mouse)",
+            enum: ["mouse", "html5"]
+          },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
-        required: ["sourceSelector", "targetSelector"],
+        required: [],
       },
     },
     {
@@ -413,7 +669,11 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           key: { type: "string", description: "Key to press (e.g. 'Enter', 'ArrowDown', 'a')" },
-          selector: { type: "string", description: "Optional CSS selector to focus before pressing key" }
+          selector: { type: "string", description: "Optional CSS selector to focus before pressing key" },
+          ref: refProperty,
+          locator: locatorProperty,
+          frame: frameProperty,
+          sessionId: sessionIdProperty
         },
         required: ["key"],
       },
@@ -437,7 +697,8 @@ export function createToolDefinitions() {
               bottom: { type: "string" },
               left: { type: "string" }
             }
-          }
+          },
+          sessionId: sessionIdProperty
         },
         required: ["outputPath"],
       },
@@ -449,8 +710,799 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for the link to click" },
+          ref: refProperty,
+          locator: locatorProperty,
+          button: clickOptionProperties.button,
+          modifiers: clickOptionProperties.modifiers,
+          position: clickOptionProperties.position,
+          force: clickOptionProperties.force,
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_list_tabs",
+      description: "List all open tabs in the browser context with their stable tab IDs, URLs and titles",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_new_tab",
+      description: "Open a new tab, optionally navigate it to a URL, and make it the active tab",
+      inputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string", description: "URL to open in the new tab" },
+          timeout: { type: "number", description: "Navigation timeout in milliseconds" },
+          waitUntil: { type: "string", description: "Navigation wait condition" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_switch_tab",
+      description: "Switch the active tab by tab ID, index, URL pattern or title",
+      inputSchema: {
+        type: "object",
+        properties: {
+          tabId: { type: "string", description: "Stable tab ID as returned by playwright_list_tabs (e.g. 'tab-2')" },
+          index: { type: "number", description: "Zero-based index of the tab in opening order" },
+          urlPattern: { type: "string", description: "URL substring or glob pattern (e.g. '**/oauth/**') to match" },
+          title: { type: "string", description: "Case-insensitive substring of the tab title to match" },
+          sessionId: sessionIdProperty
         },
-        required: ["selector"],
+        required: [],
+      },
+    },
+    {
+      name: "playwright_close_tab",
+      description: "Close a tab by tab ID or index (defaults to the active tab) and switch to the most recently opened remaining tab",
+      inputSchema: {
+        type: "object",
+        properties: {
+          tabId: { type: "string", description: "Stable tab ID as returned by playwright_list_tabs" },
+          index: { type: "number", description: "Zero-based index of the tab in opening order" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_save_storage_state",
+      description: "Save the cookies and localStorage of the current session to a JSON file so later runs can skip logging in",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "Path of the JSON file to write (e.g. './auth/admin.json')" },
+          sessionId: sessionIdProperty
+        },
+        required: ["path"],
+      },
+    },
+    {
+      name: "playwright_load_storage_state",
+      description: "Restart the current session in a new browser context created from a saved storage state file, then reopen the current page (or the given URL)",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "Path of a storage state JSON file saved with playwright_save_storage_state" },
+          url: { type: "string", description: "URL to open after loading (default: the page that was open)" },
+          timeout: { type: "number", description: "Navigation timeout in milliseconds" },
+          waitUntil: { type: "string", description: "Navigation wait condition" },
+          sessionId: sessionIdProperty
+        },
+        required: ["path"],
+      },
+    },
+    {
+      name: "playwright_create_session",
+      description: "Create a named, isolated browser session with its own context, cookies, storage, tabs and console logs. Pass its sessionId to any browser tool to drive it",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sessionId: { type: "string", description: "Unique name for the session (e.g. 'admin', 'customer')" },
+          url: { type: "string", description: "Optional URL to open in the session" },
+          browserType: { type: "string", description: "Browser type to launch if no browser is running yet (chromium, firefox, webkit). Defaults to chromium", enum: ["chromium", "firefox", "webkit"] },
+          width: { type: "number", description: "Viewport width in pixels (default: 1280, or the device's)" },
+          height: { type: "number", description: "Viewport height in pixels (default: 720, or the device's)" },
+          userAgent: { type: "string", description: "Custom User Agent for the session" },
+          headless: { type: "boolean", description: "Run browser in headless mode if no browser is running yet (default: false)" },
+          downloadsDir: { type: "string", description: "Directory the session saves downloaded files to (default: user's Downloads folder)" },
+          ...emulationProperties
+        },
+        required: ["sessionId"],
+      },
+    },
+    {
+      name: "playwright_list_sessions",
+      description: "List all open browser sessions with their tab count and active URL",
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+    },
+    {
+      name: "playwright_destroy_session",
+      description: "Close a browser session's context and discard its tabs, console logs, screenshots and pending response waits",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sessionId: { type: "string", description: "ID of the session to destroy" }
+        },
+        required: ["sessionId"],
+      },
+    },
+    {
+      name: "playwright_get_cookies",
+      description: "Get cookies of the current browser context as JSON, optionally filtered by domain or name",
+      inputSchema: {
+        type: "object",
+        properties: {
+          domain: { type: "string", description: "Only return cookies for this domain and its subdomains (e.g. 'example.com')" },
+          name: { type: "string", description: "Only return cookies with this exact name" },
+          urls: { type: "array", items: { type: "string" }, description: "Only return cookies that would be sent to these URLs" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_set_cookies",
+      description: "Add cookies to the current browser context. Cookies without url or domain are set for the current page URL",
+      inputSchema: {
+        type: "object",
+        properties: {
+          cookies: {
+            type: "array",
+            description: "Cookies to set",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                value: { type: "string" },
+                url: { type: "string", description: "URL the cookie applies to (alternative to domain + path)" },
+                domain: { type: "string" },
+                path: { type: "string", description: "Cookie path (default: '/')" },
+                expires: { type: "number", description: "Unix time in seconds" },
+                httpOnly: { type: "boolean" },
+                secure: { type: "boolean" },
+                sameSite: { type: "string", enum: ["Strict", "Lax", "None"] }
+              },
+              required: ["name", "value"]
+            }
+          },
+          sessionId: sessionIdProperty
+        },
+        required: ["cookies"],
+      },
+    },
+    {
+      name: "playwright_clear_cookies",
+      description: "Remove cookies from the current browser context. Without filters all cookies are removed",
+      inputSchema: {
+        type: "object",
+        properties: {
+          domain: { type: "string", description: "Only remove cookies for this domain and its subdomains" },
+          name: { type: "string", description: "Only remove cookies with this exact name" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_get_storage",
+      description: "Get localStorage or sessionStorage items of the current page's origin as JSON",
+      inputSchema: {
+        type: "object",
+        properties: {
+          type: { type: "string", description: "Storage to read (default: local)", enum: ["local", "session"] },
+          key: { type: "string", description: "Only return keys containing this text" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_set_storage",
+      description: "Set, remove or clear localStorage or sessionStorage items of the current page's origin",
+      inputSchema: {
+        type: "object",
+        properties: {
+          type: { type: "string", description: "Storage to write (default: local)", enum: ["local", "session"] },
+          items: { type: "object", description: "Key/value pairs to set. Non-string values are stored as JSON", additionalProperties: true },
+          remove: { type: "array", items: { type: "string" }, description: "Keys to remove" },
+          clear: { type: "boolean", description: "Clear all items before setting new ones (default: false)" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_network_log",
+      description: "Retrieve network requests captured from the browser pages with filtering options",
+      inputSchema: {
+        type: "object",
+        properties: {
+          urlPattern: { type: "string", description: "URL glob (e.g. '**/api/**') or substring to filter requests by" },
+          method: { type: "string", description: "HTTP method to filter by (e.g. GET, POST)" },
+          status: { type: "string", description: "Response status code (e.g. 404) or status class (e.g. 4xx) to filter by" },
+          resourceType: {
+            type: "string",
+            description: "Resource type to filter by",
+            enum: ["document", "stylesheet", "image", "media", "font", "script", "texttrack", "xhr", "fetch", "eventsource", "websocket", "manifest", "other"]
+          },
+          failedOnly: { type: "boolean", description: "Only return requests that failed without a response (default: false)" },
+          limit: { type: "number", description: "Maximum number of requests to return (keeps the most recent)" },
+          clear: { type: "boolean", description: "Whether to clear the network log after retrieval (default: false)" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_export_har",
+      description: "Export the captured network requests as a HAR 1.2 file, with text response bodies up to 1 MB (binary bodies such as images are not captured, and the oldest bodies are dropped once a session keeps 20 MB)",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "Path of the HAR file to write" },
+          urlPattern: { type: "string", description: "URL glob or substring to limit the exported requests (optional)" },
+          sessionId: sessionIdProperty
+        },
+        required: ["path"],
+      },
+    },
+    {
+      name: "playwright_route",
+      description: "Intercept requests matching a URL glob and fulfill them with a mocked response, abort them or delay them",
+      inputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string", description: "URL glob to intercept (e.g. '**/api/users*')" },
+          method: { type: "string", description: "Only intercept requests with this HTTP method (optional)" },
+          status: { type: "number", description: "Status code of the mocked response (default: 200 when fulfilling)" },
+          headers: { type: "object", additionalProperties: { type: "string" }, description: "Headers of the mocked response" },
+          contentType: { type: "string", description: "Content type of the mocked response (defaults to application/json for object bodies)" },
+          body: { type: ["string", "object", "array"], description: "Body of the mocked response; objects and arrays are sent as JSON" },
+          bodyPath: { type: "string", description: "Path to a file to serve as the response body" },
+          abort: { type: "boolean", description: "Abort matching requests instead of fulfilling them (default: false)" },
+          errorCode: { type: "string", description: "Error code used when aborting (e.g. failed, timedout, connectionrefused; default: failed)" },
+          delay: { type: "number", description: "Delay in milliseconds before fulfilling, aborting or continuing matching requests" },
+          sessionId: sessionIdProperty
+        },
+        required: ["url"],
+      },
+    },
+    {
+      name: "playwright_unroute",
+      description: "Remove request interceptions added with playwright_route",
+      inputSchema: {
+        type: "object",
+        properties: {
+          routeId: { type: "string", description: "ID of the route to remove (as returned by playwright_route)" },
+          url: { type: "string", description: "Remove all routes registered for this exact URL glob" },
+          all: { type: "boolean", description: "Remove all routes of the session" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_list_routes",
+      description: "List active request interceptions with how often each one matched",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_route_from_har",
+      description: "Serve responses from a previously recorded HAR file (e.g. one written by playwright_export_har), so the session can run against a frozen backend without network access",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "Path to the HAR file" },
+          url: { type: "string", description: "Only serve requests matching this URL glob from the HAR (default: all requests)" },
+          notFound: {
+            type: "string",
+            description: "What to do with requests missing from the HAR: abort them or fall back to other routes and the network (default: abort)",
+            enum: ["abort", "fallback"]
+          },
+          update: { type: "boolean", description: "Record real responses into the HAR file instead of serving from it; the file is written when the session closes, and settings that recreate the session's context (user agent, device, storage state) are refused until then (default: false)" },
+          sessionId: sessionIdProperty
+        },
+        required: ["path"],
+      },
+    },
+    {
+      name: "playwright_snapshot",
+      description: "Capture a compact accessibility tree of the page (roles, names, states, values) with a ref per element. Refs can be passed to playwright_click, playwright_fill, playwright_hover and playwright_select instead of a selector, and are much cheaper than visible HTML",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the element to snapshot (default: body)" },
+          format: {
+            type: "string",
+            description: "Output format (default: yaml)",
+            enum: ["yaml", "json"]
+          },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_expect",
+      description: "Assert on an element or the page with a web-first assertion that retries until it passes or times out, and report the actual value",
+      inputSchema: {
+        type: "object",
+        properties: {
+          assertion: {
+            type: "string",
+            description: "Assertion to run; toHaveURL and toHaveTitle check the page, all others check the target element",
+            enum: ["toBeVisible", "toBeHidden", "toHaveText", "toContainText", "toHaveValue", "toHaveAttribute", "toHaveCount", "toHaveURL", "toHaveTitle", "toBeChecked", "toBeEnabled"]
+          },
+          selector: { type: "string", description: "CSS selector for the element to check" },
+          ref: refProperty,
+          locator: locatorProperty,
+          expected: { type: ["string", "number"], description: "Expected text, value, attribute value, URL, title or count" },
+          regex: { type: "boolean", description: "Treat expected as a regular expression (default: false)" },
+          attribute: { type: "string", description: "Attribute name for toHaveAttribute" },
+          not: { type: "boolean", description: "Negate the assertion (default: false)" },
+          timeout: { type: "number", description: "How long to retry in milliseconds (default: 5000)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: ["assertion"],
+      },
+    },
+    {
+      name: "playwright_wait_for",
+      description: "Wait for an element state, a page load state, a URL, a JavaScript predicate or a fixed time. Provide exactly one condition; frame only applies to element waits",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the element to wait for" },
+          ref: refProperty,
+          locator: locatorProperty,
+          state: {
+            type: "string",
+            description: "Element state to wait for (default: visible)",
+            enum: ["attached", "detached", "visible", "hidden"]
+          },
+          loadState: {
+            type: "string",
+            description: "Page load state to wait for; networkidle waits until there are no network connections for 500ms",
+            enum: ["load", "domcontentloaded", "networkidle"]
+          },
+          url: { type: "string", description: "URL glob pattern (e.g. '**/dashboard') or regular expression to wait for" },
+          regex: { type: "boolean", description: "Treat url as a regular expression (default: false)" },
+          function: { type: "string", description: "JavaScript expression or function evaluated in the page until it returns a truthy value, e.g. '() => window.appReady'" },
+          polling: { type: ["number", "string"], description: "Polling interval in milliseconds for function, or 'raf' for every animation frame (default: raf)" },
+          time: { type: "number", description: "Fixed time to wait in milliseconds" },
+          timeout: { type: "number", description: "Maximum time to wait in milliseconds (default: 30000)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_type",
+      description: "Type text key by key, firing keyboard events for every character. Use this instead of playwright_fill for inputs that react to keystrokes, such as autocomplete or masked inputs",
+      inputSchema: {
+        type: "object",
+        properties: {
+          text: { type: "string", description: "Text to type" },
+          selector: { type: "string", description: "CSS selector for the element to type into (default: the focused element)" },
+          ref: refProperty,
+          locator: locatorProperty,
+          delay: { type: "number", description: "Delay between key presses in milliseconds (default: 0)" },
+          clear: { type: "boolean", description: "Clear the element before typing (default: false)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: ["text"],
+      },
+    },
+    {
+      name: "playwright_keyboard",
+      description: "Run a sequence of keyboard actions: key presses and chords like 'Control+A', repeated presses, typed text and inserted text",
+      inputSchema: {
+        type: "object",
+        properties: {
+          actions: {
+            type: "array",
+            description: "Actions to run in order. A string presses that key or chord, e.g. ['Control+A', 'Backspace']; objects allow repeats and text",
+            items: {
+              oneOf: [
+                { type: "string" },
+                {
+                  type: "object",
+                  properties: {
+                    key: { type: "string", description: "Key or chord to press, e.g. 'Shift+ArrowDown'" },
+                    repeat: { type: "number", description: "How often to press the key (default: 1)" },
+                    type: { type: "string", description: "Text to type key by key" },
+                    insertText: { type: "string", description: "Text to insert without key events, e.g. emoji or IME input" },
+                    down: { type: "string", description: "Key to hold down" },
+                    up: { type: "string", description: "Key to release" }
+                  }
+                }
+              ]
+            }
+          },
+          selector: { type: "string", description: "Optional CSS selector to focus before the first action" },
+          ref: refProperty,
+          locator: locatorProperty,
+          delay: { type: "number", description: "Time between keydown and keyup of each press in milliseconds (default: 0)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: ["actions"],
+      },
+    },
+    {
+      name: "playwright_select_text",
+      description: "Select all text of an element, or the range between two character offsets",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector for the element whose text to select" },
+          ref: refProperty,
+          locator: locatorProperty,
+          start: { type: "number", description: "Offset of the first selected character (default: 0)" },
+          end: { type: "number", description: "Offset after the last selected character (default: end of the text)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_mouse",
+      description: "Run a sequence of low-level mouse actions at page coordinates: moves with intermediate steps, button presses and releases, clicks and wheel scrolling",
+      inputSchema: {
+        type: "object",
+        properties: {
+          actions: {
+            type: "array",
+            description: "Actions to run in order, e.g. [{ type: 'move', x: 100, y: 200 }, { type: 'down' }, { type: 'move', x: 300, y: 200, steps: 20 }, { type: 'up' }]",
+            items: {
+              type: "object",
+              properties: {
+                type: { type: "string", description: "Action to run", enum: ["move", "down", "up", "click", "wheel"] },
+                x: { type: "number", description: "X coordinate in CSS pixels; required for move and click, optional for wheel" },
+                y: { type: "number", description: "Y coordinate in CSS pixels; required for move and click, optional for wheel" },
+                steps: { type: "number", description: "Number of intermediate mousemove events for move (default: 1)" },
+                button: clickOptionProperties.button,
+                clickCount: clickOptionProperties.clickCount,
+                deltaX: { type: "number", description: "Horizontal wheel scroll in pixels" },
+                deltaY: { type: "number", description: "Vertical wheel scroll in pixels" }
+              },
+              required: ["type"]
+            }
+          },
+          sessionId: sessionIdProperty
+        },
+        required: ["actions"],
+      },
+    },
+    {
+      name: "playwright_touch",
+      description: "Perform a touch gesture at an element or at page coordinates. Tap needs a touch-enabled session (e.g. an emulated mobile device); swipe and pinch need Chromium",
+      inputSchema: {
+        type: "object",
+        properties: {
+          gesture: { type: "string", description: "Gesture to perform", enum: ["tap", "swipe", "pinch"] },
+          selector: { type: "string", description: "CSS selector for the element to touch, used instead of x and y" },
+          ref: refProperty,
+          locator: locatorProperty,
+          x: { type: "number", description: "X coordinate where the gesture starts" },
+          y: { type: "number", description: "Y coordinate where the gesture starts" },
+          deltaX: { type: "number", description: "Horizontal distance to swipe in pixels" },
+          deltaY: { type: "number", description: "Vertical distance to swipe in pixels (negative swipes up)" },
+          scale: { type: "number", description: "Pinch scale: above 1 zooms in, below 1 zooms out (default: 2)" },
+          steps: { type: "number", description: "Number of touch moves for swipe and pinch (default: 10)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: ["gesture"],
+      },
+    },
+    {
+      name: "playwright_scroll",
+      description: "Scroll an element into view, or scroll the page or a scrollable container by a delta or to its top or bottom. Provide exactly one of selector/ref/locator, deltaX/deltaY or to",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector for the element to scroll into view" },
+          ref: refProperty,
+          locator: locatorProperty,
+          deltaX: { type: "number", description: "Pixels to scroll horizontally" },
+          deltaY: { type: "number", description: "Pixels to scroll vertically (negative scrolls up)" },
+          to: { type: "string", description: "Scroll to the top or bottom", enum: ["top", "bottom"] },
+          container: { type: "string", description: "CSS selector for the scrollable container to scroll by delta or to top/bottom (default: the page)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_scroll_until",
+      description: "Keep scrolling a feed or infinite list until an element appears, the item count stops growing or the maximum number of scrolls is reached, and report how many items were loaded",
+      inputSchema: {
+        type: "object",
+        properties: {
+          untilSelector: { type: "string", description: "CSS selector of an element to scroll to, e.g. the end-of-feed marker" },
+          itemSelector: { type: "string", description: "CSS selector matching the list items; scrolling stops once no new items load" },
+          container: { type: "string", description: "CSS selector for the scrollable container (default: the page)" },
+          deltaY: { type: "number", description: "Pixels to scroll per iteration (default: scroll to the bottom)" },
+          maxIterations: { type: "number", description: "Maximum number of scrolls (default: 20)" },
+          wait: { type: "number", description: "Time to wait for new content after each scroll in milliseconds (default: 500)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_dialog_policy",
+      description: "Set how native dialogs (alert, confirm, prompt, beforeunload) are answered in a session. The default is to dismiss them",
+      inputSchema: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            description: "accept or dismiss every dialog automatically, or queue dialogs to answer each one with playwright_handle_dialog. A queued dialog blocks the page until it is answered; the tool call that opened it returns with the dialog ID",
+            enum: ["accept", "dismiss", "queue"]
+          },
+          promptText: { type: "string", description: "Text to enter into prompt dialogs when accepting" },
+          sessionId: sessionIdProperty
+        },
+        required: ["action"],
+      },
+    },
+    {
+      name: "playwright_handle_dialog",
+      description: "Answer a dialog queued by the 'queue' dialog policy",
+      inputSchema: {
+        type: "object",
+        properties: {
+          accept: { type: "boolean", description: "Accept the dialog, or dismiss it when false (default: true)" },
+          promptText: { type: "string", description: "Text to enter into a prompt dialog when accepting" },
+          dialogId: { type: "string", description: "ID of the dialog from playwright_dialog_log (default: the oldest waiting dialog)" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_dialog_log",
+      description: "List the native dialogs a session has seen, with their messages and how they were answered",
+      inputSchema: {
+        type: "object",
+        properties: {
+          clear: { type: "boolean", description: "Clear the log after returning it (default: false)" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_click_and_download",
+      description: "Click an element that starts a download, wait for the file and return its saved path, size, MIME type and SHA-256",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector for the element that starts the download" },
+          ref: refProperty,
+          locator: locatorProperty,
+          downloadsDir: { type: "string", description: "Directory to save this file to (default: the session's download directory)" },
+          timeout: { type: "number", description: "How long to wait for the download to start in milliseconds (default: 30000)" },
+          frame: frameProperty,
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_list_downloads",
+      description: "List the files a session has downloaded, including downloads started by links or scripts",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_list_frames",
+      description: "List the frames of the page as a tree with their names and URLs, for use as the frame parameter of other tools",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_list_devices",
+      description: "List the device profiles that playwright_navigate and playwright_create_session can emulate with their viewport, scale factor and default browser",
+      inputSchema: {
+        type: "object",
+        properties: {
+          filter: { type: "string", description: "Only list devices whose name contains this text, e.g. 'iPhone' or 'Pixel'" }
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_set_viewport",
+      description: "Resize the viewport of the current page without relaunching the browser",
+      inputSchema: {
+        type: "object",
+        properties: {
+          width: { type: "number", description: "Viewport width in pixels" },
+          height: { type: "number", description: "Viewport height in pixels" },
+          sessionId: sessionIdProperty
+        },
+        required: ["width", "height"],
+      },
+    },
+    {
+      name: "playwright_emulate_media",
+      description: "Emulate the CSS media type and media features of the current page, e.g. print styles or dark mode. Use 'reset' to stop emulating a value",
+      inputSchema: {
+        type: "object",
+        properties: {
+          media: { type: "string", enum: ["screen", "print", "reset"], description: "CSS media type" },
+          colorScheme: { type: "string", enum: ["light", "dark", "no-preference", "reset"], description: "Value of the prefers-color-scheme media feature" },
+          reducedMotion: { type: "string", enum: ["reduce", "no-preference", "reset"], description: "Value of the prefers-reduced-motion media feature" },
+          forcedColors: { type: "string", enum: ["active", "none", "reset"], description: "Value of the forced-colors media feature" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_set_geolocation",
+      description: "Change the position reported by the geolocation API for every page of the session and grant the geolocation permission",
+      inputSchema: {
+        type: "object",
+        properties: {
+          latitude: { type: "number", description: "Latitude between -90 and 90" },
+          longitude: { type: "number", description: "Longitude between -180 and 180" },
+          accuracy: { type: "number", description: "Accuracy in meters (default: 0)" },
+          grant: { type: "boolean", description: "Grant the geolocation permission (default: true)" },
+          origin: { type: "string", description: "Only grant the permission to this origin, e.g. 'https://example.com'" },
+          clear: { type: "boolean", description: "Clear the position instead, so the geolocation API reports it as unavailable" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_grant_permissions",
+      description: "Grant browser permissions such as geolocation, notifications, camera, microphone or clipboard-read to the session, or clear all granted permissions",
+      inputSchema: {
+        type: "object",
+        properties: {
+          permissions: {
+            type: "array",
+            items: { type: "string" },
+            description: "Permissions to grant, e.g. ['notifications', 'clipboard-read', 'clipboard-write']"
+          },
+          origin: { type: "string", description: "Only grant the permissions to this origin, e.g. 'https://example.com'" },
+          clear: { type: "boolean", description: "Clear all granted permissions instead" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_set_offline",
+      description: "Take the session offline so requests fail with a network error, or bring it back online",
+      inputSchema: {
+        type: "object",
+        properties: {
+          offline: { type: "boolean", description: "Whether the network is offline" },
+          sessionId: sessionIdProperty
+        },
+        required: ["offline"],
+      },
+    },
+    {
+      name: "playwright_set_extra_headers",
+      description: "Send extra HTTP headers with every request of the session or the current page. Replaces headers set before; pass an empty object to clear them",
+      inputSchema: {
+        type: "object",
+        properties: {
+          headers: {
+            type: "object",
+            additionalProperties: { type: "string" },
+            description: "Header names and values, e.g. { \"Authorization\": \"Bearer token\" }"
+          },
+          scope: { type: "string", enum: ["context", "page"], description: "Send the headers with requests of every page of the session or only the current page (default: context)" },
+          sessionId: sessionIdProperty
+        },
+        required: ["headers"],
+      },
+    },
+    {
+      name: "playwright_throttle",
+      description: "Throttle the network and CPU of the current session (every tab, including tabs opened later) to check behavior on slow connections and low-end devices. Uses the Chrome DevTools Protocol on Chromium; Firefox and WebKit only support latency (delayed through a route) and offline mode",
+      inputSchema: {
+        type: "object",
+        properties: {
+          preset: { type: "string", enum: ["slow-3g", "fast-3g", "offline", "none"], description: "Network preset as in Chrome DevTools; 'none' removes network and CPU throttling" },
+          latency: { type: "number", description: "Added round-trip latency in milliseconds (overrides the preset)" },
+          downloadKbps: { type: "number", description: "Download throughput in kilobits per second (overrides the preset, Chromium only)" },
+          uploadKbps: { type: "number", description: "Upload throughput in kilobits per second (overrides the preset, Chromium only)" },
+          cpuRate: { type: "number", description: "CPU slowdown factor, e.g. 4 for a mid-tier or 6 for a low-end mobile device; 1 means no slowdown (Chromium only)" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_performance_metrics",
+      description: "Measure the performance of the current page: navigation timing (TTFB, FCP, DOMContentLoaded, load), Web Vitals (LCP, CLS, INP, FID, TBT), requests and transfer size by resource type, and on Chromium runtime metrics such as JS heap size and layout count. Interact with the page first to measure INP. With a budget, reports which metrics are over their limit",
+      inputSchema: {
+        type: "object",
+        properties: {
+          budget: {
+            type: "object",
+            additionalProperties: { type: "number" },
+            description: "Maximum values by metric name, e.g. { \"lcp\": 2500, \"cls\": 0.1, \"tbt\": 200, \"requests\": 60, \"scriptTransferSize\": 300000 }. Names: ttfb, fcp, domContentLoaded, load, transferSize, lcp, cls, inp, fid, tbt, requests, resourceTransferSize, <type>Requests and <type>TransferSize per resource type (script, img, css, fetch, ...), and Chromium metrics such as JSHeapUsedSize or LayoutCount. Times in ms, sizes in bytes"
+          },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_start_tracing",
+      description: "Start recording a Playwright trace of the current session with screenshots, DOM snapshots and sources, to debug a run step by step in Trace Viewer. Stop it with playwright_stop_tracing; traces still recording are also saved when the session, the browser or the codegen session ends",
+      inputSchema: {
+        type: "object",
+        properties: {
+          screenshots: { type: "boolean", description: "Record screenshots while the page changes (default: true)" },
+          snapshots: { type: "boolean", description: "Record a DOM snapshot for every action (default: true)" },
+          sources: { type: "boolean", description: "Include source files of the actions (default: true)" },
+          title: { type: "string", description: "Title shown in Trace Viewer" },
+          path: { type: "string", description: "Path of the trace zip file (default: trace-<sessionId>-<timestamp>.zip in the Downloads folder)" },
+          autoStart: { type: "boolean", description: "Also start tracing every session created from now on with the same options (default: false)" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_stop_tracing",
+      description: "Stop the trace of the current session and save it as a zip file viewable with npx playwright show-trace or at trace.playwright.dev",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "Path of the trace zip file (overrides the path given when tracing started)" },
+          stopAutoStart: { type: "boolean", description: "Also stop tracing new sessions automatically (default: false)" },
+          sessionId: sessionIdProperty
+        },
+        required: [],
       },
     },
   ] as const satisfies Tool[];
@@ -461,6 +1513,9 @@ export const BROWSER_TOOLS = [
   "playwright_navigate",
   "playwright_screenshot",
   "playwright_click",
+  "playwright_dblclick",
+  "playwright_check",
+  "playwright_uncheck",
   "playwright_iframe_click",
   "playwright_iframe_fill",
   "playwright_fill",
@@ -479,7 +1534,50 @@ export const BROWSER_TOOLS = [
   "playwright_drag",
   "playwright_press_key",
   "playwright_save_as_pdf",
-  "playwright_click_and_switch_tab"
+  "playwright_click_and_switch_tab",
+  "playwright_list_tabs",
+  "playwright_new_tab",
+  "playwright_switch_tab",
+  "playwright_close_tab",
+  "playwright_save_storage_state",
+  "playwright_load_storage_state",
+  "playwright_get_cookies",
+  "playwright_set_cookies",
+  "playwright_clear_cookies",
+  "playwright_get_storage",
+  "playwright_set_storage",
+  "playwright_network_log",
+  "playwright_export_har",
+  "playwright_route",
+  "playwright_unroute",
+  "playwright_list_routes",
+  "playwright_route_from_har",
+  "playwright_snapshot",
+  "playwright_expect",
+  "playwright_wait_for",
+  "playwright_type",
+  "playwright_keyboard",
+  "playwright_select_text",
+  "playwright_mouse",
+  "playwright_touch",
+  "playwright_scroll",
+  "playwright_scroll_until",
+  "playwright_dialog_policy",
+  "playwright_handle_dialog",
+  "playwright_dialog_log",
+  "playwright_click_and_download",
+  "playwright_list_downloads",
+  "playwright_list_frames",
+  "playwright_set_viewport",
+  "playwright_emulate_media",
+  "playwright_set_geolocation",
+  "playwright_grant_permissions",
+  "playwright_set_offline",
+  "playwright_set_extra_headers",
+  "playwright_throttle",
+  "playwright_performance_metrics",
+  "playwright_start_tracing",
+  "playwright_stop_tracing"
 ];
 
 // API Request tools for conditional launch
@@ -491,6 +1589,18 @@ export const API_TOOLS = [
   "playwright_patch"
 ];
 
+// Session management tools (they launch or close browser contexts themselves)
+export const SESSION_TOOLS = [
+  "playwright_create_session",
+  "playwright_list_sessions",
+  "playwright_destroy_session"
+];
+
+// Tools that only read Playwright's registries and need no browser
+export const INFO_TOOLS = [
+  "playwright_list_devices"
+];
+
 // Codegen tools
 export const CODEGEN_TOOLS = [
   'start_codegen_session',
@@ -503,5 +1613,7 @@ export const CODEGEN_TOOLS = [
 export const tools = [
   ...BROWSER_TOOLS,
   ...API_TOOLS,
+  ...SESSION_TOOLS,
+  ...INFO_TOOLS,
   ...CODEGEN_TOOLS
 ];
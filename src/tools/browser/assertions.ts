@@ -0,0 +1,185 @@
+import type { Locator, Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+// Assertions on the page itself; all others need a target element
+const PAGE_ASSERTIONS = ['toHaveURL', 'toHaveTitle'];
+
+export const ASSERTIONS = [
+  'toBeVisible',
+  'toBeHidden',
+  'toHaveText',
+  'toContainText',
+  'toHaveValue',
+  'toHaveAttribute',
+  'toHaveCount',
+  'toHaveURL',
+  'toHaveTitle',
+  'toBeChecked',
+  'toBeEnabled',
+] as const;
+
+export type Assertion = typeof ASSERTIONS[number];
+
+// Same back-off Playwright uses for web-first assertions
+const POLL_INTERVALS = [100, 250, 500, 1000];
+const DEFAULT_TIMEOUT = 5000;
+
+interface ExpectArgs {
+  assertion: Assertion;
+  expected?: string | number;
+  regex?: boolean;
+  attribute?: string;
+  not?: boolean;
+  timeout?: number;
+}
+
+interface CheckResult {
+  pass: boolean;
+  actual: unknown;
+}
+
+/**
+ * Collapses whitespace the way Playwright's text assertions do
+ */
+function normalizeText(text: string | null): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Compares an actual string against the expected string or regular expression
+ */
+function matchesExpected(actual: string | null, args: ExpectArgs, mode: 'equal' | 'contain' = 'equal'): boolean {
+  if (actual === null) {
+    return false;
+  }
+  if (args.regex) {
+    return new RegExp(String(args.expected)).test(actual);
+  }
+  const expected = String(args.expected ?? '');
+  return mode === 'contain' ? actual.includes(expected) : actual === expected;
+}
+
+/**
+ * Evaluates an assertion once and reports the actual value
+ */
+async function checkOnce(page: Page, locator: Locator | null, args: ExpectArgs, timeout: number): Promise<CheckResult> {
+  switch (args.assertion) {
+    case 'toHaveURL': {
+      const actual = page.url();
+      return { pass: matchesExpected(actual, args), actual };
+    }
+    case 'toHaveTitle': {
+      const actual = await page.title();
+      return { pass: matchesExpected(actual, args), actual };
+    }
+    case 'toHaveCount': {
+      const actual = await locator!.count();
+      return { pass: actual === Number(args.expected), actual };
+    }
+    case 'toBeVisible': {
+      const actual = await locator!.isVisible();
+      return { pass: actual, actual: actual ? 'visible' : 'hidden' };
+    }
+    case 'toBeHidden': {
+      const visible = await locator!.isVisible();
+      return { pass: !visible, actual: visible ? 'visible' : 'hidden' };
+    }
+  }
+
+  // The remaining assertions need the element to exist
+  if (await locator!.count() === 0) {
+    return { pass: false, actual: '<element not found>' };
+  }
+  switch (args.assertion) {
+    case 'toHaveText': {
+      const actual = normalizeText(await locator!.textContent({ timeout }));
+      return { pass: matchesExpected(actual, args), actual };
+    }
+    case 'toContainText': {
+      const actual = normalizeText(await locator!.textContent({ timeout }));
+      return { pass: matchesExpected(actual, args, 'contain'), actual };
+    }
+    case 'toHaveValue': {
+      const actual = await locator!.inputValue({ timeout });
+      return { pass: matchesExpected(actual, args), actual };
+    }
+    case 'toHaveAttribute': {
+      const actual = await locator!.getAttribute(args.attribute!, { timeout });
+      // Without an expected value the assertion only checks that the attribute is present
+      const pass = args.expected === undefined ? actual !== null : matchesExpected(actual, args);
+      return { pass, actual: actual ?? '<attribute not present>' };
+    }
+    case 'toBeChecked': {
+      const actual = await locator!.isChecked({ timeout });
+      return { pass: actual, actual: actual ? 'checked' : 'unchecked' };
+    }
+    case 'toBeEnabled': {
+      const actual = await locator!.isEnabled({ timeout });
+      return { pass: actual, actual: actual ? 'enabled' : 'disabled' };
+    }
+  }
+  throw new Error(`Unsupported assertion: ${args.assertion}`);
+}
+
+/**
+ * Tool for web-first assertions that retry until they pass or time out
+ */
+export class ExpectTool extends BrowserToolBase {
+  /**
+   * Execute the expect tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!ASSERTIONS.includes(args.assertion)) {
+        return createErrorResponse(`Invalid assertion: ${args.assertion}. Use one of ${ASSERTIONS.join(', ')}`);
+      }
+      const needsExpected = ['toHaveText', 'toContainText', 'toHaveValue', 'toHaveCount', 'toHaveURL', 'toHaveTitle'];
+      if (needsExpected.includes(args.assertion) && args.expected === undefined) {
+        return createErrorResponse(`Missing required parameter: expected must be provided for ${args.assertion}`);
+      }
+      if (args.assertion === 'toHaveAttribute' && !args.attribute) {
+        return createErrorResponse("Missing required parameter: attribute must be provided for toHaveAttribute");
+      }
+
+      const isPageAssertion = PAGE_ASSERTIONS.includes(args.assertion);
+      const locator = isPageAssertion ? null : await this.resolveLocator(page, args, args.assertion === 'toHaveCount');
+      const subject = isPageAssertion ? 'page' : this.describeTarget(args);
+      const expectedText = args.expected === undefined ? '' : args.regex ? `/${args.expected}/` : JSON.stringify(args.expected);
+      const description = `expect(${subject})${args.not ? '.not' : ''}.${args.assertion}(${[
+        args.attribute ? JSON.stringify(args.attribute) : '',
+        expectedText
+      ].filter(Boolean).join(', ')})`;
+
+      const timeout = args.timeout ?? DEFAULT_TIMEOUT;
+      const deadline = Date.now() + timeout;
+      let attempt = 0;
+      let result: CheckResult;
+      while (true) {
+        try {
+          result = await checkOnce(page, locator, args, Math.max(deadline - Date.now(), 1));
+        } catch (error) {
+          result = { pass: false, actual: `<error: ${(error as Error).message.split('\n')[0]}>` };
+        }
+
+        if (result.pass !== !!args.not) {
+          return createSuccessResponse([
+            `Passed: ${description}`,
+            `Actual: ${JSON.stringify(result.actual)}`
+          ]);
+        }
+        if (Date.now() >= deadline) {
+          break;
+        }
+        const interval = POLL_INTERVALS[Math.min(attempt++, POLL_INTERVALS.length - 1)];
+        await new Promise(resolve => setTimeout(resolve, Math.min(interval, Math.max(deadline - Date.now(), 0))));
+      }
+
+      return createErrorResponse([
+        `Failed: ${description}`,
+        `Actual: ${JSON.stringify(result.actual)}`,
+        `Timed out after ${timeout}ms`
+      ].join('\n'));
+    });
+  }
+}
@@ -1,5 +1,19 @@
-import type { Browser, Page } from 'playwright';
-import { ToolHandler, ToolContext, ToolResponse, createErrorResponse } from '../common/types.js';
+import type { Browser, Frame, Locator, Page } from 'playwright';
+import { ToolHandler, ToolContext, ToolResponse, createErrorResponse, createSuccessResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+import { refToSelector } from '../common/refs.js';
+import { waitForQueuedDialog } from '../common/dialogEvents.js';
+import { LocatorDescriptor, buildLocator, locatorToCode } from '../common/locator.js';
+import { FrameRoot, FrameTarget, describeFrame, resolveFrameRoot, toFrame } from '../common/frames.js';
+
+/**
+ * Arguments tools use to point at an element
+ */
+interface TargetArgs {
+  locator?: LocatorDescriptor;
+  selector?: string;
+  ref?: string;
+  frame?: FrameTarget;
+}
 
 /**
  * Base class for all browser-based tools
@@ -41,6 +55,95 @@ export abstract class BrowserToolBase implements ToolHandler {
     return null;
   }
 
+  /**
+   * Resolves the element a tool should act on to a selector.
+   * Accepts either a CSS selector or a ref from playwright_snapshot.
+   * @param args The tool arguments
+   * @returns The selector to pass to Playwright
+   */
+  protected resolveSelector(args: { selector?: string; ref?: string }): string {
+    if (args.ref) {
+      return refToSelector(args.ref);
+    }
+    if (args.selector) {
+      return args.selector;
+    }
+    throw new Error("Missing required parameter: selector, ref or locator must be provided");
+  }
+
+  /**
+   * Resolves the frame a tool should work in to the root its locators are built from.
+   * @param page The page the tool works on
+   * @param args The tool arguments
+   * @returns The page itself when no frame is given
+   */
+  protected resolveFrameRoot(page: Page, args: { frame?: FrameTarget }): Promise<FrameRoot> {
+    return resolveFrameRoot(page, args.frame);
+  }
+
+  /**
+   * Resolves the frame a tool should work in, for tools that evaluate scripts or read the document
+   * @param page The page the tool works on
+   * @param args The tool arguments
+   * @returns The page itself when no frame is given
+   */
+  protected async resolveFrame(page: Page, args: { frame?: FrameTarget }): Promise<Page | Frame> {
+    return toFrame(await this.resolveFrameRoot(page, args));
+  }
+
+  /**
+   * Resolves the element a tool should act on to a Playwright locator.
+   * Accepts a locator descriptor, a ref from playwright_snapshot or a CSS selector,
+   * searched in the frame given by the frame argument.
+   * A CSS selector acts on its first match, like page.click(selector) and friends, while
+   * locator descriptors are strict like Playwright locators.
+   * @param page The page to search in
+   * @param args The tool arguments
+   * @param all Whether to keep every match of a CSS selector, e.g. to count them
+   * @returns The locator of the target element
+   */
+  protected async resolveLocator(page: Page, args: TargetArgs, all = false): Promise<Locator> {
+    const root = await this.resolveFrameRoot(page, args);
+    if (args.locator) {
+      return buildLocator(root, args.locator);
+    }
+    const locator = root.locator(this.resolveSelector(args));
+    return args.ref || all ? locator : locator.first();
+  }
+
+  /**
+   * Describes the element a tool acted on, for tool responses
+   * @param args The tool arguments
+   */
+  protected describeTarget(args: TargetArgs): string {
+    const target = args.locator
+      ? locatorToCode(args.locator)
+      : args.ref ? `ref ${args.ref}` : this.resolveSelector(args);
+    return args.frame ? `${target} in frame ${describeFrame(args.frame)}` : target;
+  }
+
+  /**
+   * Settles with the operation, or as soon as the operation opens a dialog the 'queue' policy holds back.
+   * The blocked operation keeps running and finishes once the dialog is answered with playwright_handle_dialog.
+   */
+  private async returnOnQueuedDialog(sessionId: string, result: Promise<ToolResponse>): Promise<ToolResponse> {
+    const queued = waitForQueuedDialog(sessionId);
+    try {
+      return await Promise.race([
+        result,
+        queued.dialog.then(entry => {
+          result.catch(error => console.error(`Operation blocked by ${entry.id} failed: ${(error as Error).message}`));
+          return createSuccessResponse([
+            `Opened a ${entry.type} dialog: ${JSON.stringify(entry.message)}`,
+            `Dialog ${entry.id} blocks the page until it is answered with playwright_handle_dialog`
+          ]);
+        })
+      ]);
+    } finally {
+      queued.cancel();
+    }
+  }
+
   /**
    * Safely executes a browser operation with proper error handling
    * @param context The tool context
@@ -68,7 +171,7 @@ export abstract class BrowserToolBase implements ToolHandler {
         return createErrorResponse("Page is closed. Please retry the operation.");
       }
 
-      return await operation(context.page!);
+      return await this.returnOnQueuedDialog(context.sessionId ?? DEFAULT_SESSION_ID, operation(context.page!));
     } catch (error) {
       const errorMessage = (error as Error).message;
       
@@ -1,20 +1,22 @@
 import { BrowserToolBase } from './base.js';
-import { ToolContext, ToolResponse, createSuccessResponse } from '../common/types.js';
+import { ToolContext, ToolResponse, createSuccessResponse, DEFAULT_SESSION_ID } from '../common/types.js';
 
 /**
  * Tool for retrieving and filtering console logs from the browser
  */
 export class ConsoleLogsTool extends BrowserToolBase {
-  private consoleLogs: string[] = [];
+  // Console logs keyed by session ID
+  private consoleLogs = new Map<string, string[]>();
 
   /**
    * Register a console message
    * @param type The type of console message
    * @param text The text content of the message
+   * @param sessionId The session the message was logged in
    */
-  registerConsoleMessage(type: string, text: string): void {
+  registerConsoleMessage(type: string, text: string, sessionId: string = DEFAULT_SESSION_ID): void {
     const logEntry = `[${type}] ${text}`;
-    this.consoleLogs.push(logEntry);
+    this.getConsoleLogs(sessionId).push(logEntry);
   }
 
   /**
@@ -24,7 +26,8 @@ export class ConsoleLogsTool extends BrowserToolBase {
     // No need to use safeExecute here as we don't need to interact with the page
     // We're just filtering and returning logs that are already stored
     
-    let logs = [...this.consoleLogs];
+    const sessionId = context.sessionId ?? DEFAULT_SESSION_ID;
+    let logs = [...this.getConsoleLogs(sessionId)];
     
     // Filter by type if specified
     if (args.type && args.type !== 'all') {
@@ -43,7 +46,7 @@ export class ConsoleLogsTool extends BrowserToolBase {
     
     // Clear logs if requested
     if (args.clear) {
-      this.consoleLogs = [];
+      this.clearConsoleLogs(sessionId);
     }
     
     // Format the response
@@ -58,16 +61,25 @@ export class ConsoleLogsTool extends BrowserToolBase {
   }
 
   /**
-   * Get all console logs
+   * Get all console logs of a session
    */
-  getConsoleLogs(): string[] {
-    return this.consoleLogs;
+  getConsoleLogs(sessionId: string = DEFAULT_SESSION_ID): string[] {
+    let logs = this.consoleLogs.get(sessionId);
+    if (!logs) {
+      logs = [];
+      this.consoleLogs.set(sessionId, logs);
+    }
+    return logs;
   }
 
   /**
-   * Clear all console logs
+   * Clear all console logs of a session, or of every session when no ID is given
    */
-  clearConsoleLogs(): void {
-    this.consoleLogs = [];
+  clearConsoleLogs(sessionId?: string): void {
+    if (sessionId === undefined) {
+      this.consoleLogs.clear();
+    } else {
+      this.consoleLogs.delete(sessionId);
+    }
   }
 } 
\ No newline at end of file
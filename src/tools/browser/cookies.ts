@@ -0,0 +1,108 @@
+import type { Cookie } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+/**
+ * Checks whether a cookie domain belongs to the requested domain.
+ * "example.com" matches "example.com", ".example.com" and "app.example.com".
+ */
+function matchesDomain(cookieDomain: string, domain: string): boolean {
+  const normalizedCookie = cookieDomain.replace(/^\./, '').toLowerCase();
+  const normalizedDomain = domain.replace(/^\./, '').toLowerCase();
+  return normalizedCookie === normalizedDomain || normalizedCookie.endsWith(`.${normalizedDomain}`);
+}
+
+/**
+ * Tool for reading cookies of the current browser context
+ */
+export class GetCookiesTool extends BrowserToolBase {
+  /**
+   * Execute the get cookies tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      let cookies: Cookie[] = await page.context().cookies(args.urls);
+
+      if (args.domain) {
+        cookies = cookies.filter(cookie => matchesDomain(cookie.domain, args.domain));
+      }
+      if (args.name) {
+        cookies = cookies.filter(cookie => cookie.name === args.name);
+      }
+
+      if (cookies.length === 0) {
+        return createSuccessResponse("No cookies matching the criteria");
+      }
+
+      return createSuccessResponse([
+        `Retrieved ${cookies.length} cookie(s):`,
+        JSON.stringify(cookies, null, 2)
+      ]);
+    });
+  }
+}
+
+/**
+ * Tool for adding cookies to the current browser context
+ */
+export class SetCookiesTool extends BrowserToolBase {
+  /**
+   * Execute the set cookies tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!Array.isArray(args.cookies) || args.cookies.length === 0) {
+        return createErrorResponse("Missing required parameter: cookies must be a non-empty array");
+      }
+
+      const cookies = [];
+      for (const cookie of args.cookies) {
+        if (!cookie.name || cookie.value === undefined) {
+          return createErrorResponse(`Each cookie needs a name and a value: ${JSON.stringify(cookie)}`);
+        }
+        // Playwright needs either a URL or a domain + path for every cookie
+        if (!cookie.url && !cookie.domain) {
+          cookies.push({ ...cookie, url: page.url() });
+        } else if (cookie.domain && !cookie.path) {
+          cookies.push({ ...cookie, path: '/' });
+        } else {
+          cookies.push(cookie);
+        }
+      }
+
+      await page.context().addCookies(cookies);
+      return createSuccessResponse(`Set ${cookies.length} cookie(s): ${cookies.map(cookie => cookie.name).join(', ')}`);
+    });
+  }
+}
+
+/**
+ * Tool for removing cookies from the current browser context
+ */
+export class ClearCookiesTool extends BrowserToolBase {
+  /**
+   * Execute the clear cookies tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const browserContext = page.context();
+      const before = await browserContext.cookies();
+
+      if (!args.name && !args.domain) {
+        await browserContext.clearCookies();
+        return createSuccessResponse(`Cleared all ${before.length} cookie(s)`);
+      }
+
+      // Clear each matching cookie so domain filtering also covers subdomains
+      const matching = before.filter(cookie =>
+        (!args.name || cookie.name === args.name) &&
+        (!args.domain || matchesDomain(cookie.domain, args.domain))
+      );
+      for (const cookie of matching) {
+        await browserContext.clearCookies({ name: cookie.name, domain: cookie.domain, path: cookie.path });
+      }
+
+      return createSuccessResponse(`Cleared ${matching.length} cookie(s)`);
+    });
+  }
+}
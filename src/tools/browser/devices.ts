@@ -0,0 +1,141 @@
+import { devices } from 'playwright';
+import type { BrowserContextOptions } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse } from '../common/types.js';
+
+/**
+ * Device and environment emulation requested by playwright_navigate or playwright_create_session
+ */
+export interface EmulationSettings {
+  // Name from Playwright's devices registry, e.g. "iPhone 13"
+  device?: string;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  deviceScaleFactor?: number;
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  reducedMotion?: 'reduce' | 'no-preference';
+  locale?: string;
+  timezoneId?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+}
+
+// Options copied from the settings to the context as they are
+const EMULATION_OPTIONS = ['isMobile', 'hasTouch', 'deviceScaleFactor', 'colorScheme', 'reducedMotion', 'locale', 'timezoneId'] as const;
+
+/**
+ * Viewport and scale a context starts from when no device is emulated
+ */
+export interface ScreenOptions {
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+}
+
+// Screen of a new context that emulates no device
+export const DEFAULT_SCREEN: ScreenOptions = { viewport: { width: 1280, height: 720 }, deviceScaleFactor: 1 };
+
+// Context options a device or the emulation settings can change
+const EMULATED_CONTEXT_OPTIONS = [
+  'userAgent', 'viewport', 'screen', 'geolocation', 'permissions', ...EMULATION_OPTIONS
+] as const;
+
+/**
+ * Picks the emulation settings from tool arguments
+ */
+export function pickEmulationSettings(args: any): EmulationSettings | undefined {
+  const settings: EmulationSettings = {};
+  for (const key of ['device', 'geolocation', ...EMULATION_OPTIONS] as const) {
+    if (args[key] !== undefined) {
+      Object.assign(settings, { [key]: args[key] });
+    }
+  }
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * Looks up a device in Playwright's registry, ignoring case
+ * @throws If there is no device of that name
+ */
+export function findDevice(name: string): { name: string; descriptor: (typeof devices)[string] } {
+  const match = Object.keys(devices).find(deviceName => deviceName.toLowerCase() === name.toLowerCase());
+  if (!match) {
+    const suggestions = Object.keys(devices)
+      .filter(deviceName => deviceName.toLowerCase().includes(name.toLowerCase().split(' ')[0]))
+      .slice(0, 5);
+    throw new Error(`Unknown device: ${name}.${suggestions.length > 0 ? ` Did you mean ${suggestions.map(s => `'${s}'`).join(', ')}?` : ''} Use playwright_list_devices to see all devices`);
+  }
+  return { name: match, descriptor: devices[match] };
+}
+
+/**
+ * Builds the context options for a session from its viewport and emulation settings.
+ * A device's options, or else the given screen, come first; an explicit viewport and emulation options override them.
+ */
+export function buildEmulationOptions(
+  viewport: { width?: number; height?: number } | undefined,
+  emulation: EmulationSettings | undefined,
+  screen: ScreenOptions = DEFAULT_SCREEN
+): BrowserContextOptions {
+  let options: BrowserContextOptions = { ...screen };
+  if (emulation?.device) {
+    // defaultBrowserType is not a context option; the session keeps the browser it runs in
+    const { defaultBrowserType, ...descriptor } = findDevice(emulation.device).descriptor;
+    options = { ...descriptor };
+  }
+  if (viewport?.width || viewport?.height) {
+    options.viewport = {
+      width: viewport.width ?? options.viewport!.width,
+      height: viewport.height ?? options.viewport!.height,
+    };
+  }
+  for (const key of EMULATION_OPTIONS) {
+    if (emulation?.[key] !== undefined) {
+      Object.assign(options, { [key]: emulation[key] });
+    }
+  }
+  if (emulation?.geolocation) {
+    options.geolocation = emulation.geolocation;
+    options.permissions = ['geolocation'];
+  }
+  return options;
+}
+
+/**
+ * Checks whether context options already emulate what the new options ask for
+ */
+export function emulationMatches(current: BrowserContextOptions, requested: BrowserContextOptions): boolean {
+  return EMULATED_CONTEXT_OPTIONS.every(key =>
+    requested[key] === undefined || JSON.stringify(current[key]) === JSON.stringify(requested[key])
+  );
+}
+
+/**
+ * Describes a device for tool responses, e.g. iPhone 13: 390x664 @3x, mobile, touch (webkit)
+ */
+function describeDevice(name: string, descriptor: (typeof devices)[string]): string {
+  const traits = [
+    `${descriptor.viewport.width}x${descriptor.viewport.height} @${descriptor.deviceScaleFactor}x`,
+    ...(descriptor.isMobile ? ['mobile'] : []),
+    ...(descriptor.hasTouch ? ['touch'] : []),
+  ];
+  return `${name}: ${traits.join(', ')} (${descriptor.defaultBrowserType})`;
+}
+
+/**
+ * Tool for listing the device profiles playwright_navigate can emulate
+ */
+export class ListDevicesTool extends BrowserToolBase {
+  /**
+   * Execute the list devices tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const filter = args.filter ? String(args.filter).toLowerCase() : undefined;
+    const names = Object.keys(devices).filter(name => !filter || name.toLowerCase().includes(filter));
+    if (names.length === 0) {
+      return createSuccessResponse(`No devices match '${args.filter}'`);
+    }
+    return createSuccessResponse([
+      `${names.length} device(s):`,
+      ...names.map(name => describeDevice(name, devices[name]))
+    ]);
+  }
+}
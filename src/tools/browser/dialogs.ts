@@ -0,0 +1,224 @@
+import type { Dialog, Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+import { notifyDialogQueued } from '../common/dialogEvents.js';
+
+// Oldest entries are dropped once a session's dialog log grows past this size
+export const MAX_DIALOG_ENTRIES = 100;
+
+/**
+ * How a session answers native dialogs (alert, confirm, prompt, beforeunload)
+ */
+export interface DialogPolicy {
+  action: 'accept' | 'dismiss' | 'queue';
+  // Text entered into prompt dialogs when accepting
+  promptText?: string;
+}
+
+/**
+ * A dialog seen by a session
+ */
+export interface DialogEntry {
+  id: string;
+  type: string;
+  message: string;
+  defaultValue?: string;
+  url: string;
+  openedAt: number;
+  status: 'pending' | 'accepted' | 'dismissed';
+  promptText?: string;
+}
+
+// Same behavior as Playwright without a dialog handler
+const DEFAULT_POLICY: DialogPolicy = { action: 'dismiss' };
+
+// Policies, dialog logs and dialogs waiting for playwright_handle_dialog, keyed by session ID
+const dialogPolicies = new Map<string, DialogPolicy>();
+const dialogLogs = new Map<string, DialogEntry[]>();
+const pendingDialogs = new Map<string, { entry: DialogEntry; dialog: Dialog }[]>();
+let dialogCounter = 0;
+
+/**
+ * Gets the dialog policy of a session
+ */
+export function getDialogPolicy(sessionId: string = DEFAULT_SESSION_ID): DialogPolicy {
+  return dialogPolicies.get(sessionId) ?? DEFAULT_POLICY;
+}
+
+/**
+ * Gets the dialogs a session has seen, oldest first
+ */
+export function getDialogLog(sessionId: string = DEFAULT_SESSION_ID): DialogEntry[] {
+  let entries = dialogLogs.get(sessionId);
+  if (!entries) {
+    entries = [];
+    dialogLogs.set(sessionId, entries);
+  }
+  return entries;
+}
+
+/**
+ * Forgets the dialog policy, log and pending dialogs of a session, or of every session when no ID is given
+ */
+export function clearDialogs(sessionId?: string): void {
+  if (sessionId === undefined) {
+    dialogPolicies.clear();
+    dialogLogs.clear();
+    pendingDialogs.clear();
+  } else {
+    dialogPolicies.delete(sessionId);
+    dialogLogs.delete(sessionId);
+    pendingDialogs.delete(sessionId);
+  }
+}
+
+/**
+ * Answers a dialog and records the outcome
+ */
+async function resolveDialog(dialog: Dialog, entry: DialogEntry, accept: boolean, promptText?: string): Promise<void> {
+  if (accept) {
+    await dialog.accept(promptText);
+    entry.status = 'accepted';
+    if (promptText !== undefined) {
+      entry.promptText = promptText;
+    }
+  } else {
+    await dialog.dismiss();
+    entry.status = 'dismissed';
+  }
+}
+
+/**
+ * Attaches a dialog listener to a page that answers dialogs according to the session's policy
+ * @param page The page to listen on
+ * @param sessionId The session the page belongs to
+ */
+export function registerDialogListener(page: Page, sessionId: string = DEFAULT_SESSION_ID): void {
+  page.on('dialog', async (dialog) => {
+    const entry: DialogEntry = {
+      id: `dialog-${++dialogCounter}`,
+      type: dialog.type(),
+      message: dialog.message(),
+      ...(dialog.defaultValue() && { defaultValue: dialog.defaultValue() }),
+      url: page.url(),
+      openedAt: Date.now(),
+      status: 'pending',
+    };
+    const entries = getDialogLog(sessionId);
+    entries.push(entry);
+    if (entries.length > MAX_DIALOG_ENTRIES) {
+      entries.splice(0, entries.length - MAX_DIALOG_ENTRIES);
+    }
+
+    const policy = getDialogPolicy(sessionId);
+    if (policy.action === 'queue') {
+      // The page stays blocked until the dialog is answered with playwright_handle_dialog,
+      // so the tool call that opened it returns instead of waiting on the page
+      const queue = pendingDialogs.get(sessionId) ?? [];
+      queue.push({ entry, dialog });
+      pendingDialogs.set(sessionId, queue);
+      notifyDialogQueued(sessionId, entry);
+      return;
+    }
+
+    try {
+      await resolveDialog(dialog, entry, policy.action === 'accept', policy.promptText);
+    } catch (error) {
+      // The page may have closed before the dialog was answered
+      console.error(`Failed to handle dialog: ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Formats a dialog entry as a single log line
+ */
+export function formatDialogEntry(entry: DialogEntry): string {
+  const outcome = entry.status === 'accepted' && entry.promptText !== undefined
+    ? `accepted with ${JSON.stringify(entry.promptText)}`
+    : entry.status;
+  return `[${entry.id}] ${entry.type} ${JSON.stringify(entry.message)} on ${entry.url} -> ${outcome}`;
+}
+
+/**
+ * Tool for setting how a session answers native dialogs
+ */
+export class DialogPolicyTool extends BrowserToolBase {
+  /**
+   * Execute the dialog policy tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!['accept', 'dismiss', 'queue'].includes(args.action)) {
+      return createErrorResponse(`Invalid action: ${args.action}. Use 'accept', 'dismiss' or 'queue'`);
+    }
+
+    const policy: DialogPolicy = {
+      action: args.action,
+      ...(args.action === 'accept' && args.promptText !== undefined && { promptText: String(args.promptText) }),
+    };
+    dialogPolicies.set(context.sessionId ?? DEFAULT_SESSION_ID, policy);
+
+    const description = policy.action === 'queue'
+      ? 'queue dialogs until they are answered with playwright_handle_dialog'
+      : policy.promptText !== undefined
+        ? `accept dialogs with prompt text ${JSON.stringify(policy.promptText)}`
+        : `${policy.action} dialogs`;
+    return createSuccessResponse(`Dialog policy set: ${description}`);
+  }
+}
+
+/**
+ * Tool for answering a dialog queued by the 'queue' dialog policy
+ */
+export class HandleDialogTool extends BrowserToolBase {
+  /**
+   * Execute the handle dialog tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const queue = pendingDialogs.get(context.sessionId ?? DEFAULT_SESSION_ID) ?? [];
+    if (queue.length === 0) {
+      return createErrorResponse("No dialog is waiting to be handled. Set the dialog policy to 'queue' to handle dialogs manually");
+    }
+
+    // Oldest dialog first unless a specific one is requested
+    const index = args.dialogId ? queue.findIndex(pending => pending.entry.id === args.dialogId) : 0;
+    if (index === -1) {
+      return createErrorResponse(`Dialog not found or already handled: ${args.dialogId}`);
+    }
+    const [{ entry, dialog }] = queue.splice(index, 1);
+
+    try {
+      await resolveDialog(dialog, entry, args.accept !== false, args.promptText);
+    } catch (error) {
+      return createErrorResponse(`Failed to handle dialog ${entry.id}: ${(error as Error).message}`);
+    }
+    return createSuccessResponse(formatDialogEntry(entry));
+  }
+}
+
+/**
+ * Tool for listing the dialogs a session has seen
+ */
+export class DialogLogTool extends BrowserToolBase {
+  /**
+   * Execute the dialog log tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const sessionId = context.sessionId ?? DEFAULT_SESSION_ID;
+    const entries = getDialogLog(sessionId);
+    const policy = getDialogPolicy(sessionId);
+    const lines = entries.map(formatDialogEntry);
+    if (args.clear) {
+      // Pending dialogs stay queued; only the history is dropped
+      dialogLogs.delete(sessionId);
+    }
+
+    if (lines.length === 0) {
+      return createSuccessResponse(`No dialogs seen (policy: ${policy.action})`);
+    }
+    return createSuccessResponse([
+      `${lines.length} dialog(s) seen (policy: ${policy.action}):`,
+      ...lines
+    ]);
+  }
+}
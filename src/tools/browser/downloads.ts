@@ -0,0 +1,251 @@
+import fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { createHash } from 'node:crypto';
+import type { Download, Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+
+const defaultDownloadsPath = path.join(os.homedir(), 'Downloads');
+const DEFAULT_DOWNLOAD_TIMEOUT = 30000;
+
+// MIME types guessed from the file extension
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.html': 'text/html',
+  '.xml': 'application/xml',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+};
+
+/**
+ * A file downloaded by a session
+ */
+export interface DownloadEntry {
+  id: string;
+  url: string;
+  suggestedFilename: string;
+  startedAt: number;
+  status: 'in_progress' | 'completed' | 'failed';
+  // Set for completed downloads
+  path?: string;
+  size?: number;
+  mimeType?: string;
+  sha256?: string;
+  // Set for failed downloads
+  failure?: string;
+}
+
+// Downloads and download directories keyed by session ID
+const sessionDownloads = new Map<string, DownloadEntry[]>();
+const downloadDirs = new Map<string, string>();
+// Lets playwright_click_and_download wait for the tracker to finish saving a download
+const savedDownloads = new WeakMap<Download, Promise<DownloadEntry>>();
+let downloadCounter = 0;
+
+/**
+ * Gets the downloads of a session, oldest first
+ */
+export function getDownloads(sessionId: string = DEFAULT_SESSION_ID): DownloadEntry[] {
+  let entries = sessionDownloads.get(sessionId);
+  if (!entries) {
+    entries = [];
+    sessionDownloads.set(sessionId, entries);
+  }
+  return entries;
+}
+
+/**
+ * Sets the directory a session saves its downloads to
+ */
+export function setDownloadsDir(sessionId: string, dir: string): void {
+  downloadDirs.set(sessionId, path.resolve(dir));
+}
+
+/**
+ * Gets the directory a session saves its downloads to
+ */
+export function getDownloadsDir(sessionId: string = DEFAULT_SESSION_ID): string {
+  return downloadDirs.get(sessionId) ?? defaultDownloadsPath;
+}
+
+/**
+ * Forgets the downloads and download directory of a session, or of every session when no ID is given.
+ * Saved files are kept.
+ */
+export function clearDownloads(sessionId?: string): void {
+  if (sessionId === undefined) {
+    sessionDownloads.clear();
+    downloadDirs.clear();
+  } else {
+    sessionDownloads.delete(sessionId);
+    downloadDirs.delete(sessionId);
+  }
+}
+
+/**
+ * Guesses the MIME type of a file from its extension
+ */
+export function guessMimeType(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Picks a path in a directory that does not overwrite an existing file, e.g. report (1).csv
+ */
+function uniquePath(dir: string, filename: string): string {
+  // Only the base name is used so a suggested filename cannot escape the directory
+  const safeName = path.basename(filename) || 'download';
+  const ext = path.extname(safeName);
+  const base = safeName.slice(0, safeName.length - ext.length);
+  let candidate = path.join(dir, safeName);
+  for (let i = 1; fs.existsSync(candidate); i++) {
+    candidate = path.join(dir, `${base} (${i})${ext}`);
+  }
+  return candidate;
+}
+
+/**
+ * Computes the SHA-256 hash of a file
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Saves a download to a directory and fills in its file details
+ */
+async function saveDownload(download: Download, entry: DownloadEntry, dir: string): Promise<void> {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = uniquePath(dir, entry.suggestedFilename);
+  await download.saveAs(filePath);
+  entry.path = filePath;
+  entry.size = fs.statSync(filePath).size;
+  entry.mimeType = guessMimeType(filePath);
+  entry.sha256 = await hashFile(filePath);
+  entry.status = 'completed';
+}
+
+/**
+ * Attaches a download listener to a page that saves every download to the session's download directory
+ * @param page The page to listen on
+ * @param sessionId The session the page belongs to
+ */
+export function registerDownloadListener(page: Page, sessionId: string = DEFAULT_SESSION_ID): void {
+  page.on('download', (download) => {
+    const entry: DownloadEntry = {
+      id: `download-${++downloadCounter}`,
+      url: download.url(),
+      suggestedFilename: download.suggestedFilename(),
+      startedAt: Date.now(),
+      status: 'in_progress',
+    };
+    getDownloads(sessionId).push(entry);
+
+    const saved = saveDownload(download, entry, getDownloadsDir(sessionId))
+      .catch((error) => {
+        entry.status = 'failed';
+        entry.failure = (error as Error).message.split('\n')[0];
+      })
+      .then(() => entry);
+    savedDownloads.set(download, saved);
+  });
+}
+
+/**
+ * Formats a file size for tool responses
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Formats a download as a single log line
+ */
+export function formatDownloadEntry(entry: DownloadEntry): string {
+  if (entry.status === 'failed') {
+    return `[${entry.id}] ${entry.suggestedFilename} from ${entry.url} -> failed: ${entry.failure}`;
+  }
+  if (entry.status === 'in_progress') {
+    return `[${entry.id}] ${entry.suggestedFilename} from ${entry.url} -> in progress`;
+  }
+  return `[${entry.id}] ${entry.suggestedFilename} (${formatSize(entry.size!)}, ${entry.mimeType}) -> ${entry.path} sha256=${entry.sha256}`;
+}
+
+/**
+ * Tool for clicking an element that starts a download and returning the saved file's details
+ */
+export class ClickAndDownloadTool extends BrowserToolBase {
+  /**
+   * Execute the click and download tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const timeout = args.timeout ?? DEFAULT_DOWNLOAD_TIMEOUT;
+      const locator = await this.resolveLocator(page, args);
+      const [download] = await Promise.all([
+        page.waitForEvent('download', { timeout }),
+        locator.click(),
+      ]);
+
+      // The tracker registered for the page saves the file
+      const entry = await (savedDownloads.get(download) ?? Promise.reject(new Error("Download was not tracked")));
+      if (entry.status === 'failed') {
+        return createErrorResponse(`Download of ${entry.suggestedFilename} failed: ${entry.failure}`);
+      }
+
+      if (args.downloadsDir && path.resolve(args.downloadsDir) !== path.dirname(entry.path!)) {
+        const previousPath = entry.path!;
+        await saveDownload(download, entry, path.resolve(args.downloadsDir));
+        fs.unlinkSync(previousPath);
+      }
+
+      return createSuccessResponse([
+        `Downloaded ${entry.suggestedFilename} after clicking ${this.describeTarget(args)}`,
+        `Saved to: ${entry.path}`,
+        `Size: ${formatSize(entry.size!)} (${entry.size} bytes)`,
+        `MIME type: ${entry.mimeType}`,
+        `SHA-256: ${entry.sha256}`,
+        `URL: ${entry.url}`
+      ]);
+    });
+  }
+}
+
+/**
+ * Tool for listing the files a session has downloaded
+ */
+export class ListDownloadsTool extends BrowserToolBase {
+  /**
+   * Execute the list downloads tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const sessionId = context.sessionId ?? DEFAULT_SESSION_ID;
+    const entries = getDownloads(sessionId);
+    if (entries.length === 0) {
+      return createSuccessResponse(`No downloads (files are saved to ${getDownloadsDir(sessionId)})`);
+    }
+    return createSuccessResponse([
+      `${entries.length} download(s):`,
+      ...entries.map(formatDownloadEntry)
+    ]);
+  }
+}
@@ -0,0 +1,180 @@
+import type { BrowserContextOptions } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+import { updateSessionContextOptions } from '../../toolHandler.js';
+
+/**
+ * Remembers options applied to a live context so they survive when the session's context is recreated
+ */
+function rememberContextOptions(context: ToolContext, options: BrowserContextOptions): void {
+  updateSessionContextOptions(context.sessionId ?? DEFAULT_SESSION_ID, options);
+}
+
+/**
+ * Tool for resizing the viewport of the current page
+ */
+export class SetViewportTool extends BrowserToolBase {
+  /**
+   * Execute the set viewport tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!args.width || !args.height) {
+        return createErrorResponse("Missing required parameters: width and height must be provided");
+      }
+
+      const viewport = { width: args.width, height: args.height };
+      await page.setViewportSize(viewport);
+      rememberContextOptions(context, { viewport });
+      return createSuccessResponse(`Set viewport to ${viewport.width}x${viewport.height}`);
+    });
+  }
+}
+
+/**
+ * Tool for emulating CSS media type and media features on the current page
+ */
+export class EmulateMediaTool extends BrowserToolBase {
+  /**
+   * Execute the emulate media tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const options: Record<string, string | null> = {};
+      for (const key of ['media', 'colorScheme', 'reducedMotion', 'forcedColors'] as const) {
+        if (args[key] !== undefined) {
+          // 'reset' stops emulating the value
+          options[key] = args[key] === 'reset' ? null : args[key];
+        }
+      }
+      if (Object.keys(options).length === 0) {
+        return createErrorResponse("At least one of media, colorScheme, reducedMotion or forcedColors must be provided");
+      }
+
+      await page.emulateMedia(options);
+      const { media, ...features } = options;
+      // The media type is not a context option, so only the media features carry over; reset ones are forgotten
+      rememberContextOptions(context, Object.fromEntries(
+        Object.entries(features).map(([key, value]) => [key, value ?? undefined])
+      ) as BrowserContextOptions);
+
+      return createSuccessResponse(`Emulating media: ${Object.entries(options).map(([key, value]) => `${key}=${value ?? 'reset'}`).join(', ')}`);
+    });
+  }
+}
+
+/**
+ * Tool for changing the position reported by the geolocation API
+ */
+export class SetGeolocationTool extends BrowserToolBase {
+  /**
+   * Execute the set geolocation tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (args.clear) {
+        await page.context().setGeolocation(null);
+        rememberContextOptions(context, { geolocation: undefined });
+        return createSuccessResponse("Cleared geolocation; the position is unavailable");
+      }
+      if (typeof args.latitude !== 'number' || typeof args.longitude !== 'number') {
+        return createErrorResponse("Missing required parameters: latitude and longitude must be provided");
+      }
+
+      const geolocation = {
+        latitude: args.latitude,
+        longitude: args.longitude,
+        ...args.accuracy !== undefined && { accuracy: args.accuracy },
+      };
+      await page.context().setGeolocation(geolocation);
+
+      const messages = [`Set geolocation to ${geolocation.latitude}, ${geolocation.longitude}`];
+      if (args.grant !== false) {
+        await page.context().grantPermissions(['geolocation'], args.origin ? { origin: args.origin } : undefined);
+        messages.push(`Granted geolocation permission${args.origin ? ` to ${args.origin}` : ''}`);
+      }
+      rememberContextOptions(context, { geolocation });
+      return createSuccessResponse(messages);
+    });
+  }
+}
+
+/**
+ * Tool for granting or clearing browser permissions of the current session
+ */
+export class GrantPermissionsTool extends BrowserToolBase {
+  /**
+   * Execute the grant permissions tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (args.clear) {
+        await page.context().clearPermissions();
+        rememberContextOptions(context, { permissions: [] });
+        return createSuccessResponse("Cleared all granted permissions");
+      }
+      if (!Array.isArray(args.permissions) || args.permissions.length === 0) {
+        return createErrorResponse("Missing required parameter: permissions must be a non-empty array");
+      }
+
+      await page.context().grantPermissions(args.permissions, args.origin ? { origin: args.origin } : undefined);
+      if (!args.origin) {
+        // Origin-specific grants are not expressible as a context option
+        rememberContextOptions(context, { permissions: args.permissions });
+      }
+      return createSuccessResponse(`Granted permissions: ${args.permissions.join(', ')}${args.origin ? ` to ${args.origin}` : ''}`);
+    });
+  }
+}
+
+/**
+ * Tool for taking the current session offline or back online
+ */
+export class SetOfflineTool extends BrowserToolBase {
+  /**
+   * Execute the set offline tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (typeof args.offline !== 'boolean') {
+        return createErrorResponse("Missing required parameter: offline must be true or false");
+      }
+
+      await page.context().setOffline(args.offline);
+      rememberContextOptions(context, { offline: args.offline });
+      return createSuccessResponse(args.offline ? "Network is offline" : "Network is back online");
+    });
+  }
+}
+
+/**
+ * Tool for sending extra HTTP headers with every request of the current page or session
+ */
+export class SetExtraHeadersTool extends BrowserToolBase {
+  /**
+   * Execute the set extra headers tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!args.headers || typeof args.headers !== 'object' || Array.isArray(args.headers)) {
+        return createErrorResponse("Missing required parameter: headers must be an object of header names and values");
+      }
+
+      const headers: Record<string, string> = Object.fromEntries(
+        Object.entries(args.headers).map(([name, value]) => [name, String(value)])
+      );
+      const names = Object.keys(headers);
+      if (args.scope === 'page') {
+        await page.setExtraHTTPHeaders(headers);
+      } else {
+        await page.context().setExtraHTTPHeaders(headers);
+        rememberContextOptions(context, { extraHTTPHeaders: headers });
+      }
+
+      const target = args.scope === 'page' ? 'the current page' : 'every page of the session';
+      return createSuccessResponse(names.length > 0
+        ? `Sending extra headers with requests of ${target}: ${names.join(', ')}`
+        : `Cleared extra headers of ${target}`);
+    });
+  }
+}
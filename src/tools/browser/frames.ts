@@ -0,0 +1,30 @@
+import type { Frame } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse } from '../common/types.js';
+
+/**
+ * Formats a frame and its descendants as indented lines, e.g. - name="checkout" https://pay.example.com/
+ */
+function formatFrameTree(frame: Frame, depth = 0): string[] {
+  const name = frame.name() ? `name=${JSON.stringify(frame.name())}` : depth === 0 ? 'main' : '(unnamed)';
+  const line = `${'  '.repeat(depth)}- ${name} ${frame.url() || 'about:blank'}`;
+  return [line, ...frame.childFrames().flatMap(child => formatFrameTree(child, depth + 1))];
+}
+
+/**
+ * Tool for listing the frame tree of the page with the names and URLs tools can target frames by
+ */
+export class ListFramesTool extends BrowserToolBase {
+  /**
+   * Execute the list frames tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const lines = formatFrameTree(page.mainFrame());
+      return createSuccessResponse([
+        `${lines.length} frame(s):`,
+        ...lines
+      ]);
+    });
+  }
+}
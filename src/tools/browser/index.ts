@@ -5,6 +5,27 @@ export * from './console.js';
 export * from './interaction.js';
 export * from './response.js';
 export * from './useragent.js';
+export * from './tabs.js';
+export * from './sessions.js';
+export * from './storageState.js';
+export * from './cookies.js';
+export * from './webStorage.js';
+export * from './network.js';
+export * from './routes.js';
+export * from './snapshot.js';
+export * from './assertions.js';
+export * from './wait.js';
+export * from './keyboard.js';
+export * from './mouse.js';
+export * from './scroll.js';
+export * from './dialogs.js';
+export * from './downloads.js';
+export * from './frames.js';
+export * from './devices.js';
+export * from './emulation.js';
+export * from './throttle.js';
+export * from './performance.js';
+export * from './tracing.js';
 
 // TODO: Add exports for other browser tools as they are implemented
 // export * from './interaction.js'; 
\ No newline at end of file
@@ -1,6 +1,79 @@
+import fs from 'node:fs';
+import * as path from 'node:path';
+import type { Locator } from 'playwright';
 import { BrowserToolBase } from './base.js';
+import { guessMimeType } from './downloads.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { describeFrame } from '../common/frames.js';
 import { setGlobalPage } from '../../toolHandler.js';
+
+type ClickOptions = NonNullable<Parameters<Locator['click']>[0]>;
+
+interface FilePayload {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+const UPLOAD_MODES = ['input', 'filechooser', 'drop'];
+// Events a dropzone sees when a file is dragged onto it and released
+const DROP_EVENTS = ['dragenter', 'dragover', 'drop'];
+
+// Options shared by click, double-click, check and uncheck
+const POINTER_OPTIONS = ['button', 'clickCount', 'modifiers', 'position', 'force', 'trial'] as const;
+
+/**
+ * Picks the pointer options a tool call set, e.g. { button: 'right', modifiers: ['Shift'] }
+ * @param args The tool arguments
+ * @param allowed The options the Playwright method accepts
+ */
+function pickPointerOptions(args: any, allowed: readonly string[] = POINTER_OPTIONS): ClickOptions {
+  const options: Record<string, unknown> = {};
+  for (const key of allowed) {
+    if (args[key] !== undefined) {
+      options[key] = args[key];
+    }
+  }
+  return options as ClickOptions;
+}
+
+/**
+ * Describes the pointer options of a tool call for tool responses
+ */
+function describePointerOptions(options: ClickOptions): string {
+  const entries = Object.entries(options).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return entries.length > 0 ? ` (${entries.join(', ')})` : '';
+}
+
+/**
+ * Converts an inline file of a tool call ({ name, mimeType, buffer } with base64 content) to a file payload
+ */
+function toFilePayload(file: { name: string; mimeType?: string; buffer: string }): FilePayload {
+  return {
+    name: file.name,
+    mimeType: file.mimeType ?? guessMimeType(file.name),
+    buffer: Buffer.from(file.buffer, 'base64'),
+  };
+}
+
+/**
+ * Reads a file from disk into a file payload
+ */
+function readFilePayload(filePath: string): FilePayload {
+  return {
+    name: path.basename(filePath),
+    mimeType: guessMimeType(filePath),
+    buffer: fs.readFileSync(filePath),
+  };
+}
+
+/**
+ * Describes uploaded files for tool responses, e.g. 2 files (a.txt, b.png)
+ */
+function describeFiles(names: string[]): string {
+  return `${names.length} file(s) (${names.join(', ')})`;
+}
+
 /**
  * Tool for clicking elements on the page
  */
@@ -10,11 +83,69 @@ export class ClickTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      await page.click(args.selector);      
-      return createSuccessResponse(`Clicked element: ${args.selector}`);
+      const options = pickPointerOptions(args);
+      const locator = await this.resolveLocator(page, args);
+      await locator.click(options);
+      const action = options.trial ? 'Trial click succeeded' : 'Clicked element';
+      return createSuccessResponse(`${action}: ${this.describeTarget(args)}${describePointerOptions(options)}`);
+    });
+  }
+}
+
+/**
+ * Tool for double-clicking elements on the page
+ */
+export class DoubleClickTool extends BrowserToolBase {
+  /**
+   * Execute the double-click tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const options = pickPointerOptions(args, ['button', 'modifiers', 'position', 'force', 'trial']);
+      const locator = await this.resolveLocator(page, args);
+      await locator.dblclick(options);
+      const action = options.trial ? 'Trial double-click succeeded' : 'Double-clicked element';
+      return createSuccessResponse(`${action}: ${this.describeTarget(args)}${describePointerOptions(options)}`);
+    });
+  }
+}
+
+/**
+ * Tool for checking checkboxes and radio buttons
+ */
+export class CheckTool extends BrowserToolBase {
+  /**
+   * Execute the check tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const options = pickPointerOptions(args, ['position', 'force', 'trial']);
+      const locator = await this.resolveLocator(page, args);
+      await locator.check(options);
+      const action = options.trial ? 'Trial check succeeded' : 'Checked';
+      return createSuccessResponse(`${action}: ${this.describeTarget(args)}${describePointerOptions(options)}`);
+    });
+  }
+}
+
+/**
+ * Tool for unchecking checkboxes
+ */
+export class UncheckTool extends BrowserToolBase {
+  /**
+   * Execute the uncheck tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const options = pickPointerOptions(args, ['position', 'force', 'trial']);
+      const locator = await this.resolveLocator(page, args);
+      await locator.uncheck(options);
+      const action = options.trial ? 'Trial uncheck succeeded' : 'Unchecked';
+      return createSuccessResponse(`${action}: ${this.describeTarget(args)}${describePointerOptions(options)}`);
     });
   }
 }
+
 /**
  * Tool for clicking a link and switching to the new tab
  */
@@ -25,18 +156,19 @@ export class ClickAndSwitchTabTool extends BrowserToolBase {
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     
     return this.safeExecute(context, async (page) => {
+      const locator = await this.resolveLocator(page, args);
       // Listen for a new tab to open
       const [newPage] = await Promise.all([
         //context.browser.waitForEvent('page'), // Wait for a new page (tab) to open
         page.context().waitForEvent('page'),// Wait for a new page (tab) to open
-        page.click(args.selector), // Click the link that opens the new tab
+        locator.click(pickPointerOptions(args, ['button', 'modifiers', 'position', 'force'])), // Click the link that opens the new tab
       ]);
 
       // Wait for the new page to load
       await newPage.waitForLoadState('domcontentloaded');
 
       // Switch control to the new tab
-      setGlobalPage(newPage);
+      setGlobalPage(newPage, context.sessionId);
       //page= newPage; // Update the current page to the new tab
       //context.page = newPage;
       //context.page.bringToFront(); // Bring the new tab to the front
@@ -46,58 +178,44 @@ export class ClickAndSwitchTabTool extends BrowserToolBase {
   }
 }
 /**
- * Tool for clicking elements inside iframes
+ * Tool for filling form fields
  */
-export class IframeClickTool extends BrowserToolBase {
+export class FillTool extends BrowserToolBase {
   /**
-   * Execute the iframe click tool
+   * Execute the fill tool
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      const frame = page.frameLocator(args.iframeSelector);
-      if (!frame) {
-        return createErrorResponse(`Iframe not found: ${args.iframeSelector}`);
-      }
-      
-      await frame.locator(args.selector).click();
-      return createSuccessResponse(`Clicked element ${args.selector} inside iframe ${args.iframeSelector}`);
+      const locator = await this.resolveLocator(page, args);
+      await locator.fill(args.value);
+      return createSuccessResponse(`Filled ${this.describeTarget(args)} with: ${args.value}`);
     });
   }
 }
 
 /**
- * Tool for filling elements inside iframes
+ * Tool for clicking elements inside iframes, a click with the iframe as frame
  */
-export class IframeFillTool extends BrowserToolBase {
+export class IframeClickTool extends ClickTool {
   /**
-   * Execute the iframe fill tool
+   * Execute the iframe click tool
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
-    return this.safeExecute(context, async (page) => {
-      const frame = page.frameLocator(args.iframeSelector);
-      if (!frame) {
-        return createErrorResponse(`Iframe not found: ${args.iframeSelector}`);
-      }
-      
-      await frame.locator(args.selector).fill(args.value);
-      return createSuccessResponse(`Filled element ${args.selector} inside iframe ${args.iframeSelector} with: ${args.value}`);
-    });
+    const { iframeSelector, ...clickArgs } = args;
+    return super.execute({ ...clickArgs, frame: iframeSelector }, context);
   }
 }
 
 /**
- * Tool for filling form fields
+ * Tool for filling elements inside iframes, a fill with the iframe as frame
  */
-export class FillTool extends BrowserToolBase {
+export class IframeFillTool extends FillTool {
   /**
-   * Execute the fill tool
+   * Execute the iframe fill tool
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
-    return this.safeExecute(context, async (page) => {
-      await page.waitForSelector(args.selector);
-      await page.fill(args.selector, args.value);
-      return createSuccessResponse(`Filled ${args.selector} with: ${args.value}`);
-    });
+    const { iframeSelector, ...fillArgs } = args;
+    return super.execute({ ...fillArgs, frame: iframeSelector }, context);
   }
 }
 
@@ -110,9 +228,9 @@ export class SelectTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      await page.waitForSelector(args.selector);
-      await page.selectOption(args.selector, args.value);
-      return createSuccessResponse(`Selected ${args.selector} with: ${args.value}`);
+      const locator = await this.resolveLocator(page, args);
+      await locator.selectOption(args.value);
+      return createSuccessResponse(`Selected ${this.describeTarget(args)} with: ${args.value}`);
     });
   }
 }
@@ -126,15 +244,15 @@ export class HoverTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      await page.waitForSelector(args.selector);
-      await page.hover(args.selector);
-      return createSuccessResponse(`Hovered ${args.selector}`);
+      const locator = await this.resolveLocator(page, args);
+      await locator.hover();
+      return createSuccessResponse(`Hovered ${this.describeTarget(args)}`);
     });
   }
 }
 
 /**
- * Tool for uploading files
+ * Tool for uploading files through a file input, a file chooser or a dropzone
  */
 export class UploadFileTool extends BrowserToolBase {
   /**
@@ -142,9 +260,80 @@ export class UploadFileTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-        await page.waitForSelector(args.selector);
-        await page.setInputFiles(args.selector, args.filePath);
-        return createSuccessResponse(`Uploaded file '${args.filePath}' to '${args.selector}'`);
+      const mode = args.mode ?? 'input';
+      if (!UPLOAD_MODES.includes(mode)) {
+        return createErrorResponse(`Invalid mode: ${mode}. Use 'input', 'filechooser' or 'drop'`);
+      }
+      const paths: string[] = args.filePath === undefined ? [] : [].concat(args.filePath);
+      const payloads: FilePayload[] = (args.files ?? []).map(toFilePayload);
+      if (args.clear && (paths.length > 0 || payloads.length > 0)) {
+        return createErrorResponse("clear cannot be combined with filePath or files");
+      }
+      if (!args.clear && paths.length === 0 && payloads.length === 0) {
+        return createErrorResponse("Missing required parameter: filePath, files or clear must be provided");
+      }
+      if (args.clear && mode === 'drop') {
+        return createErrorResponse("clear is not supported in drop mode");
+      }
+
+      const locator = await this.resolveLocator(page, args);
+      const target = this.describeTarget(args);
+      const names = [...paths.map(p => path.basename(p)), ...payloads.map(p => p.name)];
+
+      if (mode === 'drop') {
+        // Dropped files are built in the page, so files on disk are read here
+        const files = [...paths.map(readFilePayload), ...payloads].map(file => ({
+          name: file.name,
+          mimeType: file.mimeType,
+          buffer: file.buffer.toString('base64'),
+        }));
+        // The data transfer has to live in the frame of the dropzone
+        const frame = await this.resolveFrame(page, args);
+        const dataTransfer = await frame.evaluateHandle((files) => {
+          const dataTransfer = new DataTransfer();
+          for (const file of files) {
+            const bytes = Uint8Array.from(atob(file.buffer), c => c.charCodeAt(0));
+            dataTransfer.items.add(new File([bytes], file.name, { type: file.mimeType }));
+          }
+          return dataTransfer;
+        }, files);
+        try {
+          for (const type of DROP_EVENTS) {
+            await locator.dispatchEvent(type, { dataTransfer });
+          }
+        } finally {
+          await dataTransfer.dispose();
+        }
+        return createSuccessResponse(`Dropped ${describeFiles(names)} onto '${target}'`);
+      }
+
+      // setInputFiles takes either paths or buffers, so paths are read when both are given
+      const files = args.clear
+        ? []
+        : payloads.length === 0
+          ? (typeof args.filePath === 'string' ? args.filePath : paths)
+          : [...paths.map(readFilePayload), ...payloads];
+
+      if (mode === 'filechooser') {
+        // For uploaders that open a file chooser without a visible input[type=file]
+        const [fileChooser] = await Promise.all([
+          page.waitForEvent('filechooser', ...(args.timeout ? [{ timeout: args.timeout }] : [])),
+          locator.click(),
+        ]);
+        await fileChooser.setFiles(files);
+        return createSuccessResponse(args.clear
+          ? `Cleared files in the file chooser opened by '${target}'`
+          : `Uploaded ${describeFiles(names)} through the file chooser opened by '${target}'`);
+      }
+
+      await locator.setInputFiles(files);
+      if (args.clear) {
+        return createSuccessResponse(`Cleared files of '${target}'`);
+      }
+      if (typeof args.filePath === 'string' && payloads.length === 0) {
+        return createSuccessResponse(`Uploaded file '${args.filePath}' to '${target}'`);
+      }
+      return createSuccessResponse(`Uploaded ${describeFiles(names)} to '${target}'`);
     });
   }
 }
@@ -158,7 +347,8 @@ export class EvaluateTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      const result = await page.evaluate(args.script);
+      const frame = await this.resolveFrame(page, args);
+      const result = await frame.evaluate(args.script);
       
       // Convert result to string for display
       let resultStr: string;
@@ -169,7 +359,7 @@ export class EvaluateTool extends BrowserToolBase {
       }
       
       return createSuccessResponse([
-        `Executed JavaScript:`,
+        `Executed JavaScript${args.frame ? ` in frame ${describeFrame(args.frame)}` : ''}:`,
         `${args.script}`,
         `Result:`,
         `${resultStr}`
@@ -187,28 +377,48 @@ export class DragTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      const sourceElement = await page.waitForSelector(args.sourceSelector);
-      const targetElement = await page.waitForSelector(args.targetSelector);
-      
-      const sourceBound = await sourceElement.boundingBox();
-      const targetBound = await targetElement.boundingBox();
+      const source = { locator: args.sourceLocator, selector: args.sourceSelector, frame: args.frame };
+      const target = { locator: args.targetLocator, selector: args.targetSelector, frame: args.frame };
+      if (args.mode && args.mode !== 'mouse' && args.mode !== 'html5') {
+        return createErrorResponse(`Invalid mode: ${args.mode}. Use 'mouse' or 'html5'`);
+      }
+      const sourceLocator = await this.resolveLocator(page, source);
+      const targetLocator = await this.resolveLocator(page, target);
+
+      // HTML5 drag and drop fires dragstart/dragover/drop, which plain mouse moves do not in every browser
+      if (args.mode === 'html5') {
+        await sourceLocator.dragTo(targetLocator, {
+          ...(args.sourcePosition && { sourcePosition: args.sourcePosition }),
+          ...(args.targetPosition && { targetPosition: args.targetPosition }),
+        });
+        return createSuccessResponse(`Dragged element from ${this.describeTarget(source)} to ${this.describeTarget(target)} (HTML5 drag and drop)`);
+      }
+
+      const sourceBound = await sourceLocator.boundingBox();
+      const targetBound = await targetLocator.boundingBox();
       
       if (!sourceBound || !targetBound) {
         return createErrorResponse("Could not get element positions for drag operation");
       }
 
+      // Offsets are relative to the top-left corner of the element, the center is used otherwise
+      const sourcePoint = args.sourcePosition ?? { x: sourceBound.width / 2, y: sourceBound.height / 2 };
+      const targetPoint = args.targetPosition ?? { x: targetBound.width / 2, y: targetBound.height / 2 };
+
       await page.mouse.move(
-        sourceBound.x + sourceBound.width / 2,
-        sourceBound.y + sourceBound.height / 2
+        sourceBound.x + sourcePoint.x,
+        sourceBound.y + sourcePoint.y
       );
       await page.mouse.down();
+      // Intermediate moves let sortable lists and canvas apps track the pointer
       await page.mouse.move(
-        targetBound.x + targetBound.width / 2,
-        targetBound.y + targetBound.height / 2
+        targetBound.x + targetPoint.x,
+        targetBound.y + targetPoint.y,
+        ...(args.steps ? [{ steps: args.steps }] : [])
       );
       await page.mouse.up();
       
-      return createSuccessResponse(`Dragged element from ${args.sourceSelector} to ${args.targetSelector}`);
+      return createSuccessResponse(`Dragged element from ${this.describeTarget(source)} to ${this.describeTarget(target)}`);
     });
   }
 }
@@ -222,43 +432,13 @@ export class PressKeyTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      if (args.selector) {
-        await page.waitForSelector(args.selector);
-        await page.focus(args.selector);
+      if (args.selector || args.ref || args.locator) {
+        const locator = await this.resolveLocator(page, args);
+        await locator.focus();
       }
       
       await page.keyboard.press(args.key);
       return createSuccessResponse(`Pressed key: ${args.key}`);
     });
   }
-} 
-
-
-/**
- * Tool for switching browser tabs
- */
-// export class SwitchTabTool extends BrowserToolBase {
-//   /**
-//    * Switch the tab to the specified index
-//    */
-//   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
-//     return this.safeExecute(context, async (page) => {
-//       const tabs = await browser.page;      
-
-//       // Validate the tab index
-//       const tabIndex = Number(args.index);
-//       if (isNaN(tabIndex)) {
-//         return createErrorResponse(`Invalid tab index: ${args.index}. It must be a number.`);
-//       }
-
-//       if (tabIndex >= 0 && tabIndex < tabs.length) {
-//         await tabs[tabIndex].bringToFront();
-//         return createSuccessResponse(`Switched to tab with index ${tabIndex}`);
-//       } else {
-//         return createErrorResponse(
-//           `Tab index out of range: ${tabIndex}. Available tabs: 0 to ${tabs.length - 1}.`
-//         );
-//       }
-//     });
-//   }
-// }
\ No newline at end of file
+}
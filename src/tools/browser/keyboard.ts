@@ -0,0 +1,181 @@
+import type { Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+/**
+ * A step of a playwright_keyboard sequence; a plain string is shorthand for { key }
+ */
+export interface KeyboardAction {
+  // Key or chord to press, e.g. 'Enter' or 'Control+A'
+  key?: string;
+  // How often to press the key (default: 1)
+  repeat?: number;
+  // Text typed key by key, firing keydown/keypress/keyup for each character
+  type?: string;
+  // Text inserted in one go with only an input event, e.g. for emoji or IME text
+  insertText?: string;
+  // Key to hold down or release, for chords spanning several steps
+  down?: string;
+  up?: string;
+}
+
+/**
+ * Normalizes the actions of a playwright_keyboard call
+ */
+export function toKeyboardActions(actions: unknown): KeyboardAction[] {
+  if (!Array.isArray(actions)) {
+    throw new Error("Invalid actions: must be a list of keys or action objects");
+  }
+  return actions.map(action => typeof action === 'string' ? { key: action } : action as KeyboardAction);
+}
+
+/**
+ * Runs a single keyboard action and returns its description
+ */
+async function runKeyboardAction(page: Page, action: KeyboardAction, delay?: number): Promise<string> {
+  const options = delay !== undefined ? { delay } : undefined;
+  if (action.key) {
+    const repeat = action.repeat ?? 1;
+    for (let i = 0; i < repeat; i++) {
+      await page.keyboard.press(action.key, options);
+    }
+    return repeat > 1 ? `press ${action.key} x${repeat}` : `press ${action.key}`;
+  }
+  if (action.type !== undefined) {
+    await page.keyboard.type(action.type, options);
+    return `type ${JSON.stringify(action.type)}`;
+  }
+  if (action.insertText !== undefined) {
+    await page.keyboard.insertText(action.insertText);
+    return `insert ${JSON.stringify(action.insertText)}`;
+  }
+  if (action.down) {
+    await page.keyboard.down(action.down);
+    return `hold ${action.down}`;
+  }
+  if (action.up) {
+    await page.keyboard.up(action.up);
+    return `release ${action.up}`;
+  }
+  throw new Error(`Invalid keyboard action: ${JSON.stringify(action)}. Set one of key, type, insertText, down or up`);
+}
+
+/**
+ * Tool for typing text key by key, for inputs that react to individual keystrokes
+ */
+export class TypeTool extends BrowserToolBase {
+  /**
+   * Execute the type tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (typeof args.text !== 'string') {
+        return createErrorResponse("Missing required parameter: text must be provided");
+      }
+      const options = args.delay !== undefined ? { delay: args.delay } : undefined;
+
+      // Without a target the text goes to the focused element
+      if (!args.selector && !args.ref && !args.locator) {
+        await page.keyboard.type(args.text, options);
+        return createSuccessResponse(`Typed into focused element: ${args.text}`);
+      }
+
+      const locator = await this.resolveLocator(page, args);
+      if (args.clear) {
+        await locator.clear();
+      }
+      await locator.pressSequentially(args.text, options);
+      return createSuccessResponse(`Typed into ${this.describeTarget(args)}: ${args.text}`);
+    });
+  }
+}
+
+/**
+ * Tool for pressing sequences of keys and chords, typing and inserting text
+ */
+export class KeyboardTool extends BrowserToolBase {
+  /**
+   * Execute the keyboard tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const actions = toKeyboardActions(args.actions);
+      if (actions.length === 0) {
+        return createErrorResponse("Missing required parameter: actions must not be empty");
+      }
+
+      if (args.selector || args.ref || args.locator) {
+        const locator = await this.resolveLocator(page, args);
+        await locator.focus();
+      }
+
+      const performed: string[] = [];
+      for (const action of actions) {
+        performed.push(await runKeyboardAction(page, action, args.delay));
+      }
+      return createSuccessResponse(`Keyboard: ${performed.join(', ')}`);
+    });
+  }
+}
+
+/**
+ * Tool for selecting all or part of the text of an element
+ */
+export class SelectTextTool extends BrowserToolBase {
+  /**
+   * Execute the select text tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const locator = await this.resolveLocator(page, args);
+      const target = this.describeTarget(args);
+
+      if (args.start === undefined && args.end === undefined) {
+        await locator.selectText();
+        return createSuccessResponse(`Selected all text of ${target}`);
+      }
+
+      if ((args.start ?? 0) < 0 || (args.end !== undefined && args.end < (args.start ?? 0))) {
+        return createErrorResponse(`Invalid range: start ${args.start ?? 0}, end ${args.end}`);
+      }
+
+      const selected = await locator.evaluate((el, { start, end }) => {
+        // Text controls have their own selection API
+        if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+          el.focus();
+          const to = end ?? el.value.length;
+          el.setSelectionRange(start ?? 0, to);
+          return el.value.slice(start ?? 0, to);
+        }
+
+        // Other elements: find the text nodes containing the offsets
+        const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+        const text = el.textContent ?? '';
+        const from = start ?? 0;
+        const to = Math.min(end ?? text.length, text.length);
+        const range = document.createRange();
+        let offset = 0;
+        let startSet = false;
+        let node: Node | null;
+        while ((node = walker.nextNode())) {
+          const length = node.textContent?.length ?? 0;
+          if (!startSet && from <= offset + length) {
+            range.setStart(node, from - offset);
+            startSet = true;
+          }
+          if (startSet && to <= offset + length) {
+            range.setEnd(node, to - offset);
+            break;
+          }
+          offset += length;
+        }
+        const selection = window.getSelection();
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+        return selection?.toString() ?? '';
+      }, { start: args.start as number | undefined, end: args.end as number | undefined });
+
+      return createSuccessResponse(`Selected text of ${target}: ${JSON.stringify(selected)}`);
+    });
+  }
+}
@@ -0,0 +1,188 @@
+import type { CDPSession, Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+type MouseButton = 'left' | 'right' | 'middle';
+
+/**
+ * A step of a playwright_mouse sequence
+ */
+export interface MouseAction {
+  type: 'move' | 'down' | 'up' | 'click' | 'wheel';
+  x?: number;
+  y?: number;
+  // Number of intermediate mousemove events for move
+  steps?: number;
+  button?: MouseButton;
+  clickCount?: number;
+  deltaX?: number;
+  deltaY?: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Distance between the two fingers when a pinch starts
+const PINCH_START_DISTANCE = 100;
+const DEFAULT_GESTURE_STEPS = 10;
+
+/**
+ * Runs a single mouse action and returns its description
+ */
+async function runMouseAction(page: Page, action: MouseAction): Promise<string> {
+  const hasPoint = action.x !== undefined && action.y !== undefined;
+  switch (action.type) {
+    case 'move':
+      if (!hasPoint) {
+        throw new Error("Invalid mouse action: move requires x and y");
+      }
+      await page.mouse.move(action.x!, action.y!, ...(action.steps ? [{ steps: action.steps }] : []));
+      return `move to (${action.x}, ${action.y})${action.steps ? ` in ${action.steps} steps` : ''}`;
+    case 'down':
+      await page.mouse.down(action.button ? { button: action.button } : undefined);
+      return `press ${action.button ?? 'left'} button`;
+    case 'up':
+      await page.mouse.up(action.button ? { button: action.button } : undefined);
+      return `release ${action.button ?? 'left'} button`;
+    case 'click':
+      if (!hasPoint) {
+        throw new Error("Invalid mouse action: click requires x and y");
+      }
+      await page.mouse.click(action.x!, action.y!, {
+        ...(action.button && { button: action.button }),
+        ...(action.clickCount && { clickCount: action.clickCount }),
+      });
+      return `click at (${action.x}, ${action.y})`;
+    case 'wheel':
+      // Wheel events go to the element under the mouse
+      if (hasPoint) {
+        await page.mouse.move(action.x!, action.y!);
+      }
+      await page.mouse.wheel(action.deltaX ?? 0, action.deltaY ?? 0);
+      return `wheel by (${action.deltaX ?? 0}, ${action.deltaY ?? 0})${hasPoint ? ` at (${action.x}, ${action.y})` : ''}`;
+    default:
+      throw new Error(`Invalid mouse action: ${JSON.stringify(action)}. Use type move, down, up, click or wheel`);
+  }
+}
+
+/**
+ * Sends one touch event through the Chrome DevTools Protocol
+ */
+async function dispatchTouch(cdp: CDPSession, type: 'touchStart' | 'touchMove' | 'touchEnd', touchPoints: Point[]): Promise<void> {
+  await cdp.send('Input.dispatchTouchEvent', {
+    type,
+    touchPoints: touchPoints.map((point, id) => ({ ...point, id })),
+  });
+}
+
+/**
+ * Moves touch points from their start to their end positions in a number of steps
+ */
+async function dispatchGesture(cdp: CDPSession, from: Point[], to: Point[], steps: number): Promise<void> {
+  await dispatchTouch(cdp, 'touchStart', from);
+  for (let step = 1; step <= steps; step++) {
+    const progress = step / steps;
+    await dispatchTouch(cdp, 'touchMove', from.map((point, i) => ({
+      x: point.x + (to[i].x - point.x) * progress,
+      y: point.y + (to[i].y - point.y) * progress,
+    })));
+  }
+  await dispatchTouch(cdp, 'touchEnd', []);
+}
+
+/**
+ * Tool for low-level mouse input: moves, button presses, clicks and wheel scrolling at coordinates
+ */
+export class MouseTool extends BrowserToolBase {
+  /**
+   * Execute the mouse tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!Array.isArray(args.actions) || args.actions.length === 0) {
+        return createErrorResponse("Missing required parameter: actions must be a non-empty list");
+      }
+
+      const performed: string[] = [];
+      for (const action of args.actions as MouseAction[]) {
+        performed.push(await runMouseAction(page, action));
+      }
+      return createSuccessResponse(`Mouse: ${performed.join(', ')}`);
+    });
+  }
+}
+
+/**
+ * Tool for touch gestures: tap, swipe and pinch.
+ * Swipe and pinch dispatch raw touch events over CDP and need Chromium.
+ */
+export class TouchTool extends BrowserToolBase {
+  /**
+   * Execute the touch tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!['tap', 'swipe', 'pinch'].includes(args.gesture)) {
+        return createErrorResponse(`Invalid gesture: ${args.gesture}. Use tap, swipe or pinch`);
+      }
+      const hasTarget = !!(args.selector || args.ref || args.locator);
+
+      if (args.gesture === 'tap' && hasTarget) {
+        // Needs a context with hasTouch, e.g. a mobile device session
+        const locator = await this.resolveLocator(page, args);
+        await locator.tap();
+        return createSuccessResponse(`Tapped ${this.describeTarget(args)}`);
+      }
+
+      let point: Point;
+      if (hasTarget) {
+        const locator = await this.resolveLocator(page, args);
+        const box = await locator.boundingBox();
+        if (!box) {
+          return createErrorResponse(`Could not get element position of ${this.describeTarget(args)}`);
+        }
+        point = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+      } else if (args.x !== undefined && args.y !== undefined) {
+        point = { x: args.x, y: args.y };
+      } else {
+        return createErrorResponse("Either x and y or selector, ref or locator must be provided");
+      }
+
+      if (args.gesture === 'tap') {
+        await page.touchscreen.tap(point.x, point.y);
+        return createSuccessResponse(`Tapped at (${point.x}, ${point.y})`);
+      }
+
+      const browserName = page.context().browser()?.browserType().name();
+      if (browserName && browserName !== 'chromium') {
+        return createErrorResponse(`The ${args.gesture} gesture needs Chromium, but the session runs ${browserName}`);
+      }
+
+      const steps = args.steps ?? DEFAULT_GESTURE_STEPS;
+      const cdp = await page.context().newCDPSession(page);
+      try {
+        if (args.gesture === 'swipe') {
+          const end = { x: point.x + (args.deltaX ?? 0), y: point.y + (args.deltaY ?? 0) };
+          await dispatchGesture(cdp, [point], [end], steps);
+          return createSuccessResponse(`Swiped from (${point.x}, ${point.y}) to (${end.x}, ${end.y})`);
+        }
+
+        // Two fingers on a horizontal line through the point, moving apart to zoom in or together to zoom out
+        const scale = args.scale ?? 2;
+        const startOffset = PINCH_START_DISTANCE / 2;
+        const endOffset = startOffset * scale;
+        await dispatchGesture(
+          cdp,
+          [{ x: point.x - startOffset, y: point.y }, { x: point.x + startOffset, y: point.y }],
+          [{ x: point.x - endOffset, y: point.y }, { x: point.x + endOffset, y: point.y }],
+          steps
+        );
+        return createSuccessResponse(`Pinched at (${point.x}, ${point.y}) with scale ${scale}`);
+      } finally {
+        await cdp.detach();
+      }
+    });
+  }
+}
@@ -0,0 +1,341 @@
+import fs from 'node:fs';
+import * as path from 'node:path';
+import type { Page, Request, Response } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+import { matchesUrlPattern } from '../common/urlPattern.js';
+
+// Oldest entries are dropped once a session's log grows past this size
+export const MAX_NETWORK_ENTRIES = 1000;
+// Larger response bodies are left out of the log to bound its memory use
+export const MAX_RESPONSE_BODY_SIZE = 1024 * 1024;
+// Total size of the bodies a session's log keeps; the bodies of the oldest requests are dropped beyond it
+export const MAX_SESSION_BODY_SIZE = 20 * 1024 * 1024;
+
+/**
+ * A request captured by the network recorder
+ */
+export interface NetworkEntry {
+  id: number;
+  url: string;
+  method: string;
+  resourceType: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  startedAt: number;
+  // Filled in once the response arrives
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  duration?: number;
+  // Filled in once the response body has been read; only text bodies are kept
+  responseBody?: string;
+  responseBodySize?: number;
+  // Why a body that was read is not kept: binary, too large, or dropped to stay within the session's budget
+  responseBodyOmitted?: string;
+  // Filled in if the request failed (aborted, DNS error, ...)
+  failure?: string;
+}
+
+// Captured requests keyed by session ID
+const networkLogs = new Map<string, NetworkEntry[]>();
+let entryCounter = 0;
+
+/**
+ * Gets the captured requests of a session, oldest first
+ */
+export function getNetworkLog(sessionId: string = DEFAULT_SESSION_ID): NetworkEntry[] {
+  let entries = networkLogs.get(sessionId);
+  if (!entries) {
+    entries = [];
+    networkLogs.set(sessionId, entries);
+  }
+  return entries;
+}
+
+/**
+ * Drops all captured requests of a session, or of every session when no ID is given
+ */
+export function clearNetworkLog(sessionId?: string): void {
+  if (sessionId === undefined) {
+    networkLogs.clear();
+  } else {
+    networkLogs.delete(sessionId);
+  }
+}
+
+/**
+ * Whether a response body of this content type is readable as text
+ */
+function isTextContent(contentType = ''): boolean {
+  return /^text\/|[/+](x-)?(json|xml|javascript|ecmascript)\b|^application\/x-www-form-urlencoded/i.test(contentType);
+}
+
+/**
+ * Drops the bodies of the oldest requests until the bodies kept by a session's log fit in its budget
+ */
+function enforceBodyBudget(entries: NetworkEntry[]): void {
+  let total = entries.reduce((sum, entry) => sum + (entry.responseBody !== undefined ? entry.responseBodySize ?? 0 : 0), 0);
+  for (const entry of entries) {
+    if (total <= MAX_SESSION_BODY_SIZE) {
+      return;
+    }
+    if (entry.responseBody !== undefined) {
+      total -= entry.responseBodySize ?? 0;
+      delete entry.responseBody;
+      entry.responseBodyOmitted = 'Dropped to keep the network log within its memory budget';
+    }
+  }
+}
+
+/**
+ * Reads a text response body into a log entry. Binary bodies such as images and media only have their size recorded.
+ */
+async function captureResponseBody(entry: NetworkEntry, response: Response, sessionId: string): Promise<void> {
+  if (!isTextContent(entry.responseHeaders?.['content-type'])) {
+    const size = Number(entry.responseHeaders?.['content-length']);
+    if (Number.isFinite(size)) {
+      entry.responseBodySize = size;
+    }
+    entry.responseBodyOmitted = 'Binary bodies are not captured';
+    return;
+  }
+
+  let body: Buffer;
+  try {
+    body = await response.body();
+  } catch {
+    // Redirects and responses of closed pages have no body to read
+    return;
+  }
+  entry.responseBodySize = body.length;
+  if (body.length > MAX_RESPONSE_BODY_SIZE) {
+    entry.responseBodyOmitted = `Body of ${body.length} bytes exceeds the capture limit`;
+    return;
+  }
+  entry.responseBody = body.toString('utf-8');
+  enforceBodyBudget(getNetworkLog(sessionId));
+}
+
+/**
+ * Attaches request/response listeners to a page and records its traffic in the session's log
+ * @param page The page to record
+ * @param sessionId The session the page belongs to
+ */
+export function registerNetworkListeners(page: Page, sessionId: string = DEFAULT_SESSION_ID): void {
+  const pending = new WeakMap<Request, NetworkEntry>();
+
+  page.on('request', (request) => {
+    const entry: NetworkEntry = {
+      id: ++entryCounter,
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      requestHeaders: request.headers(),
+      postData: request.postData() ?? undefined,
+      startedAt: Date.now(),
+    };
+    pending.set(request, entry);
+
+    const entries = getNetworkLog(sessionId);
+    entries.push(entry);
+    if (entries.length > MAX_NETWORK_ENTRIES) {
+      entries.splice(0, entries.length - MAX_NETWORK_ENTRIES);
+    }
+  });
+
+  page.on('response', (response) => {
+    const entry = pending.get(response.request());
+    if (!entry) {
+      return;
+    }
+    entry.status = response.status();
+    entry.statusText = response.statusText();
+    entry.responseHeaders = response.headers();
+    entry.duration = Date.now() - entry.startedAt;
+    captureResponseBody(entry, response, sessionId);
+  });
+
+  page.on('requestfailed', (request) => {
+    const entry = pending.get(request);
+    if (!entry) {
+      return;
+    }
+    entry.failure = request.failure()?.errorText ?? 'Request failed';
+    entry.duration = Date.now() - entry.startedAt;
+  });
+}
+
+/**
+ * Checks a status against a filter: an exact code (404) or a class ("4xx")
+ */
+function matchesStatus(entry: NetworkEntry, status: number | string): boolean {
+  if (entry.status === undefined) {
+    return false;
+  }
+  const classMatch = /^([1-5])xx$/i.exec(String(status));
+  if (classMatch) {
+    return Math.floor(entry.status / 100) === Number(classMatch[1]);
+  }
+  return entry.status === Number(status);
+}
+
+/**
+ * Formats an entry as a single log line
+ */
+export function formatNetworkEntry(entry: NetworkEntry): string {
+  const outcome = entry.failure
+    ? `FAILED (${entry.failure})`
+    : entry.status !== undefined ? String(entry.status) : 'pending';
+  const duration = entry.duration !== undefined ? ` ${entry.duration}ms` : '';
+  return `[${entry.resourceType}] ${entry.method} ${entry.url} -> ${outcome}${duration}`;
+}
+
+/**
+ * Converts a header record to HAR name/value pairs
+ */
+function toHarHeaders(headers: Record<string, string> = {}): { name: string; value: string }[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * Builds a HAR 1.2 document from captured requests
+ */
+export function buildHar(entries: NetworkEntry[]) {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: '@runautomation/playwright-mcp', version: '1.0.0' },
+      pages: [],
+      entries: entries.map(entry => {
+        let queryString: { name: string; value: string }[] = [];
+        try {
+          queryString = Array.from(new URL(entry.url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+        } catch {
+          // Non-standard URLs (data:, blob:) have no query string
+        }
+        const time = entry.duration ?? 0;
+
+        return {
+          startedDateTime: new Date(entry.startedAt).toISOString(),
+          time,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(entry.requestHeaders),
+            queryString,
+            ...(entry.postData !== undefined && {
+              postData: {
+                mimeType: entry.requestHeaders['content-type'] ?? 'application/octet-stream',
+                text: entry.postData,
+              },
+            }),
+            headersSize: -1,
+            bodySize: entry.postData !== undefined ? Buffer.byteLength(entry.postData) : 0,
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.statusText ?? entry.failure ?? '',
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(entry.responseHeaders),
+            content: {
+              size: entry.responseBodySize ?? -1,
+              mimeType: entry.responseHeaders?.['content-type'] ?? 'x-unknown',
+              ...(entry.responseBody !== undefined && { text: entry.responseBody }),
+              ...(entry.responseBodyOmitted && { comment: entry.responseBodyOmitted }),
+            },
+            redirectURL: entry.responseHeaders?.['location'] ?? '',
+            headersSize: -1,
+            bodySize: entry.responseBodySize ?? -1,
+          },
+          cache: {},
+          timings: { send: 0, wait: time, receive: 0 },
+          _resourceType: entry.resourceType,
+          ...(entry.failure && { _failureText: entry.failure }),
+        };
+      }),
+    },
+  };
+}
+
+/**
+ * Tool for retrieving and filtering captured network requests
+ */
+export class NetworkLogTool extends BrowserToolBase {
+  /**
+   * Execute the network log tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    // Like the console logs tool, this only reads what the recorder already captured
+    const sessionId = context.sessionId ?? DEFAULT_SESSION_ID;
+    let entries = [...getNetworkLog(sessionId)];
+
+    if (args.urlPattern) {
+      entries = entries.filter(entry => matchesUrlPattern(entry.url, args.urlPattern));
+    }
+    if (args.method) {
+      entries = entries.filter(entry => entry.method === String(args.method).toUpperCase());
+    }
+    if (args.status !== undefined) {
+      entries = entries.filter(entry => matchesStatus(entry, args.status));
+    }
+    if (args.resourceType) {
+      entries = entries.filter(entry => entry.resourceType === args.resourceType);
+    }
+    if (args.failedOnly) {
+      entries = entries.filter(entry => entry.failure !== undefined);
+    }
+    if (args.limit && args.limit > 0) {
+      entries = entries.slice(-args.limit);
+    }
+
+    if (args.clear) {
+      clearNetworkLog(sessionId);
+    }
+
+    if (entries.length === 0) {
+      return createSuccessResponse("No network requests matching the criteria");
+    }
+    return createSuccessResponse([
+      `Retrieved ${entries.length} network request(s):`,
+      ...entries.map(formatNetworkEntry)
+    ]);
+  }
+}
+
+/**
+ * Tool for exporting captured network requests as a HAR file
+ */
+export class ExportHarTool extends BrowserToolBase {
+  /**
+   * Execute the export HAR tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!args.path) {
+      return createErrorResponse("Missing required parameter: path must be provided");
+    }
+
+    let entries = getNetworkLog(context.sessionId);
+    if (args.urlPattern) {
+      entries = entries.filter(entry => matchesUrlPattern(entry.url, args.urlPattern));
+    }
+
+    try {
+      const outputPath = path.resolve(args.path);
+      const outputDir = path.dirname(outputPath);
+      if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+      }
+      fs.writeFileSync(outputPath, JSON.stringify(buildHar(entries), null, 2));
+
+      return createSuccessResponse([
+        `Exported ${entries.length} request(s) to HAR file: ${outputPath}`
+      ]);
+    } catch (error) {
+      return createErrorResponse(`Failed to export HAR: ${(error as Error).message}`);
+    }
+  }
+}
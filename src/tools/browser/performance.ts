@@ -0,0 +1,305 @@
+import type { BrowserContext, Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse } from '../common/types.js';
+import { formatSize } from './downloads.js';
+
+/**
+ * Metrics measured in the page. Times are in milliseconds from the start of the navigation.
+ */
+export interface PagePerformance {
+  url: string;
+  navigation?: {
+    ttfb: number;
+    fcp?: number;
+    domContentLoaded: number;
+    load: number;
+    transferSize: number;
+  };
+  webVitals: {
+    lcp?: number;
+    cls: number;
+    inp?: number;
+    fid?: number;
+    // Total blocking time: the part of each long task after the first contentful paint beyond 50ms
+    tbt: number;
+  };
+  resources: {
+    count: number;
+    transferSize: number;
+    byType: Record<string, { count: number; transferSize: number }>;
+  };
+}
+
+/**
+ * Entries seen by the observers installed in the page, which Web Vitals are computed from
+ */
+interface PerformanceState {
+  lcp?: number;
+  layoutShifts: { startTime: number; value: number }[];
+  // Longest event duration of each interaction keyed by interaction ID
+  interactions: Map<number, number>;
+  fid?: number;
+  longTasks: { startTime: number; duration: number }[];
+}
+
+declare global {
+  interface Window {
+    __mcpPerformance?: PerformanceState;
+  }
+}
+
+// Chromium metrics from Performance.getMetrics reported by the tool, with their units
+const CDP_METRICS: Record<string, 'bytes' | 'seconds' | 'count'> = {
+  JSHeapUsedSize: 'bytes',
+  JSHeapTotalSize: 'bytes',
+  Nodes: 'count',
+  JSEventListeners: 'count',
+  LayoutCount: 'count',
+  RecalcStyleCount: 'count',
+  LayoutDuration: 'seconds',
+  RecalcStyleDuration: 'seconds',
+  ScriptDuration: 'seconds',
+  TaskDuration: 'seconds',
+};
+
+/**
+ * Starts observing the entries Web Vitals are computed from. Runs in the browser as an init script
+ * so long tasks, which are not buffered, are seen from the start of the page; buffered entries such as
+ * paints and layout shifts are also picked up when it runs later. Installing it twice is a no-op.
+ */
+function installPerformanceObservers(): void {
+  if (window.__mcpPerformance || typeof PerformanceObserver === 'undefined') {
+    return;
+  }
+  const state: PerformanceState = window.__mcpPerformance = {
+    layoutShifts: [],
+    interactions: new Map(),
+    longTasks: [],
+  };
+  const observe = (type: string, callback: (entries: any[]) => void, options: Record<string, unknown> = {}) => {
+    try {
+      new PerformanceObserver(list => callback(list.getEntries())).observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+    } catch {
+      // Entry types the browser does not support are left unmeasured
+    }
+  };
+  observe('largest-contentful-paint', entries => {
+    const last = entries[entries.length - 1];
+    state.lcp = last.renderTime || last.loadTime || last.startTime;
+  });
+  observe('layout-shift', entries => {
+    for (const entry of entries) {
+      if (!entry.hadRecentInput) {
+        state.layoutShifts.push({ startTime: entry.startTime, value: entry.value });
+      }
+    }
+  });
+  observe('event', entries => {
+    for (const entry of entries) {
+      if (entry.interactionId) {
+        state.interactions.set(entry.interactionId, Math.max(state.interactions.get(entry.interactionId) ?? 0, entry.duration));
+      }
+    }
+  }, { durationThreshold: 16 });
+  observe('first-input', entries => {
+    state.fid = entries[0].processingStart - entries[0].startTime;
+  });
+  observe('longtask', entries => {
+    for (const entry of entries) {
+      state.longTasks.push({ startTime: entry.startTime, duration: entry.duration });
+    }
+  });
+}
+
+/**
+ * Reads the metrics of the page. Runs in the browser.
+ */
+async function collectPagePerformance(): Promise<PagePerformance> {
+  // Buffered entries are delivered to observers asynchronously
+  await new Promise(resolve => setTimeout(resolve, 50));
+  const state = window.__mcpPerformance;
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const fcpEntry = performance.getEntriesByName('first-contentful-paint')[0];
+  const fcp = fcpEntry?.startTime;
+  const navigationEntry = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+  const navigation = navigationEntry && {
+    ttfb: round(navigationEntry.responseStart),
+    ...fcp !== undefined && { fcp: round(fcp) },
+    domContentLoaded: round(navigationEntry.domContentLoadedEventEnd),
+    load: round(navigationEntry.loadEventEnd),
+    transferSize: navigationEntry.transferSize,
+  };
+
+  // CLS is the largest burst of layout shifts less than 1s apart and spanning at most 5s
+  let cls = 0;
+  let windowValue = 0;
+  let windowStart = 0;
+  let previousShift = -Infinity;
+  for (const shift of state?.layoutShifts ?? []) {
+    if (shift.startTime - previousShift > 1000 || shift.startTime - windowStart > 5000) {
+      windowValue = 0;
+      windowStart = shift.startTime;
+    }
+    windowValue += shift.value;
+    previousShift = shift.startTime;
+    cls = Math.max(cls, windowValue);
+  }
+
+  // INP is approximated by the slowest interaction
+  const interactions = state ? Array.from(state.interactions.values()) : [];
+  const tbt = (state?.longTasks ?? [])
+    .filter(task => fcp === undefined || task.startTime >= fcp)
+    .reduce((total, task) => total + Math.max(task.duration - 50, 0), 0);
+
+  const resources = { count: 0, transferSize: 0, byType: {} as Record<string, { count: number; transferSize: number }> };
+  for (const entry of performance.getEntriesByType('resource') as PerformanceResourceTiming[]) {
+    const type = entry.initiatorType || 'other';
+    const summary = resources.byType[type] ??= { count: 0, transferSize: 0 };
+    summary.count++;
+    summary.transferSize += entry.transferSize;
+    resources.count++;
+    resources.transferSize += entry.transferSize;
+  }
+
+  return {
+    url: location.href,
+    navigation,
+    webVitals: {
+      ...state?.lcp !== undefined && { lcp: round(state.lcp) },
+      cls: Math.round(cls * 1000) / 1000,
+      ...interactions.length > 0 && { inp: round(Math.max(...interactions)) },
+      ...state?.fid !== undefined && { fid: round(state.fid) },
+      tbt: round(tbt),
+    },
+    resources,
+  };
+}
+
+// Contexts whose documents start observing Web Vitals entries as they load
+const observedContexts = new WeakSet<BrowserContext>();
+
+/**
+ * Starts observing Web Vitals entries on every document the context loads from now on.
+ * Done on first use of the tool, so sessions that never measure performance run no extra script.
+ */
+async function registerPerformanceObservers(context: BrowserContext): Promise<void> {
+  if (!observedContexts.has(context)) {
+    observedContexts.add(context);
+    await context.addInitScript(installPerformanceObservers);
+  }
+}
+
+/**
+ * Flattens metrics to the names budgets refer to, e.g. lcp, tbt, requests or JSHeapUsedSize
+ */
+export function flattenMetrics(metrics: PagePerformance, cdpMetrics: Record<string, number> = {}): Record<string, number> {
+  const flat: Record<string, number> = {};
+  for (const [name, value] of Object.entries({ ...metrics.navigation, ...metrics.webVitals })) {
+    if (value !== undefined) {
+      flat[name] = value;
+    }
+  }
+  flat.requests = metrics.resources.count;
+  flat.resourceTransferSize = metrics.resources.transferSize;
+  for (const [type, summary] of Object.entries(metrics.resources.byType)) {
+    flat[`${type}Requests`] = summary.count;
+    flat[`${type}TransferSize`] = summary.transferSize;
+  }
+  return { ...flat, ...cdpMetrics };
+}
+
+/**
+ * Checks metrics against a budget of maximum values
+ * @returns One result per budgeted metric; metrics that were not measured fail
+ */
+export function checkBudget(
+  metrics: Record<string, number>,
+  budget: Record<string, number>
+): { metric: string; limit: number; actual?: number; pass: boolean }[] {
+  return Object.entries(budget).map(([metric, limit]) => {
+    const actual = metrics[metric];
+    return { metric, limit, actual, pass: actual !== undefined && actual <= limit };
+  });
+}
+
+/**
+ * Formats metrics as response lines
+ */
+function formatMetrics(metrics: PagePerformance, cdpMetrics: Record<string, number>): string[] {
+  const ms = (value: number | undefined) => value === undefined ? 'n/a' : `${value}ms`;
+  const lines = [`Performance metrics for ${metrics.url}:`];
+  if (metrics.navigation) {
+    const { ttfb, fcp, domContentLoaded, load, transferSize } = metrics.navigation;
+    lines.push(`Navigation: TTFB ${ms(ttfb)}, FCP ${ms(fcp)}, DOMContentLoaded ${ms(domContentLoaded)}, load ${ms(load)}, document ${formatSize(transferSize)}`);
+  }
+  const { lcp, cls, inp, fid, tbt } = metrics.webVitals;
+  lines.push(`Web Vitals: LCP ${ms(lcp)}, CLS ${cls}, INP ${ms(inp)}, FID ${ms(fid)}, TBT ${ms(tbt)}`);
+
+  const types = Object.entries(metrics.resources.byType)
+    .sort(([, a], [, b]) => b.transferSize - a.transferSize)
+    .map(([type, summary]) => `${type} ${summary.count} (${formatSize(summary.transferSize)})`);
+  lines.push(`Resources: ${metrics.resources.count} request(s), ${formatSize(metrics.resources.transferSize)} transferred${types.length > 0 ? `: ${types.join(', ')}` : ''}`);
+
+  const cdpLines = Object.entries(cdpMetrics).map(([name, value]) => {
+    const unit = CDP_METRICS[name];
+    return `${name} ${unit === 'bytes' ? formatSize(value) : unit === 'seconds' ? `${Math.round(value * 1000)}ms` : value}`;
+  });
+  if (cdpLines.length > 0) {
+    lines.push(`Chromium: ${cdpLines.join(', ')}`);
+  }
+  return lines;
+}
+
+/**
+ * Reads Chromium's runtime metrics through CDP
+ */
+async function getCdpMetrics(page: Page): Promise<Record<string, number>> {
+  const cdp = await page.context().newCDPSession(page);
+  try {
+    await cdp.send('Performance.enable');
+    const { metrics } = await cdp.send('Performance.getMetrics');
+    return Object.fromEntries(metrics
+      .filter(metric => metric.name in CDP_METRICS)
+      .map(metric => [metric.name, metric.value]));
+  } finally {
+    await cdp.detach();
+  }
+}
+
+/**
+ * Tool for measuring navigation timing, resource sizes, Web Vitals and Chromium runtime metrics of the current page,
+ * optionally checked against a performance budget
+ */
+export class PerformanceMetricsTool extends BrowserToolBase {
+  /**
+   * Execute the performance metrics tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      await registerPerformanceObservers(page.context());
+      // The current document loaded before the observers were registered, but still gets the buffered entries
+      await page.evaluate(installPerformanceObservers);
+      const metrics = await page.evaluate(collectPagePerformance);
+
+      const browserName = page.context().browser()?.browserType().name() ?? 'chromium';
+      const cdpMetrics = browserName === 'chromium' ? await getCdpMetrics(page) : {};
+      const lines = formatMetrics(metrics, cdpMetrics);
+
+      if (!args.budget) {
+        return createSuccessResponse(lines);
+      }
+      const results = checkBudget(flattenMetrics(metrics, cdpMetrics), args.budget);
+      const failed = results.filter(result => !result.pass);
+      lines.push(failed.length === 0
+        ? `Budget: PASSED (${results.length} metric(s) within budget)`
+        : `Budget: FAILED (${failed.length} of ${results.length} metric(s) over budget)`);
+      lines.push(...results.map(result => result.actual === undefined
+        ? `  ✗ ${result.metric} not measured (budget ${result.limit})`
+        : `  ${result.pass ? '✓' : '✗'} ${result.metric} ${result.actual} ${result.pass ? '<=' : '>'} ${result.limit}`));
+
+      // An exceeded budget is a measurement result, not a failure of the tool
+      return createSuccessResponse(lines);
+    });
+  }
+}
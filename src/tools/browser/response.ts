@@ -1,9 +1,33 @@
 import type { Response } from 'playwright';
 import { BrowserToolBase } from './base.js';
 import type { ToolContext, ToolResponse } from '../common/types.js';
-import { createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
 
-const responsePromises = new Map<string, Promise<Response>>();
+// Pending response waits keyed by session ID, then by wait ID
+const responsePromises = new Map<string, Map<string, Promise<Response>>>();
+
+/**
+ * Gets the pending response waits of a session
+ */
+function getSessionResponses(sessionId: string = DEFAULT_SESSION_ID): Map<string, Promise<Response>> {
+  let promises = responsePromises.get(sessionId);
+  if (!promises) {
+    promises = new Map();
+    responsePromises.set(sessionId, promises);
+  }
+  return promises;
+}
+
+/**
+ * Drops all pending response waits of a session, or of every session when no ID is given
+ */
+export function clearResponsePromises(sessionId?: string): void {
+  if (sessionId === undefined) {
+    responsePromises.clear();
+  } else {
+    responsePromises.delete(sessionId);
+  }
+}
 
 interface ExpectResponseArgs {
   id: string;
@@ -29,7 +53,7 @@ export class ExpectResponseTool extends BrowserToolBase {
       }
 
       const responsePromise = page.waitForResponse(args.url);
-      responsePromises.set(args.id, responsePromise);
+      getSessionResponses(context.sessionId).set(args.id, responsePromise);
 
       return createSuccessResponse(`Started waiting for response with ID ${args.id}`);
     });
@@ -49,7 +73,8 @@ export class AssertResponseTool extends BrowserToolBase {
         return createErrorResponse("Missing required parameter: id must be provided");
       }
 
-      const responsePromise = responsePromises.get(args.id);
+      const sessionResponses = getSessionResponses(context.sessionId);
+      const responsePromise = sessionResponses.get(args.id);
       if (!responsePromise) {
         return createErrorResponse(`No response wait operation found with ID: ${args.id}`);
       }
@@ -79,7 +104,7 @@ export class AssertResponseTool extends BrowserToolBase {
       } catch (error) {
         return createErrorResponse(`Failed to assert response: ${(error as Error).message}`);
       } finally {
-        responsePromises.delete(args.id);
+        sessionResponses.delete(args.id);
       }
     });
   }
@@ -0,0 +1,317 @@
+import fs from 'node:fs';
+import * as path from 'node:path';
+import type { BrowserContext, Route } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+import { restoreLatencyRoute } from './throttle.js';
+
+/**
+ * A request interception registered through playwright_route
+ */
+export interface RouteEntry {
+  id: string;
+  url: string;
+  method?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  body?: string;
+  bodyPath?: string;
+  abort?: string;
+  delay?: number;
+  // Set for routes that serve responses from a HAR file instead of a handler
+  harPath?: string;
+  notFound?: 'abort' | 'fallback';
+  update?: boolean;
+  // Requests the route handled; not counted for HAR routes, whose handler Playwright installs
+  hits?: number;
+  handler?: (route: Route) => Promise<void>;
+}
+
+// Active routes keyed by session ID, then by route ID
+const sessionRoutes = new Map<string, Map<string, RouteEntry>>();
+let routeCounter = 0;
+
+/**
+ * Gets the active routes of a session
+ */
+export function getRoutes(sessionId: string = DEFAULT_SESSION_ID): Map<string, RouteEntry> {
+  let routes = sessionRoutes.get(sessionId);
+  if (!routes) {
+    routes = new Map();
+    sessionRoutes.set(sessionId, routes);
+  }
+  return routes;
+}
+
+/**
+ * Forgets the routes of a session, or of every session when no ID is given.
+ * Used when the session's context is closed, which already drops the handlers.
+ */
+export function clearRoutes(sessionId?: string): void {
+  if (sessionId === undefined) {
+    sessionRoutes.clear();
+  } else {
+    sessionRoutes.delete(sessionId);
+  }
+}
+
+/**
+ * Gets the HAR file a session is recording into, if any
+ */
+export function getHarRecording(sessionId: string = DEFAULT_SESSION_ID): RouteEntry | undefined {
+  return Array.from(getRoutes(sessionId).values()).find(entry => entry.harPath && entry.update);
+}
+
+/**
+ * Registers the routes of a session on a browser context, e.g. after the context was recreated.
+ * HAR recordings stay with the context they started on, which writes the file when it closes.
+ */
+export async function applyRoutes(sessionId: string, context: BrowserContext): Promise<void> {
+  for (const entry of getRoutes(sessionId).values()) {
+    if (!entry.update) {
+      await registerRoute(context, entry);
+    }
+  }
+}
+
+/**
+ * Registers a route on a browser context.
+ * Routes live on the context so they also apply to tabs opened later.
+ */
+async function registerRoute(context: BrowserContext, entry: RouteEntry): Promise<void> {
+  if (entry.harPath) {
+    await context.routeFromHAR(entry.harPath, {
+      url: entry.url,
+      notFound: entry.notFound,
+      update: entry.update,
+    });
+  } else {
+    await context.route(entry.url, entry.handler!);
+  }
+}
+
+/**
+ * Removes routes of a session from its browser context.
+ * The handler routeFromHAR installs cannot be referenced, so removing a HAR route removes every route
+ * of the context and registers the remaining ones again. HAR recordings keep recording until the context closes.
+ * @param removed Routes already deleted from the session's routes
+ */
+async function unregisterRoutes(context: BrowserContext, sessionId: string, removed: RouteEntry[]): Promise<void> {
+  if (removed.some(entry => entry.harPath && !entry.update)) {
+    await context.unrouteAll({ behavior: 'ignoreErrors' });
+    await applyRoutes(sessionId, context);
+    await restoreLatencyRoute(context, sessionId);
+    return;
+  }
+  for (const entry of removed) {
+    if (entry.handler) {
+      await context.unroute(entry.url, entry.handler);
+    }
+  }
+}
+
+/**
+ * Whether a route answers requests itself instead of only delaying them
+ */
+function fulfillsRequests(entry: RouteEntry): boolean {
+  return entry.status !== undefined || entry.body !== undefined || !!entry.bodyPath || !!entry.headers;
+}
+
+/**
+ * Builds the route handler that fulfills, aborts or delays matching requests
+ */
+function createRouteHandler(entry: RouteEntry): (route: Route) => Promise<void> {
+  return async (route: Route) => {
+    if (entry.method && route.request().method() !== entry.method) {
+      await route.fallback();
+      return;
+    }
+    entry.hits = (entry.hits ?? 0) + 1;
+
+    if (entry.delay) {
+      await new Promise(resolve => setTimeout(resolve, entry.delay));
+    }
+
+    if (entry.abort) {
+      await route.abort(entry.abort);
+    } else if (fulfillsRequests(entry)) {
+      await route.fulfill({
+        status: entry.status ?? 200,
+        headers: entry.headers,
+        contentType: entry.contentType,
+        ...(entry.bodyPath ? { path: entry.bodyPath } : { body: entry.body ?? '' }),
+      });
+    } else {
+      await route.continue();
+    }
+  };
+}
+
+/**
+ * Builds a serializable description of a route
+ */
+function describeRoute(entry: RouteEntry) {
+  const { handler, ...description } = entry;
+  return description;
+}
+
+/**
+ * Tool for intercepting requests and mocking, aborting or delaying their responses
+ */
+export class RouteTool extends BrowserToolBase {
+  /**
+   * Execute the route tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!args.url) {
+        return createErrorResponse("Missing required parameter: url must be provided");
+      }
+      if (args.abort && (args.status !== undefined || args.body !== undefined || args.bodyPath)) {
+        return createErrorResponse("Cannot both abort and fulfill a route");
+      }
+
+      let bodyPath: string | undefined;
+      if (args.bodyPath) {
+        bodyPath = path.resolve(args.bodyPath);
+        if (!fs.existsSync(bodyPath)) {
+          return createErrorResponse(`Body file not found: ${bodyPath}`);
+        }
+      }
+
+      // Objects are sent as JSON so mocked APIs can be described inline
+      const isJsonBody = args.body !== undefined && typeof args.body !== 'string';
+      const entry = {
+        id: `route-${++routeCounter}`,
+        url: args.url,
+        method: args.method ? String(args.method).toUpperCase() : undefined,
+        status: args.status,
+        headers: args.headers,
+        contentType: args.contentType ?? (isJsonBody ? 'application/json' : undefined),
+        body: isJsonBody ? JSON.stringify(args.body) : args.body,
+        bodyPath,
+        abort: args.abort ? (args.errorCode || 'failed') : undefined,
+        delay: args.delay,
+        hits: 0,
+      } as RouteEntry;
+      entry.handler = createRouteHandler(entry);
+
+      await registerRoute(page.context(), entry);
+      getRoutes(context.sessionId).set(entry.id, entry);
+
+      const behavior = entry.abort
+        ? `abort with '${entry.abort}'`
+        : fulfillsRequests(entry) ? `fulfill with status ${entry.status ?? 200}` : 'continue';
+      return createSuccessResponse([
+        `Added route ${entry.id} for ${entry.method ?? 'any method'} ${entry.url}`,
+        `Matching requests will ${behavior}${entry.delay ? ` after ${entry.delay}ms` : ''}`
+      ]);
+    });
+  }
+}
+
+/**
+ * Tool for serving responses from a HAR file, optionally recording missing entries into it
+ */
+export class RouteFromHarTool extends BrowserToolBase {
+  /**
+   * Execute the route from HAR tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!args.path) {
+        return createErrorResponse("Missing required parameter: path must be provided");
+      }
+      if (args.notFound && args.notFound !== 'abort' && args.notFound !== 'fallback') {
+        return createErrorResponse(`Invalid notFound value: ${args.notFound}. Use 'abort' or 'fallback'`);
+      }
+
+      const harPath = path.resolve(args.path);
+      if (args.update) {
+        // The HAR is (re)written when the context closes
+        fs.mkdirSync(path.dirname(harPath), { recursive: true });
+      } else if (!fs.existsSync(harPath)) {
+        return createErrorResponse(`HAR file not found: ${harPath}`);
+      }
+
+      const entry: RouteEntry = {
+        id: `route-${++routeCounter}`,
+        url: args.url || '**/*',
+        harPath,
+        notFound: args.notFound || 'abort',
+        update: !!args.update,
+      };
+      await registerRoute(page.context(), entry);
+      getRoutes(context.sessionId).set(entry.id, entry);
+
+      const messages = [`Added route ${entry.id} serving ${entry.url} from HAR file: ${harPath}`];
+      if (entry.update) {
+        messages.push('Update mode: requests go to the network and the HAR file is written when the session closes');
+      } else {
+        messages.push(`Requests missing from the HAR will ${entry.notFound === 'abort' ? 'be aborted' : 'fall back to other routes or the network'}`);
+      }
+      return createSuccessResponse(messages);
+    });
+  }
+}
+
+/**
+ * Tool for removing request interceptions
+ */
+export class UnrouteTool extends BrowserToolBase {
+  /**
+   * Execute the unroute tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const sessionId = context.sessionId ?? DEFAULT_SESSION_ID;
+      const routes = getRoutes(sessionId);
+
+      let matching: RouteEntry[];
+      if (args.all) {
+        matching = Array.from(routes.values());
+      } else if (args.routeId) {
+        const entry = routes.get(args.routeId);
+        if (!entry) {
+          return createErrorResponse(`Route not found: ${args.routeId}`);
+        }
+        matching = [entry];
+      } else if (args.url) {
+        matching = Array.from(routes.values()).filter(entry => entry.url === args.url);
+      } else {
+        return createErrorResponse("One of routeId, url or all must be provided");
+      }
+
+      const messages = [`Removed ${matching.length} route(s)`];
+      for (const entry of matching) {
+        routes.delete(entry.id);
+        if (entry.harPath && entry.update) {
+          messages.push(`Recording into ${entry.harPath} continues until the session closes`);
+        }
+      }
+      await unregisterRoutes(page.context(), sessionId, matching);
+
+      return createSuccessResponse(messages);
+    });
+  }
+}
+
+/**
+ * Tool for listing active request interceptions
+ */
+export class ListRoutesTool extends BrowserToolBase {
+  /**
+   * Execute the list routes tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const routes = Array.from(getRoutes(context.sessionId).values());
+    if (routes.length === 0) {
+      return createSuccessResponse("No active routes");
+    }
+    return createSuccessResponse([
+      `${routes.length} active route(s):`,
+      JSON.stringify(routes.map(describeRoute), null, 2)
+    ]);
+  }
+}
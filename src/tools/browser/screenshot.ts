@@ -1,9 +1,9 @@
 import fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import type { Page } from 'playwright';
+import type { ElementHandle, Frame, Page } from 'playwright';
 import { BrowserToolBase } from './base.js';
-import { ToolContext, ToolResponse, createSuccessResponse } from '../common/types.js';
+import { ToolContext, ToolResponse, createSuccessResponse, DEFAULT_SESSION_ID } from '../common/types.js';
 
 const defaultDownloadsPath = path.join(os.homedir(), 'Downloads');
 
@@ -11,7 +11,8 @@ const defaultDownloadsPath = path.join(os.homedir(), 'Downloads');
  * Tool for taking screenshots of pages or elements
  */
 export class ScreenshotTool extends BrowserToolBase {
-  private screenshots = new Map<string, string>();
+  // Base64 screenshots keyed by session ID, then by screenshot name
+  private screenshots = new Map<string, Map<string, string>>();
 
   /**
    * Execute the screenshot tool
@@ -23,8 +24,11 @@ export class ScreenshotTool extends BrowserToolBase {
         fullPage: !!args.fullPage
       };
 
+      // Screenshots of a frame capture its iframe element unless a selector inside it is given
+      const frame = await this.resolveFrame(page, args);
+      let element: ElementHandle | null = null;
       if (args.selector) {
-        const element = await page.$(args.selector);
+        element = await frame.$(args.selector);
         if (!element) {
           return {
             content: [{
@@ -34,7 +38,8 @@ export class ScreenshotTool extends BrowserToolBase {
             isError: true
           };
         }
-        screenshotOptions.element = element;
+      } else if (frame !== page) {
+        element = await (frame as Frame).frameElement();
       }
 
       // Generate output path
@@ -49,14 +54,16 @@ export class ScreenshotTool extends BrowserToolBase {
       const outputPath = path.join(downloadsDir, filename);
       screenshotOptions.path = outputPath;
 
-      const screenshot = await page.screenshot(screenshotOptions);
+      const screenshot = element
+        ? await element.screenshot({ type: screenshotOptions.type, path: outputPath })
+        : await page.screenshot(screenshotOptions);
       const base64Screenshot = screenshot.toString('base64');
 
       const messages = [`Screenshot saved to: ${path.relative(process.cwd(), outputPath)}`];
 
       // Handle base64 storage
       if (args.storeBase64 !== false) {
-        this.screenshots.set(args.name || 'screenshot', base64Screenshot);
+        this.getScreenshots(context.sessionId).set(args.name || 'screenshot', base64Screenshot);
         this.server.notification({
           method: "notifications/resources/list_changed",
         });
@@ -69,9 +76,21 @@ export class ScreenshotTool extends BrowserToolBase {
   }
 
   /**
-   * Get all stored screenshots
+   * Get all stored screenshots of a session
    */
-  getScreenshots(): Map<string, string> {
-    return this.screenshots;
+  getScreenshots(sessionId: string = DEFAULT_SESSION_ID): Map<string, string> {
+    let screenshots = this.screenshots.get(sessionId);
+    if (!screenshots) {
+      screenshots = new Map();
+      this.screenshots.set(sessionId, screenshots);
+    }
+    return screenshots;
+  }
+
+  /**
+   * Drop all stored screenshots of a session
+   */
+  clearScreenshots(sessionId: string = DEFAULT_SESSION_ID): void {
+    this.screenshots.delete(sessionId);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,154 @@
+import type { Locator } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import type { FrameRoot } from '../common/frames.js';
+
+const DEFAULT_MAX_ITERATIONS = 20;
+const DEFAULT_SCROLL_WAIT = 500;
+
+interface ScrollOptions {
+  deltaX?: number;
+  deltaY?: number;
+  to?: 'top' | 'bottom';
+}
+
+interface ScrollPosition {
+  scrollTop: number;
+  scrollLeft: number;
+  scrollHeight: number;
+  clientHeight: number;
+}
+
+/**
+ * Gets the element to scroll: the container if given, otherwise the document
+ */
+function getScrollContainer(root: FrameRoot, container?: string): Locator {
+  return root.locator(container || 'html');
+}
+
+/**
+ * Scrolls a container by a delta or to its top or bottom and reports the new position
+ */
+async function scrollContainer(container: Locator, options: ScrollOptions): Promise<ScrollPosition> {
+  return container.evaluate((el, { deltaX, deltaY, to }) => {
+    // The document scrolls through document.scrollingElement, which is <body> in quirks mode
+    const target = el === document.documentElement ? (document.scrollingElement ?? el) : el;
+    if (to === 'top') {
+      target.scrollTo({ top: 0 });
+    } else if (to === 'bottom') {
+      target.scrollTo({ top: target.scrollHeight });
+    } else {
+      target.scrollBy({ left: deltaX ?? 0, top: deltaY ?? 0 });
+    }
+    return {
+      scrollTop: Math.round(target.scrollTop),
+      scrollLeft: Math.round(target.scrollLeft),
+      scrollHeight: target.scrollHeight,
+      clientHeight: target.clientHeight,
+    };
+  }, options);
+}
+
+/**
+ * Describes a scroll position for tool responses
+ */
+function describePosition(position: ScrollPosition): string {
+  const atBottom = position.scrollTop + position.clientHeight >= position.scrollHeight - 1;
+  return `scrollTop ${position.scrollTop}, scrollLeft ${position.scrollLeft}, scrollHeight ${position.scrollHeight}${atBottom ? ' (at bottom)' : ''}`;
+}
+
+/**
+ * Tool for scrolling the page or a scrollable container
+ */
+export class ScrollTool extends BrowserToolBase {
+  /**
+   * Execute the scroll tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const hasTarget = !!(args.selector || args.ref || args.locator);
+      const hasDelta = args.deltaX !== undefined || args.deltaY !== undefined;
+      if ([hasTarget, hasDelta, !!args.to].filter(Boolean).length !== 1) {
+        return createErrorResponse("Exactly one of selector/ref/locator, deltaX/deltaY or to must be provided");
+      }
+      if (args.to && args.to !== 'top' && args.to !== 'bottom') {
+        return createErrorResponse(`Invalid to value: ${args.to}. Use 'top' or 'bottom'`);
+      }
+
+      if (hasTarget) {
+        const locator = await this.resolveLocator(page, args);
+        await locator.scrollIntoViewIfNeeded();
+        return createSuccessResponse(`Scrolled ${this.describeTarget(args)} into view`);
+      }
+
+      const root = await this.resolveFrameRoot(page, args);
+      const position = await scrollContainer(getScrollContainer(root, args.container), {
+        deltaX: args.deltaX,
+        deltaY: args.deltaY,
+        to: args.to,
+      });
+      const action = args.to ? `to ${args.to}` : `by (${args.deltaX ?? 0}, ${args.deltaY ?? 0})`;
+      return createSuccessResponse(`Scrolled ${args.container ?? 'page'} ${action}: ${describePosition(position)}`);
+    });
+  }
+}
+
+/**
+ * Tool for scrolling feeds and infinite lists until an element appears or no more items load
+ */
+export class ScrollUntilTool extends BrowserToolBase {
+  /**
+   * Execute the scroll until tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!args.untilSelector && !args.itemSelector) {
+        return createErrorResponse("Missing required parameter: untilSelector or itemSelector must be provided");
+      }
+
+      const root = await this.resolveFrameRoot(page, args);
+      const container = getScrollContainer(root, args.container);
+      const maxIterations = args.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+      const wait = args.wait ?? DEFAULT_SCROLL_WAIT;
+      const scrollOptions: ScrollOptions = args.deltaY !== undefined ? { deltaY: args.deltaY } : { to: 'bottom' };
+      const countItems = () => root.locator(args.itemSelector).count();
+      const isFound = async () => !!args.untilSelector && await root.locator(args.untilSelector).count() > 0;
+
+      const initialCount = args.itemSelector ? await countItems() : undefined;
+      let count = initialCount;
+      let iterations = 0;
+      let reason = `reached the maximum of ${maxIterations} scrolls`;
+      while (true) {
+        if (await isFound()) {
+          reason = `found ${args.untilSelector}`;
+          break;
+        }
+        if (iterations >= maxIterations) {
+          break;
+        }
+
+        await scrollContainer(container, scrollOptions);
+        iterations++;
+        // Give the page time to load and render the next items
+        await page.waitForTimeout(wait);
+
+        if (args.itemSelector) {
+          const newCount = await countItems();
+          // The loop checks untilSelector again before stopping for good
+          if (newCount <= count! && !(await isFound())) {
+            reason = 'item count stopped growing';
+            count = newCount;
+            break;
+          }
+          count = newCount;
+        }
+      }
+
+      const messages = [`Scrolled ${iterations} time(s): ${reason}`];
+      if (initialCount !== undefined) {
+        messages.push(`Items matching ${args.itemSelector}: ${count} (${count! - initialCount} loaded)`);
+      }
+      return createSuccessResponse(messages);
+    });
+  }
+}
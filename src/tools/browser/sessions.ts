@@ -0,0 +1,103 @@
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { ensureBrowser, validateBrowserSettings, getSession, listSessions, destroySession, BrowserSettings } from '../../toolHandler.js';
+import { pickEmulationSettings } from './devices.js';
+
+/**
+ * Tool for creating a named, isolated browser session (its own context, cookies and storage)
+ */
+export class CreateSessionTool extends BrowserToolBase {
+  /**
+   * Execute the create session tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!args.sessionId) {
+      return createErrorResponse("Missing required parameter: sessionId must be provided");
+    }
+
+    if (getSession(args.sessionId)) {
+      return createErrorResponse(`Session already exists: ${args.sessionId}`);
+    }
+
+    const browserSettings: BrowserSettings = {
+      sessionId: args.sessionId,
+      viewport: {
+        width: args.width,
+        height: args.height
+      },
+      userAgent: args.userAgent,
+      headless: args.headless,
+      browserType: args.browserType || 'chromium',
+      downloadsDir: args.downloadsDir,
+      emulation: pickEmulationSettings(args)
+    };
+
+    try {
+      validateBrowserSettings(browserSettings);
+    } catch (error) {
+      return createErrorResponse((error as Error).message);
+    }
+
+    try {
+      const page = await ensureBrowser(browserSettings);
+
+      if (args.url) {
+        await page.goto(args.url, {
+          timeout: args.timeout || 30000,
+          waitUntil: args.waitUntil || "load"
+        });
+      }
+
+      return createSuccessResponse(`Created session '${args.sessionId}'${args.url ? ` at ${page.url()}` : ''}`);
+    } catch (error) {
+      return createErrorResponse(`Failed to create session: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for listing all browser sessions
+ */
+export class ListSessionsTool extends BrowserToolBase {
+  /**
+   * Execute the list sessions tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const sessions = listSessions().map(session => ({
+      sessionId: session.id,
+      tabs: session.tabs.size,
+      url: session.page && !session.page.isClosed() ? session.page.url() : null,
+      createdAt: new Date(session.createdAt).toISOString()
+    }));
+
+    if (sessions.length === 0) {
+      return createSuccessResponse("No browser sessions are open");
+    }
+
+    return createSuccessResponse([
+      `Browser sessions (${sessions.length}):`,
+      JSON.stringify(sessions, null, 2)
+    ]);
+  }
+}
+
+/**
+ * Tool for closing a browser session and releasing its context
+ */
+export class DestroySessionTool extends BrowserToolBase {
+  /**
+   * Execute the destroy session tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!args.sessionId) {
+      return createErrorResponse("Missing required parameter: sessionId must be provided");
+    }
+
+    const existed = await destroySession(args.sessionId);
+    if (!existed) {
+      return createErrorResponse(`Session not found: ${args.sessionId}`);
+    }
+
+    return createSuccessResponse(`Destroyed session '${args.sessionId}'`);
+  }
+}
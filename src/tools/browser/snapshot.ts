@@ -0,0 +1,340 @@
+import type { Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+import { REF_ATTRIBUTE } from '../common/refs.js';
+
+/**
+ * A node of the accessibility snapshot
+ */
+export interface SnapshotNode {
+  role: string;
+  name?: string;
+  ref?: string;
+  value?: string;
+  level?: number;
+  checked?: boolean | 'mixed';
+  disabled?: boolean;
+  expanded?: boolean;
+  selected?: boolean;
+  pressed?: boolean;
+  required?: boolean;
+  children?: SnapshotNode[];
+}
+
+/**
+ * Role and accessible name of a ref, used to turn ref-based actions into role locators
+ */
+export interface RefTarget {
+  role: string;
+  name?: string;
+}
+
+/**
+ * What the in-page walker returns
+ */
+interface CapturedSnapshot {
+  nodes: SnapshotNode[];
+  // Refs of every element of the document that still carries one, including elements outside the root
+  liveRefs: string[];
+}
+
+// Refs of the latest snapshots keyed by session ID
+const snapshotRefs = new Map<string, Map<string, RefTarget>>();
+
+/**
+ * Looks up the role and name a ref had in the latest snapshot of a session
+ */
+export function getRefTarget(ref: string, sessionId: string = DEFAULT_SESSION_ID): RefTarget | undefined {
+  return snapshotRefs.get(sessionId)?.get(ref);
+}
+
+/**
+ * Drops the remembered refs of a session, or of every session when no ID is given
+ */
+export function clearSnapshotRefs(sessionId?: string): void {
+  if (sessionId === undefined) {
+    snapshotRefs.clear();
+  } else {
+    snapshotRefs.delete(sessionId);
+  }
+}
+
+/**
+ * Walks the DOM below the root element and builds the accessibility tree in the page,
+ * writing a ref attribute on each element it lists
+ */
+async function captureSnapshot(page: Page, rootSelector: string): Promise<CapturedSnapshot | null> {
+  return page.evaluate(({ rootSelector, refAttribute }) => {
+    const root = document.querySelector(rootSelector);
+    if (!root) {
+      return null;
+    }
+
+    const win = window as unknown as { __mcpRefCounter?: number };
+    // Roles named by their content; their descendants are not listed separately
+    const NAME_FROM_CONTENT = new Set(['button', 'link', 'heading', 'option', 'tab', 'menuitem', 'treeitem', 'tooltip']);
+    const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'META', 'LINK']);
+    const VALUE_ROLES = new Set(['textbox', 'searchbox', 'spinbutton', 'slider', 'combobox']);
+
+    const normalize = (text: string | null | undefined, max = 100) => {
+      const collapsed = (text ?? '').replace(/\s+/g, ' ').trim();
+      return collapsed.length > max ? `${collapsed.slice(0, max)}...` : collapsed;
+    };
+
+    const isHidden = (el: Element) => {
+      if ((el as HTMLElement).hidden || el.getAttribute('aria-hidden') === 'true') {
+        return true;
+      }
+      const style = window.getComputedStyle(el);
+      return style.display === 'none' || style.visibility === 'hidden';
+    };
+
+    const implicitRole = (el: Element): string | null => {
+      const tag = el.tagName.toLowerCase();
+      switch (tag) {
+        case 'a':
+        case 'area':
+          return el.hasAttribute('href') ? 'link' : null;
+        case 'button':
+        case 'summary':
+          return 'button';
+        case 'input': {
+          const type = ((el as HTMLInputElement).type || 'text').toLowerCase();
+          if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+          if (type === 'checkbox') return 'checkbox';
+          if (type === 'radio') return 'radio';
+          if (type === 'range') return 'slider';
+          if (type === 'number') return 'spinbutton';
+          if (type === 'search') return 'searchbox';
+          if (type === 'hidden' || type === 'file') return null;
+          return 'textbox';
+        }
+        case 'textarea':
+          return 'textbox';
+        case 'select': {
+          const select = el as HTMLSelectElement;
+          return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+        }
+        case 'option':
+          return 'option';
+        case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+          return 'heading';
+        case 'img':
+          return el.getAttribute('alt') === '' ? null : 'img';
+        case 'nav': return 'navigation';
+        case 'main': return 'main';
+        case 'header': return 'banner';
+        case 'footer': return 'contentinfo';
+        case 'aside': return 'complementary';
+        case 'form': return 'form';
+        case 'ul': case 'ol': return 'list';
+        case 'li': return 'listitem';
+        case 'table': return 'table';
+        case 'tr': return 'row';
+        case 'th': return 'columnheader';
+        case 'td': return 'cell';
+        case 'dialog': return 'dialog';
+        case 'p': return 'paragraph';
+        case 'details': case 'fieldset': return 'group';
+        case 'progress': return 'progressbar';
+        case 'iframe': return 'iframe';
+        case 'section':
+          return el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby') ? 'region' : null;
+        default:
+          return null;
+      }
+    };
+
+    const accessibleName = (el: Element, role: string): string => {
+      const labelledBy = el.getAttribute('aria-labelledby');
+      if (labelledBy) {
+        const text = labelledBy.split(/\s+/)
+          .map(id => document.getElementById(id)?.textContent ?? '')
+          .join(' ');
+        if (normalize(text)) return normalize(text);
+      }
+      const ariaLabel = el.getAttribute('aria-label');
+      if (ariaLabel && normalize(ariaLabel)) return normalize(ariaLabel);
+
+      const labels = (el as HTMLInputElement).labels;
+      if (labels && labels.length > 0) {
+        return normalize(Array.from(labels).map(label => label.textContent).join(' '));
+      }
+      if (el.tagName === 'IMG') return normalize(el.getAttribute('alt'));
+      if (el.tagName === 'INPUT' && ['button', 'submit', 'reset'].includes((el as HTMLInputElement).type)) {
+        return normalize((el as HTMLInputElement).value);
+      }
+      if (NAME_FROM_CONTENT.has(role)) {
+        const text = normalize((el as HTMLElement).innerText ?? el.textContent);
+        if (text) return text;
+      }
+      return normalize(el.getAttribute('placeholder') || el.getAttribute('title'));
+    };
+
+    const assignRef = (el: Element): string => {
+      let ref = el.getAttribute(refAttribute);
+      if (!ref) {
+        win.__mcpRefCounter = (win.__mcpRefCounter ?? 0) + 1;
+        ref = `e${win.__mcpRefCounter}`;
+        el.setAttribute(refAttribute, ref);
+      }
+      return ref;
+    };
+
+    const describe = (el: Element, role: string) => {
+      const node: Record<string, unknown> = { role, ref: assignRef(el) };
+      const name = accessibleName(el, role);
+      if (name) node.name = name;
+
+      const input = el as HTMLInputElement;
+      if (role === 'heading') {
+        node.level = Number(el.getAttribute('aria-level')) || Number(el.tagName.slice(1)) || 2;
+      }
+      if (role === 'checkbox' || role === 'radio' || el.hasAttribute('aria-checked')) {
+        const ariaChecked = el.getAttribute('aria-checked');
+        node.checked = ariaChecked === 'mixed' ? 'mixed' : ariaChecked !== null ? ariaChecked === 'true' : !!input.checked;
+      }
+      if (input.disabled || el.getAttribute('aria-disabled') === 'true') node.disabled = true;
+      if (el.hasAttribute('aria-expanded')) node.expanded = el.getAttribute('aria-expanded') === 'true';
+      if (el.tagName === 'DETAILS') node.expanded = (el as HTMLDetailsElement).open;
+      if ((el as HTMLOptionElement).selected || el.getAttribute('aria-selected') === 'true') node.selected = true;
+      if (el.hasAttribute('aria-pressed')) node.pressed = el.getAttribute('aria-pressed') === 'true';
+      if (input.required || el.getAttribute('aria-required') === 'true') node.required = true;
+
+      if (VALUE_ROLES.has(role)) {
+        if (el.tagName === 'SELECT') {
+          node.value = normalize(Array.from((el as HTMLSelectElement).selectedOptions).map(option => option.text).join(', '));
+        } else if (input.type === 'password') {
+          node.value = input.value ? '••••' : '';
+        } else if ('value' in input) {
+          node.value = normalize(input.value);
+        }
+        if (!node.value) delete node.value;
+      }
+      return node;
+    };
+
+    const walk = (parent: Node): Record<string, unknown>[] => {
+      const nodes: Record<string, unknown>[] = [];
+      parent.childNodes.forEach(child => {
+        if (child.nodeType === Node.TEXT_NODE) {
+          const text = normalize(child.textContent);
+          if (text) nodes.push({ role: 'text', name: text });
+          return;
+        }
+        if (child.nodeType !== Node.ELEMENT_NODE) {
+          return;
+        }
+        const el = child as Element;
+        if (SKIPPED_TAGS.has(el.tagName) || isHidden(el)) {
+          return;
+        }
+
+        const explicitRole = el.getAttribute('role')?.split(/\s+/)[0];
+        const role = explicitRole && explicitRole !== 'none' && explicitRole !== 'presentation'
+          ? explicitRole
+          : explicitRole ? null : implicitRole(el);
+        if (!role) {
+          // Generic containers are flattened into their parent
+          nodes.push(...walk(el));
+          return;
+        }
+
+        const node = describe(el, role);
+        if (!NAME_FROM_CONTENT.has(role) && role !== 'iframe' && el.tagName !== 'SELECT') {
+          const children = walk(el);
+          if (children.length > 0) node.children = children;
+        }
+        nodes.push(node);
+      });
+      return nodes;
+    };
+
+    const nodes = walk(root) as unknown as SnapshotNode[];
+    const liveRefs = Array.from(document.querySelectorAll(`[${refAttribute}]`), el => el.getAttribute(refAttribute)!);
+    return { nodes, liveRefs };
+  }, { rootSelector, refAttribute: REF_ATTRIBUTE });
+}
+
+/**
+ * Renders snapshot nodes in a compact YAML form similar to Playwright's aria snapshots
+ */
+export function formatSnapshot(nodes: SnapshotNode[], indent = ''): string {
+  return nodes.map(node => {
+    if (node.role === 'text') {
+      return `${indent}- text: ${JSON.stringify(node.name)}`;
+    }
+
+    let line = `${indent}- ${node.role}`;
+    if (node.name) line += ` ${JSON.stringify(node.name)}`;
+    if (node.level !== undefined) line += ` [level=${node.level}]`;
+    if (node.checked !== undefined) line += node.checked === 'mixed' ? ' [checked=mixed]' : node.checked ? ' [checked]' : '';
+    if (node.disabled) line += ' [disabled]';
+    if (node.expanded !== undefined) line += ` [expanded=${node.expanded}]`;
+    if (node.selected) line += ' [selected]';
+    if (node.pressed !== undefined) line += ` [pressed=${node.pressed}]`;
+    if (node.required) line += ' [required]';
+    if (node.ref) line += ` [ref=${node.ref}]`;
+
+    const children = node.children ?? [];
+    if (node.value !== undefined) {
+      return `${line}: ${JSON.stringify(node.value)}`;
+    }
+    // A single text child is inlined, e.g. - listitem [ref=e4]: "Home"
+    if (children.length === 1 && children[0].role === 'text') {
+      return `${line}: ${JSON.stringify(children[0].name)}`;
+    }
+    if (children.length > 0) {
+      return `${line}:\n${formatSnapshot(children, indent + '  ')}`;
+    }
+    return line;
+  }).join('\n');
+}
+
+/**
+ * Collects the role and name of every ref in a snapshot
+ */
+function collectRefs(nodes: SnapshotNode[], refs: Map<string, RefTarget>): Map<string, RefTarget> {
+  for (const node of nodes) {
+    if (node.ref) {
+      refs.set(node.ref, { role: node.role, ...(node.name && { name: node.name }) });
+    }
+    if (node.children) {
+      collectRefs(node.children, refs);
+    }
+  }
+  return refs;
+}
+
+/**
+ * Tool for capturing a compact accessibility tree of the page with element refs
+ */
+export class SnapshotTool extends BrowserToolBase {
+  /**
+   * Execute the snapshot tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const rootSelector = args.selector || 'body';
+      const snapshot = await captureSnapshot(page, rootSelector);
+      if (!snapshot) {
+        return createErrorResponse(`Element not found: ${rootSelector}`);
+      }
+      const { nodes, liveRefs } = snapshot;
+
+      // Refs of earlier snapshots stay valid as long as their elements exist, so only refs of removed elements are dropped
+      const sessionId = context.sessionId ?? DEFAULT_SESSION_ID;
+      const live = new Set(liveRefs);
+      const refs = new Map(Array.from(snapshotRefs.get(sessionId) ?? []).filter(([ref]) => live.has(ref)));
+      snapshotRefs.set(sessionId, collectRefs(nodes, refs));
+
+      const output = args.format === 'json'
+        ? JSON.stringify(nodes, null, 2)
+        : formatSnapshot(nodes);
+      return createSuccessResponse([
+        `Accessibility snapshot of ${page.url()} (use ref values with the ref parameter of interaction tools):`,
+        output
+      ]);
+    });
+  }
+}
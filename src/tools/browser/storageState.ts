@@ -0,0 +1,90 @@
+import fs from 'node:fs';
+import * as path from 'node:path';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+import { recreateSessionContext } from '../../toolHandler.js';
+
+/**
+ * Reads a storage state file, so problems are reported before a context is created from it
+ * @throws If the file is missing, unreadable or not valid JSON
+ */
+export function readStorageStateFile(statePath: string): { cookies?: unknown[]; origins?: unknown[] } {
+  if (!fs.existsSync(statePath)) {
+    throw new Error(`Storage state file not found: ${statePath}`);
+  }
+  try {
+    return JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid storage state file: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Tool for saving cookies and localStorage of the current session to a JSON file
+ */
+export class SaveStorageStateTool extends BrowserToolBase {
+  /**
+   * Execute the save storage state tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!args.path) {
+        return createErrorResponse("Missing required parameter: path must be provided");
+      }
+
+      const outputPath = path.resolve(args.path);
+      const outputDir = path.dirname(outputPath);
+      if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+      }
+
+      const state = await page.context().storageState({ path: outputPath });
+      return createSuccessResponse([
+        `Saved storage state to: ${outputPath}`,
+        `Cookies: ${state.cookies.length}, origins with localStorage: ${state.origins.length}`
+      ]);
+    });
+  }
+}
+
+/**
+ * Tool for restarting the current session from a previously saved storage state file
+ */
+export class LoadStorageStateTool extends BrowserToolBase {
+  /**
+   * Execute the load storage state tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (!args.path) {
+        return createErrorResponse("Missing required parameter: path must be provided");
+      }
+
+      const statePath = path.resolve(args.path);
+      let state: { cookies?: unknown[]; origins?: unknown[] };
+      try {
+        state = readStorageStateFile(statePath);
+      } catch (error) {
+        return createErrorResponse((error as Error).message);
+      }
+
+      // Reopen the current page unless another URL is requested
+      const previousUrl = page.url();
+      const targetUrl = args.url || (/^https?:/.test(previousUrl) ? previousUrl : undefined);
+
+      const newPage = await recreateSessionContext(context.sessionId ?? DEFAULT_SESSION_ID, { storageState: statePath });
+      if (targetUrl) {
+        await newPage.goto(targetUrl, {
+          timeout: args.timeout || 30000,
+          waitUntil: args.waitUntil || "load"
+        });
+      }
+
+      return createSuccessResponse([
+        `Loaded storage state from: ${statePath}`,
+        `Cookies: ${state.cookies?.length ?? 0}, origins with localStorage: ${state.origins?.length ?? 0}`,
+        targetUrl ? `Opened ${targetUrl} in the new context` : 'New context is ready'
+      ]);
+    });
+  }
+}
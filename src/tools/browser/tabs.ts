@@ -0,0 +1,155 @@
+import type { Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { matchesUrlPattern } from '../common/urlPattern.js';
+import { listTabs, setGlobalPage, trackPage } from '../../toolHandler.js';
+
+/**
+ * Builds a serializable description of a tab
+ */
+async function describeTab(id: string, tabPage: Page, index: number, active: boolean) {
+  let title = '';
+  try {
+    title = await tabPage.title();
+  } catch {
+    // Title is not available while the page is navigating
+  }
+  return { id, index, url: tabPage.url(), title, active };
+}
+
+/**
+ * Tool for listing all open tabs in the browser context
+ */
+export class ListTabsTool extends BrowserToolBase {
+  /**
+   * Execute the list tabs tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const tabs = listTabs(context.sessionId);
+      const described = await Promise.all(
+        tabs.map((tab, index) => describeTab(tab.id, tab.page, index, tab.active))
+      );
+
+      return createSuccessResponse([
+        `Open tabs (${described.length}):`,
+        JSON.stringify(described, null, 2)
+      ]);
+    });
+  }
+}
+
+/**
+ * Tool for opening a new tab and switching to it
+ */
+export class NewTabTool extends BrowserToolBase {
+  /**
+   * Execute the new tab tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const newPage = await page.context().newPage();
+      const tabId = await trackPage(newPage, context.sessionId);
+
+      if (args.url) {
+        await newPage.goto(args.url, {
+          timeout: args.timeout || 30000,
+          waitUntil: args.waitUntil || "load"
+        });
+      }
+
+      setGlobalPage(newPage, context.sessionId);
+      return createSuccessResponse(`Opened new tab ${tabId}${args.url ? ` at ${newPage.url()}` : ''}`);
+    });
+  }
+}
+
+/**
+ * Tool for switching the active tab by ID, index, URL pattern or title
+ */
+export class SwitchTabTool extends BrowserToolBase {
+  /**
+   * Execute the switch tab tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const tabs = listTabs(context.sessionId);
+      let target: { id: string; page: Page } | undefined;
+
+      if (args.tabId) {
+        target = tabs.find(tab => tab.id === args.tabId);
+      } else if (args.index !== undefined) {
+        const tabIndex = Number(args.index);
+        if (isNaN(tabIndex)) {
+          return createErrorResponse(`Invalid tab index: ${args.index}. It must be a number.`);
+        }
+        if (tabIndex < 0 || tabIndex >= tabs.length) {
+          return createErrorResponse(
+            `Tab index out of range: ${tabIndex}. Available tabs: 0 to ${tabs.length - 1}.`
+          );
+        }
+        target = tabs[tabIndex];
+      } else if (args.urlPattern) {
+        target = tabs.find(tab => matchesUrlPattern(tab.page.url(), args.urlPattern));
+      } else if (args.title) {
+        const expected = String(args.title).toLowerCase();
+        for (const tab of tabs) {
+          const title = await tab.page.title().catch(() => '');
+          if (title.toLowerCase().includes(expected)) {
+            target = tab;
+            break;
+          }
+        }
+      } else {
+        return createErrorResponse("One of tabId, index, urlPattern or title must be provided");
+      }
+
+      if (!target) {
+        return createErrorResponse(`No tab matches the given criteria. Open tabs: ${tabs.length}`);
+      }
+
+      setGlobalPage(target.page, context.sessionId);
+      return createSuccessResponse(`Switched to tab ${target.id}: ${target.page.url()}`);
+    });
+  }
+}
+
+/**
+ * Tool for closing a tab
+ */
+export class CloseTabTool extends BrowserToolBase {
+  /**
+   * Execute the close tab tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const tabs = listTabs(context.sessionId);
+      let target: { id: string; page: Page; active: boolean } | undefined;
+
+      if (args.tabId) {
+        target = tabs.find(tab => tab.id === args.tabId);
+      } else if (args.index !== undefined) {
+        target = tabs[Number(args.index)];
+      } else {
+        target = tabs.find(tab => tab.active);
+      }
+
+      if (!target) {
+        return createErrorResponse(`No tab matches the given criteria. Open tabs: ${tabs.length}`);
+      }
+
+      await target.page.close();
+
+      const remaining = listTabs(context.sessionId).filter(tab => tab.id !== target.id);
+      if (target.active && remaining.length > 0) {
+        setGlobalPage(remaining[remaining.length - 1].page, context.sessionId);
+      }
+
+      const active = listTabs(context.sessionId).find(tab => tab.active);
+      return createSuccessResponse([
+        `Closed tab ${target.id}`,
+        active ? `Active tab: ${active.id} (${active.page.url()})` : 'No tabs remain open'
+      ]);
+    });
+  }
+}
@@ -0,0 +1,217 @@
+import type { BrowserContext, CDPSession, Page, Route } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+
+/**
+ * Network conditions in the units of the Chrome DevTools Protocol
+ */
+export interface NetworkConditions {
+  offline: boolean;
+  // Added round-trip latency in milliseconds
+  latency: number;
+  // Throughput in bytes per second, -1 for unlimited
+  downloadThroughput: number;
+  uploadThroughput: number;
+}
+
+export type ThrottlePreset = 'slow-3g' | 'fast-3g' | 'offline' | 'none';
+
+// Same values as the presets of Chrome DevTools
+export const THROTTLE_PRESETS: Record<ThrottlePreset, NetworkConditions> = {
+  'slow-3g': { offline: false, latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000 },
+  'fast-3g': { offline: false, latency: 562.5, downloadThroughput: 180000, uploadThroughput: 84375 },
+  'offline': { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 },
+  'none': { offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 },
+};
+
+/**
+ * Throttling applied to a session
+ */
+interface ThrottleState {
+  conditions: NetworkConditions;
+  cpuRate: number;
+  // Route that delays requests on browsers without CDP
+  latencyRoute?: { context: BrowserContext; handler: (route: Route) => Promise<void> };
+}
+
+// Throttling of each session keyed by session ID, and the CDP session throttling each page
+const throttleStates = new Map<string, ThrottleState>();
+const cdpSessions = new WeakMap<Page, CDPSession>();
+
+/**
+ * Forgets the throttling of a session, or of every session when no ID is given
+ */
+export function clearThrottles(sessionId?: string): void {
+  if (sessionId === undefined) {
+    throttleStates.clear();
+  } else {
+    throttleStates.delete(sessionId);
+  }
+}
+
+/**
+ * Builds network conditions from a preset and custom values, which override the preset
+ * @throws If the preset is unknown
+ */
+export function toNetworkConditions(args: any): NetworkConditions {
+  let conditions = THROTTLE_PRESETS.none;
+  if (args.preset !== undefined) {
+    conditions = THROTTLE_PRESETS[args.preset as ThrottlePreset];
+    if (!conditions) {
+      throw new Error(`Unknown preset: ${args.preset}. Use one of ${Object.keys(THROTTLE_PRESETS).join(', ')}`);
+    }
+  }
+  return {
+    ...conditions,
+    ...args.latency !== undefined && { latency: args.latency },
+    // Throughput is given in kilobits per second like in DevTools
+    ...args.downloadKbps !== undefined && { downloadThroughput: args.downloadKbps * 1000 / 8 },
+    ...args.uploadKbps !== undefined && { uploadThroughput: args.uploadKbps * 1000 / 8 },
+  };
+}
+
+/**
+ * Describes network conditions for tool responses, e.g. latency 2000ms, download 400 kbps, upload 400 kbps
+ */
+function describeConditions(conditions: NetworkConditions): string {
+  if (conditions.offline) {
+    return 'offline';
+  }
+  const throughput = (bytes: number) => bytes < 0 ? 'unlimited' : `${bytes * 8 / 1000} kbps`;
+  return `latency ${conditions.latency}ms, download ${throughput(conditions.downloadThroughput)}, upload ${throughput(conditions.uploadThroughput)}`;
+}
+
+/**
+ * Gets the CDP session throttling a page, attaching one on first use.
+ * It stays attached because detaching it would end the throttling.
+ */
+async function getCdpSession(page: Page): Promise<CDPSession> {
+  let cdp = cdpSessions.get(page);
+  if (!cdp) {
+    cdp = await page.context().newCDPSession(page);
+    await cdp.send('Network.enable');
+    cdpSessions.set(page, cdp);
+  }
+  return cdp;
+}
+
+/**
+ * Throttles a page through CDP. It only covers that page, so every page of a session is throttled on its own.
+ */
+async function throttlePage(page: Page, conditions: NetworkConditions, cpuRate: number): Promise<void> {
+  const cdp = await getCdpSession(page);
+  await cdp.send('Network.emulateNetworkConditions', conditions);
+  await cdp.send('Emulation.setCPUThrottlingRate', { rate: cpuRate });
+}
+
+/**
+ * Emulates latency and offline mode on a context without CDP, replacing the latency route of the previous throttling
+ * @returns The route delaying requests, if any
+ */
+async function throttleContext(
+  browserContext: BrowserContext,
+  conditions: NetworkConditions,
+  previous?: ThrottleState
+): Promise<ThrottleState['latencyRoute']> {
+  if (previous?.latencyRoute?.context === browserContext) {
+    await browserContext.unroute('**/*', previous.latencyRoute.handler);
+  }
+  let latencyRoute: ThrottleState['latencyRoute'];
+  if (conditions.latency > 0 && !conditions.offline) {
+    const handler = async (route: Route) => {
+      await new Promise(resolve => setTimeout(resolve, conditions.latency));
+      await route.fallback();
+    };
+    await browserContext.route('**/*', handler);
+    latencyRoute = { context: browserContext, handler };
+  }
+  await browserContext.setOffline(conditions.offline);
+  return latencyRoute;
+}
+
+/**
+ * Applies a session's throttling to a page opened after it was set up, e.g. a new tab or the page of a recreated context
+ * @param page The page to throttle
+ * @param sessionId The session the page belongs to
+ */
+export async function applyThrottle(page: Page, sessionId: string = DEFAULT_SESSION_ID): Promise<void> {
+  const state = throttleStates.get(sessionId);
+  if (!state) {
+    return;
+  }
+  const browserContext = page.context();
+  if ((browserContext.browser()?.browserType().name() ?? 'chromium') === 'chromium') {
+    await throttlePage(page, state.conditions, state.cpuRate);
+  } else if (!state.latencyRoute || state.latencyRoute.context !== browserContext) {
+    // Routes and offline mode belong to the context, so only a new context needs them again
+    state.latencyRoute = await throttleContext(browserContext, state.conditions, state);
+  }
+}
+
+/**
+ * Registers a session's latency route again on a context whose routes were all removed
+ */
+export async function restoreLatencyRoute(browserContext: BrowserContext, sessionId: string = DEFAULT_SESSION_ID): Promise<void> {
+  const latencyRoute = throttleStates.get(sessionId)?.latencyRoute;
+  if (latencyRoute?.context === browserContext) {
+    await browserContext.route('**/*', latencyRoute.handler);
+  }
+}
+
+/**
+ * Tool for throttling the network and CPU of the current session to check behavior on slow connections and low-end devices
+ */
+export class ThrottleTool extends BrowserToolBase {
+  /**
+   * Execute the throttle tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      if (args.preset === undefined && args.latency === undefined && args.downloadKbps === undefined
+        && args.uploadKbps === undefined && args.cpuRate === undefined) {
+        return createErrorResponse("At least one of preset, latency, downloadKbps, uploadKbps or cpuRate must be provided");
+      }
+      if (args.cpuRate !== undefined && !(args.cpuRate >= 1)) {
+        return createErrorResponse("cpuRate must be at least 1 (1 means no slowdown)");
+      }
+
+      const sessionId = context.sessionId ?? DEFAULT_SESSION_ID;
+      const previous = throttleStates.get(sessionId);
+      const networkChanged = args.preset !== undefined || args.latency !== undefined
+        || args.downloadKbps !== undefined || args.uploadKbps !== undefined;
+      const conditions = networkChanged ? toNetworkConditions(args) : previous?.conditions ?? THROTTLE_PRESETS.none;
+      const cpuRate = args.cpuRate ?? (args.preset === 'none' ? 1 : previous?.cpuRate ?? 1);
+
+      const browserName = page.context().browser()?.browserType().name() ?? 'chromium';
+      const messages: string[] = [];
+      if (browserName === 'chromium') {
+        // Other tabs of the session, and tabs opened later, get the same throttling
+        for (const sessionPage of new Set([page, ...page.context().pages()])) {
+          await throttlePage(sessionPage, conditions, cpuRate);
+        }
+        throttleStates.set(sessionId, { conditions, cpuRate });
+        messages.push(`Network: ${describeConditions(conditions)}`);
+        messages.push(`CPU: ${cpuRate === 1 ? 'no slowdown' : `${cpuRate}x slowdown`}`);
+      } else {
+        // Without CDP only latency and offline mode can be emulated, through a route and the context
+        const latencyRoute = await throttleContext(page.context(), conditions, previous);
+        throttleStates.set(sessionId, { conditions, cpuRate: 1, latencyRoute });
+
+        messages.push(conditions.offline
+          ? 'Network: offline'
+          : `Network: latency ${conditions.latency}ms (delayed through a route)`);
+        if (!conditions.offline && (conditions.downloadThroughput >= 0 || conditions.uploadThroughput >= 0)) {
+          messages.push(`Throughput limits need Chromium and were not applied on ${browserName}`);
+        }
+        if (cpuRate !== 1) {
+          messages.push(`CPU slowdown needs Chromium and was not applied on ${browserName}`);
+        }
+      }
+
+      if (args.preset !== undefined) {
+        messages.unshift(`Applied throttling preset: ${args.preset}`);
+      }
+      return createSuccessResponse(messages);
+    });
+  }
+}
@@ -0,0 +1,218 @@
+import type { BrowserContext } from 'playwright';
+import fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+
+const defaultTracesPath = path.join(os.homedir(), 'Downloads');
+
+/**
+ * What a trace records
+ */
+export interface TracingOptions {
+  // Screenshots of the page while it changes
+  screenshots: boolean;
+  // DOM snapshots of every action, browsable in Trace Viewer
+  snapshots: boolean;
+  // Source files of the actions
+  sources: boolean;
+  title?: string;
+  // Where the trace is saved; a timestamped file in the Downloads folder if not set
+  path?: string;
+}
+
+/**
+ * A trace being recorded by a session
+ */
+interface ActiveTrace {
+  context: BrowserContext;
+  options: TracingOptions;
+  path: string;
+  startedAt: number;
+}
+
+/**
+ * A trace saved to disk
+ */
+export interface SavedTrace {
+  sessionId: string;
+  path: string;
+  startedAt: number;
+  stoppedAt: number;
+}
+
+const DEFAULT_TRACING_OPTIONS: TracingOptions = { screenshots: true, snapshots: true, sources: true };
+
+// Traces being recorded keyed by session ID, traces saved so far, and the options new sessions start tracing with
+const activeTraces = new Map<string, ActiveTrace>();
+const savedTraces: SavedTrace[] = [];
+let autoTracingOptions: TracingOptions | undefined;
+
+/**
+ * Picks the tracing options from tool arguments
+ */
+export function pickTracingOptions(args: any): TracingOptions {
+  return {
+    screenshots: args.screenshots ?? DEFAULT_TRACING_OPTIONS.screenshots,
+    snapshots: args.snapshots ?? DEFAULT_TRACING_OPTIONS.snapshots,
+    sources: args.sources ?? DEFAULT_TRACING_OPTIONS.sources,
+    ...args.title && { title: args.title },
+    ...args.path && { path: path.resolve(args.path) },
+  };
+}
+
+/**
+ * Starts recording a trace of a session's context
+ * @returns The path the trace will be saved to
+ */
+export async function startTracing(sessionId: string, context: BrowserContext, options: TracingOptions): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const tracePath = options.path ?? path.join(defaultTracesPath, `trace-${sessionId}-${timestamp}.zip`);
+  await context.tracing.start({
+    name: `${sessionId}-${timestamp}`,
+    title: options.title,
+    screenshots: options.screenshots,
+    snapshots: options.snapshots,
+    sources: options.sources,
+  });
+  activeTraces.set(sessionId, { context, options, path: tracePath, startedAt: Date.now() });
+  return tracePath;
+}
+
+/**
+ * Stops the trace of a session and saves it
+ * @returns The saved trace and the options it was recorded with, or undefined if the session was not tracing
+ */
+export async function stopTracing(sessionId: string): Promise<(SavedTrace & { options: TracingOptions }) | undefined> {
+  const trace = activeTraces.get(sessionId);
+  if (!trace) {
+    return undefined;
+  }
+  activeTraces.delete(sessionId);
+
+  fs.mkdirSync(path.dirname(trace.path), { recursive: true });
+  await trace.context.tracing.stop({ path: trace.path });
+  const saved = { sessionId, path: trace.path, startedAt: trace.startedAt, stoppedAt: Date.now() };
+  savedTraces.push(saved);
+  return { ...saved, options: trace.options };
+}
+
+/**
+ * Stops every trace being recorded and saves them
+ */
+export async function stopAllTracing(): Promise<SavedTrace[]> {
+  const stopped: SavedTrace[] = [];
+  for (const sessionId of Array.from(activeTraces.keys())) {
+    try {
+      const saved = await stopTracing(sessionId);
+      if (saved) {
+        stopped.push(saved);
+      }
+    } catch (error) {
+      console.error(`Error saving trace of session ${sessionId}:`, error);
+    }
+  }
+  return stopped;
+}
+
+/**
+ * Starts tracing a new context of a session when tracing is on for every session,
+ * or when the session's previous context was being traced
+ * @param previous Options of the trace recorded by the previous context
+ */
+export async function resumeTracing(sessionId: string, context: BrowserContext, previous?: TracingOptions): Promise<void> {
+  const options = previous ?? autoTracingOptions;
+  if (options) {
+    // A saved trace keeps its file, so the new context records to a fresh one
+    await startTracing(sessionId, context, { ...options, path: undefined });
+  }
+}
+
+/**
+ * Gets the traces saved since a point in time, oldest first
+ */
+export function getSavedTraces(since = 0): SavedTrace[] {
+  return savedTraces.filter(trace => trace.stoppedAt >= since);
+}
+
+/**
+ * Forgets the trace being recorded by a session, or by every session when no ID is given.
+ * Used when contexts are already gone, so nothing is saved; tracing new sessions stays on.
+ */
+export function clearTracing(sessionId?: string): void {
+  if (sessionId === undefined) {
+    activeTraces.clear();
+  } else {
+    activeTraces.delete(sessionId);
+  }
+}
+
+/**
+ * Describes how to open a trace for tool responses
+ */
+function viewerHint(tracePath: string): string {
+  return `Open it with: npx playwright show-trace ${JSON.stringify(tracePath)} (or drop it on https://trace.playwright.dev)`;
+}
+
+/**
+ * Tool for recording a Playwright trace of the current session with screenshots, DOM snapshots and sources
+ */
+export class StartTracingTool extends BrowserToolBase {
+  /**
+   * Execute the start tracing tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const sessionId = context.sessionId ?? DEFAULT_SESSION_ID;
+      if (activeTraces.has(sessionId)) {
+        return createErrorResponse(`Session '${sessionId}' is already tracing to ${activeTraces.get(sessionId)!.path}. Stop it with playwright_stop_tracing first`);
+      }
+
+      const options = pickTracingOptions(args);
+      const tracePath = await startTracing(sessionId, page.context(), options);
+      const messages = [
+        `Started tracing session '${sessionId}'`,
+        `Recording: ${(['screenshots', 'snapshots', 'sources'] as const).filter(key => options[key]).join(', ') || 'actions only'}`,
+        `Trace will be saved to: ${tracePath}`,
+      ];
+      if (args.autoStart) {
+        autoTracingOptions = { ...options, path: undefined };
+        messages.push('Every new session will start tracing too');
+      }
+      return createSuccessResponse(messages);
+    });
+  }
+}
+
+/**
+ * Tool for stopping the trace of the current session and saving it as a zip file for Trace Viewer
+ */
+export class StopTracingTool extends BrowserToolBase {
+  /**
+   * Execute the stop tracing tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const sessionId = context.sessionId ?? DEFAULT_SESSION_ID;
+      if (args.path && activeTraces.has(sessionId)) {
+        activeTraces.get(sessionId)!.path = path.resolve(args.path);
+      }
+      const wasAutoTracing = autoTracingOptions !== undefined;
+      if (args.stopAutoStart) {
+        autoTracingOptions = undefined;
+      }
+
+      const saved = await stopTracing(sessionId);
+      if (!saved) {
+        return createErrorResponse(`Session '${sessionId}' is not tracing. Start a trace with playwright_start_tracing`);
+      }
+      return createSuccessResponse([
+        `Saved trace to: ${saved.path}`,
+        `Duration: ${((saved.stoppedAt - saved.startedAt) / 1000).toFixed(1)}s`,
+        viewerHint(saved.path),
+        ...args.stopAutoStart && wasAutoTracing ? ['New sessions will no longer start tracing'] : [],
+      ]);
+    });
+  }
+}
@@ -1,13 +1,17 @@
 import { BrowserToolBase } from './base.js';
 import type { ToolContext, ToolResponse } from '../common/types.js';
-import { createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { createSuccessResponse, createErrorResponse, DEFAULT_SESSION_ID } from '../common/types.js';
+import { recreateSessionContext } from '../../toolHandler.js';
 
 interface CustomUserAgentArgs {
   userAgent: string;
+  sessionId?: string;
 }
 
 /**
- * Tool for validating custom User Agent settings
+ * Tool for setting a custom User Agent.
+ * The User Agent is a context option, so the session's context is recreated with it;
+ * cookies and localStorage carry over and the current page is reopened.
  */
 export class CustomUserAgentTool extends BrowserToolBase {
   /**
@@ -21,20 +25,28 @@ export class CustomUserAgentTool extends BrowserToolBase {
 
       try {
         const currentUserAgent = await page.evaluate(() => navigator.userAgent);
-        
-        if (currentUserAgent !== args.userAgent) {
-          const messages = [
-            "Page was already initialized with a different User Agent.",
-            `Requested: ${args.userAgent}`,
-            `Current: ${currentUserAgent}`
-          ];
-          return createErrorResponse(messages.join('\n'));
+        if (currentUserAgent === args.userAgent) {
+          return createSuccessResponse(`User Agent is already set: ${args.userAgent}`);
         }
 
-        return createSuccessResponse("User Agent validation successful");
+        const previousUrl = page.url();
+        const storageState = await page.context().storageState();
+        const newPage = await recreateSessionContext(context.sessionId ?? DEFAULT_SESSION_ID, {
+          userAgent: args.userAgent,
+          storageState,
+        });
+        if (/^https?:/.test(previousUrl)) {
+          await newPage.goto(previousUrl);
+        }
+
+        return createSuccessResponse([
+          `Set User Agent: ${args.userAgent}`,
+          `Previous: ${currentUserAgent}`,
+          /^https?:/.test(previousUrl) ? `Reopened ${previousUrl} in the new context` : 'New context is ready'
+        ]);
       } catch (error) {
-        return createErrorResponse(`Failed to validate User Agent: ${(error as Error).message}`);
+        return createErrorResponse(`Failed to set User Agent: ${(error as Error).message}`);
       }
     });
   }
-} 
\ No newline at end of file
+}
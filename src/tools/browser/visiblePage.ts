@@ -2,8 +2,185 @@ import { resetBrowserState } from "../../toolHandler.js";
 import { ToolContext, ToolResponse, createErrorResponse, createSuccessResponse } from "../common/types.js";
 import { BrowserToolBase } from "./base.js";
 
+interface ExpansionOptions {
+  // Descend into open shadow roots
+  includeShadowDom: boolean;
+  // Include the content of same-origin iframes inline
+  includeIframes: boolean;
+}
+
+/**
+ * Shadow hosts and iframes met while extracting content
+ */
+interface ExpansionReport {
+  shadowHosts: string[];
+  iframes: { src: string; inlined: boolean }[];
+}
+
+/**
+ * Collects the visible text below document.body, descending into open shadow roots
+ * (following slots like the rendered page does) and same-origin iframes.
+ * Runs in the browser, so it must not use anything from this module.
+ */
+function collectVisibleText(options: ExpansionOptions): { text: string } & ExpansionReport {
+  const lines: string[] = [];
+  const report: ExpansionReport = { shadowHosts: [], iframes: [] };
+  const styleOf = (el: Element) => el.ownerDocument.defaultView!.getComputedStyle(el);
+
+  const visitChildren = (node: Node) => node.childNodes.forEach(visit);
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent?.trim();
+      if (text && node.parentElement && styleOf(node.parentElement).visibility !== 'hidden') {
+        lines.push(text);
+      }
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return;
+    }
+    const el = node as Element;
+    if (styleOf(el).display === 'none') {
+      return;
+    }
+    if (el.localName === 'iframe') {
+      const iframe = el as HTMLIFrameElement;
+      // contentDocument is null for cross-origin frames
+      const body = options.includeIframes ? iframe.contentDocument?.body : null;
+      if (options.includeIframes) {
+        report.iframes.push({ src: iframe.src || 'about:blank', inlined: !!body });
+      }
+      if (body) {
+        lines.push(`[iframe ${iframe.src || 'about:blank'}]`);
+        visitChildren(body);
+        lines.push('[/iframe]');
+      }
+      return;
+    }
+    if (options.includeShadowDom && el.shadowRoot) {
+      report.shadowHosts.push(el.localName + (el.id ? `#${el.id}` : ''));
+      visitChildren(el.shadowRoot);
+      return;
+    }
+    if (el.localName === 'slot') {
+      const assigned = (el as HTMLSlotElement).assignedNodes({ flatten: true });
+      if (assigned.length > 0) {
+        assigned.forEach(visit);
+        return;
+      }
+    }
+    visitChildren(el);
+  };
+
+  visitChildren(document.body);
+  return { text: lines.join('\n'), ...report };
+}
+
 /**
- * Tool for getting the visible text content of the current page
+ * Serializes the document, or the first element matching a CSS selector, including open shadow roots
+ * and same-origin iframes. Shadow roots are flattened the way the page renders them, or kept as
+ * declarative shadow DOM (<template shadowrootmode>). Same-origin iframes become <mcp-iframe> elements
+ * holding the frame's document.
+ * Returns null html when there is nothing to expand, so the caller can use Playwright's own serialization.
+ * Runs in the browser, so it must not use anything from this module.
+ */
+function serializeExpandedHtml(
+  options: ExpansionOptions & { selector?: string; declarative: boolean }
+): { html: string | null } & ExpansionReport {
+  const report: ExpansionReport = { shadowHosts: [], iframes: [] };
+  const voidTags = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+  const rawTextTags = new Set(['script', 'style', 'xmp', 'noembed', 'noframes', 'plaintext', 'noscript']);
+  const escapeText = (value: string) => value.replace(/&/g, '&amp;').replace(/\u00a0/g, '&nbsp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/\u00a0/g, '&nbsp;').replace(/"/g, '&quot;');
+
+  const serializeChildren = (node: Node): string => Array.from(node.childNodes).map(serialize).join('');
+  const serialize = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent ?? '';
+      return rawTextTags.has(node.parentElement?.localName ?? '') ? text : escapeText(text);
+    }
+    if (node.nodeType === Node.COMMENT_NODE) {
+      return `<!--${node.textContent}-->`;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return '';
+    }
+
+    const el = node as Element;
+    const tag = el.localName;
+    const attributes = Array.from(el.attributes).map(attr => ` ${attr.name}="${escapeAttribute(attr.value)}"`).join('');
+    if (tag === 'iframe' && options.includeIframes) {
+      const iframe = el as HTMLIFrameElement;
+      const frameDocument = iframe.contentDocument;
+      report.iframes.push({ src: iframe.src || 'about:blank', inlined: !!frameDocument });
+      if (frameDocument) {
+        return `<mcp-iframe${attributes}>${serializeChildren(frameDocument.documentElement)}</mcp-iframe>`;
+      }
+    }
+    if (voidTags.has(tag)) {
+      return `<${tag}${attributes}>`;
+    }
+
+    let inner: string;
+    if (options.includeShadowDom && el.shadowRoot) {
+      report.shadowHosts.push(tag + (el.id ? `#${el.id}` : ''));
+      inner = options.declarative
+        ? `<template shadowrootmode="${el.shadowRoot.mode}">${serializeChildren(el.shadowRoot)}</template>${serializeChildren(el)}`
+        : serializeChildren(el.shadowRoot);
+    } else if (tag === 'slot' && !options.declarative && (el as HTMLSlotElement).assignedNodes({ flatten: true }).length > 0) {
+      inner = (el as HTMLSlotElement).assignedNodes({ flatten: true }).map(serialize).join('');
+    } else if (tag === 'template') {
+      inner = serializeChildren((el as HTMLTemplateElement).content);
+    } else {
+      inner = serializeChildren(el);
+    }
+    return `<${tag}${attributes}>${inner}</${tag}>`;
+  };
+
+  let root: Element | null;
+  try {
+    root = options.selector ? document.querySelector(options.selector) : document.documentElement;
+  } catch {
+    // Not a CSS selector, e.g. a Playwright text= selector
+    root = null;
+  }
+  if (!root) {
+    return { html: null, ...report };
+  }
+  const html = serialize(root);
+  const expanded = report.shadowHosts.length > 0 || report.iframes.some(iframe => iframe.inlined);
+  if (!expanded) {
+    return { html: null, ...report };
+  }
+  return { html: options.selector ? html : `<!DOCTYPE html>${html}`, ...report };
+}
+
+/**
+ * Describes the shadow roots and iframes an extraction expanded, for tool responses
+ */
+function describeExpansion(report: ExpansionReport): string[] {
+  const lines: string[] = [];
+  if (report.shadowHosts.length > 0) {
+    const counts = new Map<string, number>();
+    for (const host of report.shadowHosts) {
+      counts.set(host, (counts.get(host) ?? 0) + 1);
+    }
+    const hosts = Array.from(counts, ([host, count]) => count > 1 ? `${host} (x${count})` : host);
+    lines.push(`Expanded ${report.shadowHosts.length} shadow root(s): ${hosts.join(', ')}`);
+  }
+  const inlined = report.iframes.filter(iframe => iframe.inlined).map(iframe => iframe.src);
+  const skipped = report.iframes.filter(iframe => !iframe.inlined).map(iframe => iframe.src);
+  if (inlined.length > 0) {
+    lines.push(`Inlined ${inlined.length} same-origin iframe(s): ${inlined.join(', ')}`);
+  }
+  if (skipped.length > 0) {
+    lines.push(`Skipped ${skipped.length} cross-origin iframe(s): ${skipped.join(', ')}`);
+  }
+  return lines;
+}
+
+/**
+ * Tool for getting the visible text content of the current page or one of its frames
  */
 export class VisibleTextTool extends BrowserToolBase {
   /**
@@ -27,28 +204,10 @@ export class VisibleTextTool extends BrowserToolBase {
     }
     return this.safeExecute(context, async (page) => {
       try {
-        const visibleText = await page!.evaluate(() => {
-          const walker = document.createTreeWalker(
-            document.body,
-            NodeFilter.SHOW_TEXT,
-            {
-              acceptNode: (node) => {
-                const style = window.getComputedStyle(node.parentElement!);
-                return (style.display !== "none" && style.visibility !== "hidden")
-                  ? NodeFilter.FILTER_ACCEPT
-                  : NodeFilter.FILTER_REJECT;
-              },
-            }
-          );
-          let text = "";
-          let node;
-          while ((node = walker.nextNode())) {
-            const trimmedText = node.textContent?.trim();
-            if (trimmedText) {
-              text += trimmedText + "\n";
-            }
-          }
-          return text.trim();
+        const frame = await this.resolveFrame(page, args);
+        const { text: visibleText, ...report } = await frame.evaluate(collectVisibleText, {
+          includeShadowDom: args.includeShadowDom !== false,
+          includeIframes: args.includeIframes !== false,
         });
         // Truncate logic
         const maxLength = typeof args.maxLength === 'number' ? args.maxLength : 20000;
@@ -58,7 +217,7 @@ export class VisibleTextTool extends BrowserToolBase {
           output = output.slice(0, maxLength) + '\n[Output truncated due to size limits]';
           truncated = true;
         }
-        return createSuccessResponse(`Visible text content:\n${output}`);
+        return createSuccessResponse([`Visible text content:\n${output}`, ...describeExpansion(report)]);
       } catch (error) {
         return createErrorResponse(`Failed to get visible text content: ${(error as Error).message}`);
       }
@@ -67,7 +226,7 @@ export class VisibleTextTool extends BrowserToolBase {
 }
 
 /**
- * Tool for getting the visible HTML content of the current page
+ * Tool for getting the visible HTML content of the current page or one of its frames
  */
 export class VisibleHtmlTool extends BrowserToolBase {
   /**
@@ -97,17 +256,28 @@ export class VisibleHtmlTool extends BrowserToolBase {
 
         // Get the HTML content
         let htmlContent: string;
+        const frame = await this.resolveFrame(page, args);
+
+        // Open shadow roots and same-origin iframes are missing from Playwright's serialization
+        const expansion = await frame.evaluate(serializeExpandedHtml, {
+          selector,
+          includeShadowDom: args.includeShadowDom !== false,
+          includeIframes: args.includeIframes !== false,
+          declarative: !!args.declarativeShadowDom,
+        });
 
-        if (selector) {
+        if (expansion?.html) {
+          htmlContent = expansion.html;
+        } else if (selector) {
           // If a selector is provided, get only the HTML for that element
-          const element = await page.$(selector);
+          const element = await frame.$(selector);
           if (!element) {
             return createErrorResponse(`Element with selector "${selector}" not found`);
           }
-          htmlContent = await page.evaluate((el) => el.outerHTML, element);
+          htmlContent = await frame.evaluate((el) => el.outerHTML, element);
         } else {
-          // Otherwise get the full page HTML
-          htmlContent = await page.content();
+          // Otherwise get the full page (or frame) HTML
+          htmlContent = await frame.content();
         }
 
         // Determine if we need to apply filters
@@ -186,7 +356,8 @@ export class VisibleHtmlTool extends BrowserToolBase {
         if (output.length > maxLength) {
           output = output.slice(0, maxLength) + '\n<!-- Output truncated due to size limits -->';
         }
-        return createSuccessResponse(`HTML content:\n${output}`);
+        const expanded = expansion?.html ? describeExpansion(expansion) : [];
+        return createSuccessResponse([`HTML content:\n${output}`, ...expanded]);
       } catch (error) {
         return createErrorResponse(`Failed to get visible HTML content: ${(error as Error).message}`);
       }
@@ -0,0 +1,70 @@
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+const SELECTOR_STATES = ['attached', 'detached', 'visible', 'hidden'] as const;
+const LOAD_STATES = ['load', 'domcontentloaded', 'networkidle'] as const;
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Tool for explicitly waiting on an element state, load state, URL, JavaScript predicate or fixed time
+ */
+export class WaitForTool extends BrowserToolBase {
+  /**
+   * Execute the wait tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const hasTarget = !!(args.selector || args.ref || args.locator);
+      const conditions = [hasTarget, !!args.loadState, !!args.url, !!args.function, args.time !== undefined].filter(Boolean);
+      if (conditions.length !== 1) {
+        return createErrorResponse("Exactly one of selector/ref/locator, loadState, url, function or time must be provided");
+      }
+      if (args.frame && !hasTarget && args.time === undefined) {
+        // Recorded tests reach frames through frame locators, which cannot wait for these
+        return createErrorResponse("frame only applies to element waits; loadState, url and function wait on the page");
+      }
+
+      const timeout = args.timeout ?? DEFAULT_TIMEOUT;
+      const start = Date.now();
+      let description: string;
+      try {
+        if (hasTarget) {
+          const state = args.state || 'visible';
+          if (!SELECTOR_STATES.includes(state)) {
+            return createErrorResponse(`Invalid state: ${state}. Use one of ${SELECTOR_STATES.join(', ')}`);
+          }
+          description = `${this.describeTarget(args)} to be ${state}`;
+          const locator = await this.resolveLocator(page, args);
+          await locator.waitFor({ state, timeout });
+        } else if (args.loadState) {
+          if (!LOAD_STATES.includes(args.loadState)) {
+            return createErrorResponse(`Invalid loadState: ${args.loadState}. Use one of ${LOAD_STATES.join(', ')}`);
+          }
+          description = `load state '${args.loadState}'`;
+          await page.waitForLoadState(args.loadState, { timeout });
+        } else if (args.url) {
+          const url = args.regex ? new RegExp(args.url) : args.url;
+          description = `URL to match ${args.regex ? `/${args.url}/` : args.url}`;
+          await page.waitForURL(url, { timeout });
+        } else if (args.function) {
+          description = `function to return a truthy value: ${args.function}`;
+          await page.waitForFunction(args.function, undefined, {
+            timeout,
+            ...(args.polling !== undefined && { polling: args.polling }),
+          });
+        } else {
+          // A fixed wait is not bounded by the timeout
+          await page.waitForTimeout(args.time);
+          return createSuccessResponse(`Waited ${args.time}ms`);
+        }
+      } catch (error) {
+        if ((error as Error).name === 'TimeoutError') {
+          return createErrorResponse(`Timed out after ${timeout}ms waiting for ${description!}`);
+        }
+        throw error;
+      }
+
+      return createSuccessResponse(`Waited ${Date.now() - start}ms for ${description}`);
+    });
+  }
+}
@@ -0,0 +1,98 @@
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+type StorageType = 'local' | 'session';
+
+/**
+ * Validates the storage type argument, defaulting to localStorage
+ */
+function resolveStorageType(type: unknown): StorageType | null {
+  if (type === undefined || type === 'local' || type === 'localStorage') {
+    return 'local';
+  }
+  if (type === 'session' || type === 'sessionStorage') {
+    return 'session';
+  }
+  return null;
+}
+
+/**
+ * Tool for reading localStorage or sessionStorage of the current page's origin
+ */
+export class GetStorageTool extends BrowserToolBase {
+  /**
+   * Execute the get storage tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const type = resolveStorageType(args.type);
+      if (!type) {
+        return createErrorResponse(`Invalid storage type: ${args.type}. Use 'local' or 'session'`);
+      }
+
+      const result = await page.evaluate(({ type, key }) => {
+        const storage = type === 'session' ? window.sessionStorage : window.localStorage;
+        const entries: Record<string, string> = {};
+        for (let i = 0; i < storage.length; i++) {
+          const name = storage.key(i);
+          if (name !== null && (!key || name.includes(key))) {
+            entries[name] = storage.getItem(name) ?? '';
+          }
+        }
+        return { origin: window.location.origin, entries };
+      }, { type, key: args.key });
+
+      const count = Object.keys(result.entries).length;
+      return createSuccessResponse([
+        `Retrieved ${count} ${type}Storage item(s) for ${result.origin}:`,
+        JSON.stringify(result.entries, null, 2)
+      ]);
+    });
+  }
+}
+
+/**
+ * Tool for writing or removing localStorage or sessionStorage items of the current page's origin
+ */
+export class SetStorageTool extends BrowserToolBase {
+  /**
+   * Execute the set storage tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const type = resolveStorageType(args.type);
+      if (!type) {
+        return createErrorResponse(`Invalid storage type: ${args.type}. Use 'local' or 'session'`);
+      }
+      if (!args.items && !args.remove && !args.clear) {
+        return createErrorResponse("Nothing to do: provide items, remove or clear");
+      }
+
+      // Non-string values are stored as JSON, which is how apps usually persist them
+      const items: Record<string, string> = {};
+      for (const [key, value] of Object.entries(args.items ?? {})) {
+        items[key] = typeof value === 'string' ? value : JSON.stringify(value);
+      }
+
+      const origin = await page.evaluate(({ type, items, remove, clear }) => {
+        const storage = type === 'session' ? window.sessionStorage : window.localStorage;
+        if (clear) {
+          storage.clear();
+        }
+        for (const key of remove) {
+          storage.removeItem(key);
+        }
+        for (const [key, value] of Object.entries(items)) {
+          storage.setItem(key, value);
+        }
+        return window.location.origin;
+      }, { type, items, remove: (args.remove ?? []) as string[], clear: !!args.clear });
+
+      const messages = [`Updated ${type}Storage for ${origin}`];
+      if (args.clear) messages.push('Cleared all existing items');
+      if (args.remove?.length) messages.push(`Removed: ${args.remove.join(', ')}`);
+      if (Object.keys(items).length) messages.push(`Set: ${Object.keys(items).join(', ')}`);
+      return createSuccessResponse(messages);
+    });
+  }
+}
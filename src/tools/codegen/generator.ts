@@ -1,5 +1,18 @@
 import * as path from 'path';
 import { CodegenAction, CodegenOptions, CodegenResult, CodegenSession, PlaywrightTestCase } from './types.js';
+import type { RefTarget } from '../browser/snapshot.js';
+import { toKeyboardActions } from '../browser/keyboard.js';
+import type { MouseAction } from '../browser/mouse.js';
+import { guessMimeType } from '../browser/downloads.js';
+import { findDevice } from '../browser/devices.js';
+import { toNetworkConditions } from '../browser/throttle.js';
+import { LocatorDescriptor, locatorToCode, quote } from '../common/locator.js';
+import { FrameTarget, frameToCode } from '../common/frames.js';
+
+// Parameters of playwright_navigate that are replayed through test.use({ ... })
+const EMULATION_PARAMETERS = [
+  'device', 'isMobile', 'hasTouch', 'deviceScaleFactor', 'colorScheme', 'reducedMotion', 'locale', 'timezoneId', 'geolocation'
+];
 
 export class PlaywrightGenerator {
   private static readonly DEFAULT_OPTIONS: Required<CodegenOptions> = {
@@ -73,11 +86,35 @@ export class PlaywrightGenerator {
       name: `${this.options.testNamePrefix}_${new Date(session.startTime).toISOString().split('T')[0]}`,
       steps: [],
       imports: new Set(['test', 'expect']),
+      useOptions: [],
     };
 
+    const storageState = this.findStorageState(session);
+    if (storageState) {
+      testCase.useOptions.push(`storageState: ${quote(storageState)}`);
+    }
+    const emulation = this.findEmulation(session);
+    if (emulation) {
+      testCase.useOptions.push(...this.generateEmulationOptions(emulation));
+      if (emulation.device) {
+        testCase.imports.add('devices');
+      }
+    }
+    // Set after the emulation options so it overrides the device's user agent
+    const userAgent = this.findUserAgent(session);
+    if (userAgent) {
+      testCase.useOptions.push(`userAgent: ${quote(userAgent)}`);
+    }
+
     for (const action of session.actions) {
       const step = this.convertActionToStep(action);
-      if (step) {
+      if (!step) {
+        continue;
+      }
+      if (action.toolName === 'playwright_handle_dialog' && testCase.steps.length > 0) {
+        // The dialog was opened by the previous action, so its handler has to be registered before it
+        testCase.steps.splice(testCase.steps.length - 1, 0, step);
+      } else {
         testCase.steps.push(step);
       }
     }
@@ -95,6 +132,48 @@ export class PlaywrightGenerator {
         return this.generateFillStep(parameters);
       case 'playwright_click':
         return this.generateClickStep(parameters);
+      case 'playwright_iframe_click':
+        return this.generateClickStep({ ...parameters, frame: parameters.iframeSelector });
+      case 'playwright_iframe_fill':
+        return this.generateFillStep({ ...parameters, frame: parameters.iframeSelector });
+      case 'playwright_dblclick':
+        return this.generatePointerStep(parameters, 'dblclick', 'Double-click element');
+      case 'playwright_check':
+        return this.generatePointerStep(parameters, 'check', 'Check element');
+      case 'playwright_uncheck':
+        return this.generatePointerStep(parameters, 'uncheck', 'Uncheck element');
+      case 'playwright_type':
+        return this.generateTypeStep(parameters);
+      case 'playwright_press_key':
+        return this.generatePressKeyStep(parameters);
+      case 'playwright_keyboard':
+        return this.generateKeyboardStep(parameters);
+      case 'playwright_select_text':
+        return this.generateSelectTextStep(parameters);
+      case 'playwright_drag':
+        return this.generateDragStep(parameters);
+      case 'playwright_mouse':
+        return this.generateMouseStep(parameters);
+      case 'playwright_touch':
+        return this.generateTouchStep(parameters);
+      case 'playwright_scroll':
+        return this.generateScrollStep(parameters);
+      case 'playwright_scroll_until':
+        return this.generateScrollUntilStep(parameters);
+      case 'playwright_dialog_policy':
+        return this.generateDialogPolicyStep(parameters);
+      case 'playwright_handle_dialog':
+        return this.generateHandleDialogStep(parameters);
+      case 'playwright_dialog_log':
+        // Inspection only, nothing to replay
+        return null;
+      case 'playwright_click_and_download':
+        return this.generateClickAndDownloadStep(parameters);
+      case 'playwright_list_downloads':
+        // Inspection only, nothing to replay
+        return null;
+      case 'playwright_upload_file':
+        return this.generateUploadFileStep(parameters);
       case 'playwright_screenshot':
         return this.generateScreenshotStep(parameters);
       case 'playwright_expect_response':
@@ -106,7 +185,47 @@ export class PlaywrightGenerator {
       case 'playwright_select':
         return this.generateSelectStep(parameters);
       case 'playwright_custom_user_agent':
-        return this.generateCustomUserAgentStep(parameters);
+        // Applied to the whole test through test.use({ userAgent })
+        return null;
+      case 'playwright_set_viewport':
+        return this.generateSetViewportStep(parameters);
+      case 'playwright_emulate_media':
+        return this.generateEmulateMediaStep(parameters);
+      case 'playwright_set_geolocation':
+        return this.generateSetGeolocationStep(parameters);
+      case 'playwright_grant_permissions':
+        return this.generateGrantPermissionsStep(parameters);
+      case 'playwright_set_offline':
+        return this.generateSetOfflineStep(parameters);
+      case 'playwright_set_extra_headers':
+        return this.generateSetExtraHeadersStep(parameters);
+      case 'playwright_throttle':
+        return this.generateThrottleStep(parameters);
+      case 'playwright_start_tracing':
+        return this.generateStartTracingStep(parameters);
+      case 'playwright_stop_tracing':
+        return this.generateStopTracingStep(parameters);
+      case 'playwright_save_storage_state':
+        return this.generateSaveStorageStateStep(parameters);
+      case 'playwright_load_storage_state':
+        // Applied to the whole test through test.use({ storageState })
+        return null;
+      case 'playwright_expect':
+        return this.generateExpectStep(parameters);
+      case 'playwright_route':
+        return this.generateRouteStep(parameters);
+      case 'playwright_route_from_har':
+        return this.generateRouteFromHarStep(parameters);
+      case 'playwright_unroute':
+        return this.generateUnrouteStep(parameters);
+      case 'playwright_wait_for':
+        return this.generateWaitForStep(parameters);
+      case 'playwright_list_routes':
+      case 'playwright_list_frames':
+      case 'playwright_list_devices':
+      case 'playwright_performance_metrics':
+        // Inspection only, nothing to replay
+        return null;
       default:
         console.warn(`Unsupported tool: ${toolName}`);
         return null;
@@ -123,18 +242,53 @@ export class PlaywrightGenerator {
 
   private generateFillStep(parameters: Record<string, unknown>): string {
     const { selector, value } = parameters;
+    const locator = this.generateLocator(parameters);
+    if (locator) {
+      return `
+    // Fill input field
+    await ${locator}.fill(${quote(String(value))});`;
+    }
     return `
     // Fill input field
-    await page.fill('${selector}', '${value}');`;
+    await page.fill('${selector}', ${quote(String(value))});`;
   }
 
   private generateClickStep(parameters: Record<string, unknown>): string {
+    return this.generatePointerStep(parameters, 'click', 'Click element');
+  }
+
+  private generatePointerStep(parameters: Record<string, unknown>, method: string, comment: string): string {
     const { selector } = parameters;
+    const options = this.generatePointerOptions(parameters);
+    const locator = this.generateLocator(parameters);
+    if (locator) {
+      return `
+    // ${comment}
+    await ${locator}.${method}(${options});`;
+    }
     return `
-    // Click element
-    await page.click('${selector}');`;
+    // ${comment}
+    await page.${method}('${selector}'${options ? `, ${options}` : ''});`;
+  }
+
+  private generatePointerOptions(parameters: Record<string, unknown>): string {
+    const { button, clickCount, modifiers, position, force, trial } = parameters;
+    const options: string[] = [];
+    if (button) options.push(`button: ${quote(String(button))}`);
+    if (clickCount !== undefined) options.push(`clickCount: ${Number(clickCount)}`);
+    if (Array.isArray(modifiers) && modifiers.length > 0) {
+      options.push(`modifiers: [${modifiers.map(modifier => quote(String(modifier))).join(', ')}]`);
+    }
+    if (position) {
+      const { x, y } = position as { x: number; y: number };
+      options.push(`position: { x: ${x}, y: ${y} }`);
+    }
+    if (force) options.push('force: true');
+    if (trial) options.push('trial: true');
+    return options.length > 0 ? `{ ${options.join(', ')} }` : '';
   }
 
+
   private generateScreenshotStep(parameters: Record<string, unknown>): string {
     const { name, fullPage = false, path } = parameters;
     const options = [];
@@ -165,6 +319,12 @@ export class PlaywrightGenerator {
 
   private generateHoverStep(parameters: Record<string, unknown>): string {
     const { selector } = parameters;
+    const locator = this.generateLocator(parameters);
+    if (locator) {
+      return `
+    // Hover over element
+    await ${locator}.hover();`;
+    }
     return `
     // Hover over element
     await page.hover('${selector}');`;
@@ -172,16 +332,679 @@ export class PlaywrightGenerator {
 
   private generateSelectStep(parameters: Record<string, unknown>): string {
     const { selector, value } = parameters;
+    const locator = this.generateLocator(parameters);
+    if (locator) {
+      return `
+    // Select option
+    await ${locator}.selectOption(${quote(String(value))});`;
+    }
     return `
     // Select option
-    await page.selectOption('${selector}', '${value}');`;
+    await page.selectOption('${selector}', ${quote(String(value))});`;
+  }
+
+  private generateSetViewportStep(parameters: Record<string, unknown>): string {
+    const { width, height } = parameters;
+    return `
+    // Resize viewport
+    await page.setViewportSize({ width: ${width}, height: ${height} });`;
+  }
+
+  private generateEmulateMediaStep(parameters: Record<string, unknown>): string {
+    const options = (['media', 'colorScheme', 'reducedMotion', 'forcedColors'] as const)
+      .filter(key => parameters[key] !== undefined)
+      .map(key => `${key}: ${parameters[key] === 'reset' ? 'null' : quote(String(parameters[key]))}`);
+    return `
+    // Emulate media
+    await page.emulateMedia({ ${options.join(', ')} });`;
   }
 
-  private generateCustomUserAgentStep(parameters: Record<string, unknown>): string {
-    const { userAgent } = parameters;
+  private generateSetGeolocationStep(parameters: Record<string, unknown>): string {
+    const { latitude, longitude, accuracy, grant, origin, clear } = parameters;
+    if (clear) {
+      return `
+    // Clear geolocation
+    await page.context().setGeolocation(null);`;
+    }
+    const lines = [
+      `await page.context().setGeolocation({ latitude: ${latitude}, longitude: ${longitude}${accuracy !== undefined ? `, accuracy: ${accuracy}` : ''} });`
+    ];
+    if (grant !== false) {
+      lines.push(`await page.context().grantPermissions(['geolocation']${origin ? `, { origin: ${quote(String(origin))} }` : ''});`);
+    }
+    return `
+    // Set geolocation
+    ${lines.join('\n    ')}`;
+  }
+
+  private generateGrantPermissionsStep(parameters: Record<string, unknown>): string {
+    const { permissions, origin, clear } = parameters;
+    if (clear) {
+      return `
+    // Clear permissions
+    await page.context().clearPermissions();`;
+    }
+    const list = (permissions as string[]).map(permission => quote(permission)).join(', ');
+    return `
+    // Grant permissions
+    await page.context().grantPermissions([${list}]${origin ? `, { origin: ${quote(String(origin))} }` : ''});`;
+  }
+
+  private generateSetOfflineStep(parameters: Record<string, unknown>): string {
+    const { offline } = parameters;
+    return `
+    // ${offline ? 'Go offline' : 'Go back online'}
+    await page.context().setOffline(${Boolean(offline)});`;
+  }
+
+  private generateSetExtraHeadersStep(parameters: Record<string, unknown>): string {
+    const { headers, scope } = parameters;
+    const target = scope === 'page' ? 'page' : 'page.context()';
+    return `
+    // Set extra HTTP headers
+    await ${target}.setExtraHTTPHeaders(${JSON.stringify(headers)});`;
+  }
+
+  private generateThrottleStep(parameters: Record<string, unknown>): string | null {
+    const { preset, latency, downloadKbps, uploadKbps, cpuRate } = parameters;
+    const lines: string[] = [];
+    if (preset !== undefined || latency !== undefined || downloadKbps !== undefined || uploadKbps !== undefined) {
+      const conditions = toNetworkConditions(parameters);
+      lines.push(`await cdp.send('Network.emulateNetworkConditions', { offline: ${conditions.offline}, latency: ${conditions.latency}, downloadThroughput: ${conditions.downloadThroughput}, uploadThroughput: ${conditions.uploadThroughput} });`);
+    }
+    if (cpuRate !== undefined || preset === 'none') {
+      lines.push(`await cdp.send('Emulation.setCPUThrottlingRate', { rate: ${cpuRate ?? 1} });`);
+    }
+    if (lines.length === 0) {
+      return null;
+    }
+    // A block keeps the CDP session of each throttling step in its own scope
     return `
-    // Set custom user agent
-    await context.setUserAgent('${userAgent}');`;
+    // Throttle network and CPU${preset ? ` (${preset})` : ''}, Chromium only
+    {
+      const cdp = await page.context().newCDPSession(page);
+      ${lines.join('\n      ')}
+    }`;
+  }
+
+  private generateStartTracingStep(parameters: Record<string, unknown>): string {
+    const { screenshots, snapshots, sources, title } = parameters;
+    const options = [
+      `screenshots: ${screenshots ?? true}`,
+      `snapshots: ${snapshots ?? true}`,
+      `sources: ${sources ?? true}`,
+      ...title ? [`title: ${quote(String(title))}`] : []
+    ];
+    return `
+    // Start tracing
+    await page.context().tracing.start({ ${options.join(', ')} });`;
+  }
+
+  private generateStopTracingStep(parameters: Record<string, unknown>): string {
+    const { path: tracePath } = parameters;
+    return `
+    // Stop tracing
+    await page.context().tracing.stop({ path: ${quote(String(tracePath || 'trace.zip'))} });`;
+  }
+
+  private generateSaveStorageStateStep(parameters: Record<string, unknown>): string {
+    const { path } = parameters;
+    return `
+    // Save storage state
+    await page.context().storageState({ path: ${quote(String(path))} });`;
+  }
+
+  private generateExpectStep(parameters: Record<string, unknown>): string {
+    const { assertion, expected, regex, attribute, not, timeout } = parameters;
+    const subject = assertion === 'toHaveURL' || assertion === 'toHaveTitle'
+      ? 'page'
+      : this.generateTargetLocator(parameters);
+
+    const matcherArgs: string[] = [];
+    if (attribute) matcherArgs.push(quote(String(attribute)));
+    if (expected !== undefined) {
+      if (regex) {
+        matcherArgs.push(this.generateRegexLiteral(expected));
+      } else if (assertion === 'toHaveCount') {
+        matcherArgs.push(String(Number(expected)));
+      } else {
+        matcherArgs.push(quote(String(expected)));
+      }
+    }
+    if (timeout) matcherArgs.push(`{ timeout: ${timeout} }`);
+
+    return `
+    // Assert ${assertion}
+    await expect(${subject})${not ? '.not' : ''}.${assertion}(${matcherArgs.join(', ')});`;
+  }
+
+  private generateRouteStep(parameters: Record<string, unknown>): string {
+    const { url, method, status, headers, contentType, body, bodyPath, abort, errorCode, delay } = parameters;
+    const handlerLines: string[] = [];
+    if (method) {
+      handlerLines.push(`if (route.request().method() !== '${String(method).toUpperCase()}') return route.fallback();`);
+    }
+    if (delay) {
+      handlerLines.push(`await new Promise(resolve => setTimeout(resolve, ${delay}));`);
+    }
+
+    if (abort) {
+      handlerLines.push(`await route.abort('${errorCode || 'failed'}');`);
+    } else if (status !== undefined || body !== undefined || bodyPath || headers) {
+      const options = [`status: ${status ?? 200}`];
+      if (headers) options.push(`headers: ${JSON.stringify(headers)}`);
+      if (contentType) options.push(`contentType: '${contentType}'`);
+      if (bodyPath) {
+        options.push(`path: '${bodyPath}'`);
+      } else if (body !== undefined && typeof body !== 'string') {
+        options.push(`json: ${JSON.stringify(body)}`);
+      } else if (body !== undefined) {
+        options.push(`body: ${JSON.stringify(body)}`);
+      }
+      handlerLines.push(`await route.fulfill({ ${options.join(', ')} });`);
+    } else {
+      handlerLines.push('await route.continue();');
+    }
+
+    return `
+    // Intercept requests
+    await page.route('${url}', async route => {
+${handlerLines.map(line => `      ${line}`).join('\n')}
+    });`;
+  }
+
+  private generateRouteFromHarStep(parameters: Record<string, unknown>): string {
+    const { path, url, notFound, update } = parameters;
+    const options = [];
+    if (url) options.push(`url: '${url}'`);
+    if (notFound) options.push(`notFound: '${notFound}'`);
+    if (update) options.push('update: true');
+
+    const optionsStr = options.length > 0 ? `, { ${options.join(', ')} }` : '';
+    return `
+    // Serve responses from HAR
+    await page.routeFromHAR('${path}'${optionsStr});`;
+  }
+
+  private generateUnrouteStep(parameters: Record<string, unknown>): string | null {
+    const { url, all } = parameters;
+    if (all) {
+      return `
+    // Remove all request interceptions
+    await page.unrouteAll();`;
+    }
+    if (url) {
+      return `
+    // Remove request interception
+    await page.unroute('${url}');`;
+    }
+    // Route IDs are assigned at runtime and cannot be mapped back to a URL
+    return null;
+  }
+
+  /**
+   * Generates the wait of a recorded playwright_wait_for call: a fixed time, a load state, a URL, a function or an element state
+   */
+  private generateWaitForStep(parameters: Record<string, unknown>): string {
+    const { selector, state, loadState, url, regex, function: predicate, time, timeout } = parameters;
+    const timeoutOption = timeout ? `timeout: ${timeout}` : '';
+    const withOptions = (options: string[]) => {
+      const present = options.filter(Boolean);
+      return present.length > 0 ? `{ ${present.join(', ')} }` : '';
+    };
+
+    if (time !== undefined) {
+      return `
+    // Wait ${time}ms
+    await page.waitForTimeout(${Number(time)});`;
+    }
+    if (loadState) {
+      const options = withOptions([timeoutOption]);
+      return `
+    // Wait for load state ${loadState}
+    await page.waitForLoadState(${[quote(String(loadState)), options].filter(Boolean).join(', ')});`;
+    }
+    if (url) {
+      const pattern = regex ? this.generateRegexLiteral(url) : quote(String(url));
+      const options = withOptions([timeoutOption]);
+      return `
+    // Wait for URL ${url}
+    await page.waitForURL(${[pattern, options].filter(Boolean).join(', ')});`;
+    }
+    if (predicate) {
+      const polling = parameters.polling !== undefined
+        ? `polling: ${typeof parameters.polling === 'number' ? parameters.polling : quote(String(parameters.polling))}`
+        : '';
+      const options = withOptions([polling, timeoutOption]);
+      return `
+    // Wait for function
+    await page.waitForFunction(${[quote(String(predicate)), ...(options ? ['undefined', options] : [])].join(', ')});`;
+    }
+
+    const stateOption = `state: ${quote(String(state || 'visible'))}`;
+    const locator = this.generateLocator(parameters);
+    if (locator) {
+      return `
+    // Wait for element to be ${state || 'visible'}
+    await ${locator}.waitFor(${withOptions([stateOption, timeoutOption])});`;
+    }
+    return `
+    // Wait for ${selector} to be ${state || 'visible'}
+    await page.waitForSelector(${quote(String(selector))}, ${withOptions([stateOption, timeoutOption])});`;
+  }
+
+  private generateRegexLiteral(pattern: unknown): string {
+    return `/${String(pattern).replace(/\//g, '\\/')}/`;
+  }
+
+  private generateTypeStep(parameters: Record<string, unknown>): string {
+    const { text, delay, clear } = parameters;
+    const args = [quote(String(text)), ...(delay !== undefined ? [`{ delay: ${delay} }`] : [])].join(', ');
+    if (!parameters.selector && !parameters.ref && !parameters.locator) {
+      return `
+    // Type into focused element
+    await page.keyboard.type(${args});`;
+    }
+    const locator = this.generateTargetLocator(parameters);
+    return `
+    // Type text${clear ? `
+    await ${locator}.clear();` : ''}
+    await ${locator}.pressSequentially(${args});`;
+  }
+
+  private generatePressKeyStep(parameters: Record<string, unknown>): string {
+    const key = quote(String(parameters.key));
+    if (!parameters.selector && !parameters.ref && !parameters.locator) {
+      return `
+    // Press key
+    await page.keyboard.press(${key});`;
+    }
+    return `
+    // Press key
+    await ${this.generateTargetLocator(parameters)}.press(${key});`;
+  }
+
+  private generateKeyboardStep(parameters: Record<string, unknown>): string {
+    const options = parameters.delay !== undefined ? `, { delay: ${parameters.delay} }` : '';
+    const lines: string[] = [];
+    if (parameters.selector || parameters.ref || parameters.locator) {
+      lines.push(`await ${this.generateTargetLocator(parameters)}.focus();`);
+    }
+    for (const action of toKeyboardActions(parameters.actions)) {
+      if (action.key) {
+        const press = `await page.keyboard.press(${quote(action.key)}${options});`;
+        lines.push((action.repeat ?? 1) > 1 ? `for (let i = 0; i < ${action.repeat}; i++) ${press}` : press);
+      } else if (action.type !== undefined) {
+        lines.push(`await page.keyboard.type(${quote(action.type)}${options});`);
+      } else if (action.insertText !== undefined) {
+        lines.push(`await page.keyboard.insertText(${quote(action.insertText)});`);
+      } else if (action.down) {
+        lines.push(`await page.keyboard.down(${quote(action.down)});`);
+      } else if (action.up) {
+        lines.push(`await page.keyboard.up(${quote(action.up)});`);
+      }
+    }
+    return `
+    // Keyboard input
+${lines.map(line => `    ${line}`).join('\n')}`;
+  }
+
+  private generateSelectTextStep(parameters: Record<string, unknown>): string {
+    const { start, end } = parameters;
+    const locator = this.generateTargetLocator(parameters);
+    if (start === undefined && end === undefined) {
+      return `
+    // Select text
+    await ${locator}.selectText();`;
+    }
+    // Offsets are replayed for text inputs and textareas
+    return `
+    // Select text range
+    await ${locator}.evaluate((el: HTMLInputElement, [start, end]) => {
+      el.focus();
+      el.setSelectionRange(start, end ?? el.value.length);
+    }, [${start ?? 0}, ${end ?? 'null'}] as const);`;
+  }
+
+  private generateDragStep(parameters: Record<string, unknown>): string {
+    const { sourceSelector, sourceLocator, targetSelector, targetLocator, sourcePosition, targetPosition, frame } = parameters;
+    const source = this.generateTargetLocator({ selector: sourceSelector, locator: sourceLocator, frame });
+    const target = this.generateTargetLocator({ selector: targetSelector, locator: targetLocator, frame });
+    const options: string[] = [];
+    for (const [name, position] of [['sourcePosition', sourcePosition], ['targetPosition', targetPosition]] as const) {
+      if (position) {
+        const { x, y } = position as { x: number; y: number };
+        options.push(`${name}: { x: ${x}, y: ${y} }`);
+      }
+    }
+    return `
+    // Drag element
+    await ${source}.dragTo(${target}${options.length > 0 ? `, { ${options.join(', ')} }` : ''});`;
+  }
+
+  private generateMouseStep(parameters: Record<string, unknown>): string {
+    const lines = (parameters.actions as MouseAction[]).map(action => {
+      const button = action.button ? `{ button: ${quote(action.button)} }` : '';
+      switch (action.type) {
+        case 'move':
+          return `await page.mouse.move(${action.x}, ${action.y}${action.steps ? `, { steps: ${action.steps} }` : ''});`;
+        case 'down':
+          return `await page.mouse.down(${button});`;
+        case 'up':
+          return `await page.mouse.up(${button});`;
+        case 'click': {
+          const options = [
+            action.button ? `button: ${quote(action.button)}` : '',
+            action.clickCount ? `clickCount: ${action.clickCount}` : '',
+          ].filter(Boolean);
+          return `await page.mouse.click(${action.x}, ${action.y}${options.length > 0 ? `, { ${options.join(', ')} }` : ''});`;
+        }
+        case 'wheel':
+          return `${action.x !== undefined && action.y !== undefined ? `await page.mouse.move(${action.x}, ${action.y});\n    ` : ''}await page.mouse.wheel(${action.deltaX ?? 0}, ${action.deltaY ?? 0});`;
+      }
+    });
+    return `
+    // Mouse input
+${lines.map(line => `    ${line}`).join('\n')}`;
+  }
+
+  private generateTouchStep(parameters: Record<string, unknown>): string {
+    const { gesture, x, y, deltaX, deltaY, scale, steps } = parameters;
+    const hasTarget = !!(parameters.selector || parameters.ref || parameters.locator);
+    if (gesture === 'tap') {
+      return hasTarget
+        ? `
+    // Tap element
+    await ${this.generateTargetLocator(parameters)}.tap();`
+        : `
+    // Tap
+    await page.touchscreen.tap(${x}, ${y});`;
+    }
+
+    // Swipe and pinch are replayed with raw touch events over CDP, like the tool dispatches them
+    const lines: string[] = [];
+    if (hasTarget) {
+      lines.push(`const box = (await ${this.generateTargetLocator(parameters)}.boundingBox())!;`);
+      lines.push('const start = { x: box.x + box.width / 2, y: box.y + box.height / 2 };');
+    } else {
+      lines.push(`const start = { x: ${x}, y: ${y} };`);
+    }
+    lines.push('const cdp = await page.context().newCDPSession(page);');
+    const stepCount = steps ?? 10;
+    let from: string;
+    let to: string;
+    if (gesture === 'pinch') {
+      const endOffset = 50 * Number(scale ?? 2);
+      from = '[{ x: start.x - 50, y: start.y }, { x: start.x + 50, y: start.y }]';
+      to = `[{ x: start.x - ${endOffset}, y: start.y }, { x: start.x + ${endOffset}, y: start.y }]`;
+    } else {
+      from = '[start]';
+      const offset = (delta: unknown) => {
+        const value = Number(delta ?? 0);
+        return value === 0 ? '' : value < 0 ? ` - ${-value}` : ` + ${value}`;
+      };
+      to = `[{ x: start.x${offset(deltaX)}, y: start.y${offset(deltaY)} }]`;
+    }
+    lines.push(`const from = ${from};`);
+    lines.push(`const to = ${to};`);
+    lines.push("await cdp.send('Input.dispatchTouchEvent', { type: 'touchStart', touchPoints: from.map((p, id) => ({ ...p, id })) });");
+    lines.push(`for (let step = 1; step <= ${stepCount}; step++) {`);
+    lines.push(`  const touchPoints = from.map((p, id) => ({ id, x: p.x + (to[id].x - p.x) * step / ${stepCount}, y: p.y + (to[id].y - p.y) * step / ${stepCount} }));`);
+    lines.push("  await cdp.send('Input.dispatchTouchEvent', { type: 'touchMove', touchPoints });");
+    lines.push('}');
+    lines.push("await cdp.send('Input.dispatchTouchEvent', { type: 'touchEnd', touchPoints: [] });");
+    lines.push('await cdp.detach();');
+    return `
+    // ${gesture === 'pinch' ? 'Pinch' : 'Swipe'}
+    {
+${lines.map(line => `      ${line}`).join('\n')}
+    }`;
+  }
+
+  private generateScrollStep(parameters: Record<string, unknown>): string {
+    const { deltaX, deltaY, to, container } = parameters;
+    if (parameters.selector || parameters.ref || parameters.locator) {
+      return `
+    // Scroll element into view
+    await ${this.generateTargetLocator(parameters)}.scrollIntoViewIfNeeded();`;
+    }
+    return `
+    // Scroll ${to ? `to ${to}` : `by (${deltaX ?? 0}, ${deltaY ?? 0})`}
+    await ${this.generateScrollCall({ deltaX, deltaY, to }, container, parameters.frame)};`;
+  }
+
+  private generateScrollUntilStep(parameters: Record<string, unknown>): string {
+    const { untilSelector, itemSelector, container, deltaY, maxIterations, wait, frame } = parameters;
+    const root = frameToCode(frame as FrameTarget | undefined);
+    const lines: string[] = [];
+    if (itemSelector) lines.push('let previousCount = -1;');
+    lines.push(`for (let i = 0; i < ${maxIterations ?? 20}; i++) {`);
+    if (untilSelector) lines.push(`  if (await ${root}.locator(${quote(String(untilSelector))}).count() > 0) break;`);
+    if (itemSelector) {
+      lines.push(`  const count = await ${root}.locator(${quote(String(itemSelector))}).count();`);
+      lines.push('  if (count <= previousCount) break;');
+      lines.push('  previousCount = count;');
+    }
+    lines.push(`  await ${this.generateScrollCall(deltaY !== undefined ? { deltaY } : { to: 'bottom' }, container, frame)};`);
+    lines.push(`  await page.waitForTimeout(${wait ?? 500});`);
+    lines.push('}');
+    return `
+    // Scroll until ${untilSelector ? `${untilSelector} appears` : 'no more items load'}
+    {
+${lines.map(line => `      ${line}`).join('\n')}
+    }`;
+  }
+
+  private generateScrollCall(options: { deltaX?: unknown; deltaY?: unknown; to?: unknown }, container: unknown, frame?: unknown): string {
+    // Frame locators cannot evaluate, so a frame's document is scrolled through its <html> element
+    if (frame && !container) {
+      container = 'html';
+    }
+    const target = container ? 'el' : 'document.scrollingElement!';
+    let call: string;
+    if (options.to === 'top') {
+      call = `${target}.scrollTo({ top: 0 })`;
+    } else if (options.to === 'bottom') {
+      call = `${target}.scrollTo({ top: ${target}.scrollHeight })`;
+    } else {
+      call = `${target}.scrollBy(${options.deltaX ?? 0}, ${options.deltaY ?? 0})`;
+    }
+    return container
+      ? `${frameToCode(frame as FrameTarget | undefined)}.locator(${quote(String(container))}).evaluate(el => ${call})`
+      : `page.evaluate(() => ${call})`;
+  }
+
+  private generateDialogPolicyStep(parameters: Record<string, unknown>): string | null {
+    const { action, promptText } = parameters;
+    if (action === 'queue') {
+      // Queued dialogs are replayed by the handlers of the playwright_handle_dialog steps
+      return null;
+    }
+    const handler = action === 'accept'
+      ? `dialog.accept(${promptText !== undefined ? quote(String(promptText)) : ''})`
+      : 'dialog.dismiss()';
+    return `
+    // ${action === 'accept' ? 'Accept' : 'Dismiss'} all dialogs
+    page.on('dialog', dialog => ${handler});`;
+  }
+
+  private generateHandleDialogStep(parameters: Record<string, unknown>): string {
+    const { accept, promptText } = parameters;
+    const handler = accept === false
+      ? 'dialog.dismiss()'
+      : `dialog.accept(${promptText !== undefined ? quote(String(promptText)) : ''})`;
+    return `
+    // ${accept === false ? 'Dismiss' : 'Accept'} the next dialog
+    page.once('dialog', dialog => ${handler});`;
+  }
+
+  private generateClickAndDownloadStep(parameters: Record<string, unknown>): string {
+    return `
+    // Click and save the download
+    {
+      const downloadPromise = page.waitForEvent('download');
+      await ${this.generateTargetLocator(parameters)}.click();
+      const download = await downloadPromise;
+      await download.saveAs(test.info().outputPath(download.suggestedFilename()));
+    }`;
+  }
+
+  private generateUploadFileStep(parameters: Record<string, unknown>): string {
+    const { filePath, clear, mode } = parameters;
+    const locator = this.generateTargetLocator(parameters);
+    const paths = filePath === undefined ? [] : ([] as unknown[]).concat(filePath).map(String);
+    const inlineFiles = (parameters.files ?? []) as { name: string; mimeType?: string; buffer: string }[];
+
+    if (mode === 'drop') {
+      // Files on disk are read when the test runs
+      const files = [
+        ...paths.map(p => `{ name: ${quote(path.basename(p))}, mimeType: ${quote(guessMimeType(p))}, buffer: readFileSync(${quote(p)}).toString('base64') }`),
+        ...inlineFiles.map(f => `{ name: ${quote(f.name)}, mimeType: ${quote(f.mimeType ?? guessMimeType(f.name))}, buffer: ${quote(f.buffer)} }`),
+      ];
+      // The data transfer has to live in the frame of the dropzone, which the dropzone locator evaluates in
+      const evaluateHandle = parameters.frame === undefined
+        ? 'page.evaluateHandle(files =>'
+        : `${locator}.evaluateHandle((dropzone, files) =>`;
+      return `
+    // Drop files onto element
+    {${paths.length > 0 ? `
+      const { readFileSync } = await import('node:fs');` : ''}
+      const dataTransfer = await ${evaluateHandle} {
+        const dataTransfer = new DataTransfer();
+        for (const file of files) {
+          const bytes = Uint8Array.from(atob(file.buffer), c => c.charCodeAt(0));
+          dataTransfer.items.add(new File([bytes], file.name, { type: file.mimeType }));
+        }
+        return dataTransfer;
+      }, [${files.join(', ')}]);
+      for (const type of ['dragenter', 'dragover', 'drop']) {
+        await ${locator}.dispatchEvent(type, { dataTransfer });
+      }
+    }`;
+    }
+
+    let files: string;
+    if (clear) {
+      files = '[]';
+    } else if (inlineFiles.length === 0 && typeof filePath === 'string') {
+      files = quote(filePath);
+    } else {
+      files = `[${[
+        ...paths.map(p => quote(p)),
+        ...inlineFiles.map(f => `{ name: ${quote(f.name)}, mimeType: ${quote(f.mimeType ?? guessMimeType(f.name))}, buffer: Buffer.from(${quote(f.buffer)}, 'base64') }`),
+      ].join(', ')}]`;
+    }
+
+    if (mode === 'filechooser') {
+      return `
+    // ${clear ? 'Clear files in' : 'Upload files through'} the file chooser
+    {
+      const fileChooserPromise = page.waitForEvent('filechooser');
+      await ${locator}.click();
+      const fileChooser = await fileChooserPromise;
+      await fileChooser.setFiles(${files});
+    }`;
+    }
+    return `
+    // ${clear ? 'Clear selected files' : 'Upload files'}
+    await ${locator}.setInputFiles(${files});`;
+  }
+
+  private generateTargetLocator(parameters: Record<string, unknown>): string {
+    return this.generateLocator(parameters) ?? `page.locator(${quote(String(parameters.selector))})`;
+  }
+
+  /**
+   * Builds the locator expression of a recorded action targeted through a locator descriptor or a snapshot ref.
+   * Returns null for actions targeted through a plain selector.
+   */
+  private generateLocator(parameters: Record<string, unknown>): string | null {
+    const root = frameToCode(parameters.frame as FrameTarget | undefined);
+    if (parameters.locator) {
+      return locatorToCode(parameters.locator as LocatorDescriptor, root);
+    }
+    if (parameters.refTarget) {
+      const { role, name } = parameters.refTarget as RefTarget;
+      return locatorToCode({ role, ...(name && { name }) }, root);
+    }
+    if (parameters.frame && parameters.selector) {
+      // page.click('selector') style calls cannot reach into frames
+      return `${root}.locator(${quote(String(parameters.selector))})`;
+    }
+    return null;
+  }
+
+  /**
+   * Finds the storage state file the recorded session was started from, if any
+   */
+  private findStorageState(session: CodegenSession): string | undefined {
+    for (const action of session.actions) {
+      const { toolName, parameters } = action;
+      if (toolName === 'playwright_load_storage_state' && typeof parameters.path === 'string') {
+        return parameters.path;
+      }
+      if (toolName === 'playwright_navigate' && typeof parameters.storageState === 'string') {
+        return parameters.storageState;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Finds the User Agent the recorded session set last, if any
+   */
+  private findUserAgent(session: CodegenSession): string | undefined {
+    const action = [...session.actions].reverse().find(action =>
+      action.toolName === 'playwright_custom_user_agent' && typeof action.parameters.userAgent === 'string'
+    );
+    return action?.parameters.userAgent as string | undefined;
+  }
+
+  /**
+   * Finds the device emulation the recorded session navigated with, if any
+   */
+  private findEmulation(session: CodegenSession): Record<string, unknown> | undefined {
+    const navigate = session.actions.find(action =>
+      action.toolName === 'playwright_navigate' && EMULATION_PARAMETERS.some(key => action.parameters[key] !== undefined)
+    );
+    return navigate?.parameters;
+  }
+
+  private generateEmulationOptions(parameters: Record<string, unknown>): string[] {
+    const { device, width, height, geolocation } = parameters;
+    const options: string[] = [];
+    if (device) {
+      let name = String(device);
+      try {
+        // The registry lookup ignores case, devices[...] does not
+        name = findDevice(name).name;
+      } catch {
+        // Unknown devices are emitted as recorded
+      }
+      options.push(`...devices[${quote(name)}]`);
+    }
+    if (width && height) options.push(`viewport: { width: ${width}, height: ${height} }`);
+    for (const key of ['isMobile', 'hasTouch', 'deviceScaleFactor'] as const) {
+      if (parameters[key] !== undefined) options.push(`${key}: ${parameters[key]}`);
+    }
+    for (const key of ['colorScheme', 'reducedMotion', 'locale', 'timezoneId'] as const) {
+      if (parameters[key] !== undefined) options.push(`${key}: ${quote(String(parameters[key]))}`);
+    }
+    if (geolocation) {
+      const { latitude, longitude, accuracy } = geolocation as { latitude: number; longitude: number; accuracy?: number };
+      options.push(`geolocation: { latitude: ${latitude}, longitude: ${longitude}${accuracy !== undefined ? `, accuracy: ${accuracy}` : ''} }`);
+      options.push(`permissions: ['geolocation']`);
+    }
+    return options;
+  }
+
+  private generateTestUse(testCase: PlaywrightTestCase): string {
+    if (testCase.useOptions.length === 0) {
+      return '';
+    }
+    return `
+test.use({ ${testCase.useOptions.join(', ')} });
+`;
   }
 
   private generateTestCode(testCase: PlaywrightTestCase): string {
@@ -191,7 +1014,7 @@ export class PlaywrightGenerator {
 
     return `
 ${imports}
-
+${this.generateTestUse(testCase)}
 test('${testCase.name}', async ({ page, context }) => {
   ${testCase.steps.join('\n')}
 });`;
@@ -200,9 +1023,9 @@ test('${testCase.name}', async ({ page, context }) => {
   private generatePomTestCode(testCase: PlaywrightTestCase): string {
     const ext = this.options.language === 'typescript' ? 'ts' : 'js';
     return `
-import { test, expect } from '@playwright/test';
+import { test, expect${testCase.imports.has('devices') ? ', devices' : ''} } from '@playwright/test';
 import { AppPage } from './pages/AppPage.${ext}';
-
+${this.generateTestUse(testCase)}
 test('${testCase.name}', async ({ page }) => {
   const app = new AppPage(page);
   await app.goto();
@@ -2,6 +2,7 @@ import { Tool } from '../../types.js';
 import { ActionRecorder } from './recorder.js';
 import { PlaywrightGenerator } from './generator.js';
 import { CodegenOptions } from './types.js';
+import { stopAllTracing, getSavedTraces } from '../browser/tracing.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { Browser, Page } from 'playwright';
@@ -85,7 +86,7 @@ export const startCodegenSession: Tool = {
 
 export const endCodegenSession: Tool = {
   name: 'end_codegen_session',
-  description: 'End the current code generation session and generate Playwright test',
+  description: 'End the current code generation session and generate Playwright test. Traces recorded during the session are saved and their paths returned',
   parameters: {
     type: 'object',
     properties: {
@@ -130,6 +131,10 @@ export const endCodegenSession: Tool = {
         throw new Error(`Failed to write generated files: ${writeError.message}`);
       }
 
+      // Save traces still being recorded and attach every trace recorded during the session
+      await stopAllTracing();
+      const tracePaths = getSavedTraces(session.startTime).map(trace => trace.path);
+
       // Close Playwright browser and cleanup
       try {
         if (global.browser?.isConnected()) {
@@ -148,7 +153,12 @@ export const endCodegenSession: Tool = {
         filePath: absolutePath,
         outputDirectory: outputDir,
         testCode: result.testCode,
-        message: `Generated test file at: ${absolutePath}\nOutput directory: ${outputDir}`
+        ...tracePaths.length > 0 && { tracePaths },
+        message: [
+          `Generated test file at: ${absolutePath}`,
+          `Output directory: ${outputDir}`,
+          ...tracePaths.map(tracePath => `Trace: ${tracePath} (open with: npx playwright show-trace ${JSON.stringify(tracePath)})`)
+        ].join('\n')
       };
     } catch (error: any) {
       // Ensure browser cleanup even on error
@@ -19,6 +19,8 @@ export interface PlaywrightTestCase {
   name: string;
   steps: string[];
   imports: Set<string>;
+  // Fixture options emitted as test.use({ ... }) (e.g. "storageState: 'auth.json'")
+  useOptions: string[];
 }
 
 export interface CodegenOptions {
@@ -0,0 +1,35 @@
+import type { DialogEntry } from '../browser/dialogs.js';
+
+// Tool calls waiting for the next dialog the 'queue' policy holds back, keyed by session ID
+const queuedDialogWaiters = new Map<string, Set<(entry: DialogEntry) => void>>();
+
+/**
+ * Tells the tool calls running in a session that a dialog was queued and now blocks the page
+ */
+export function notifyDialogQueued(sessionId: string, entry: DialogEntry): void {
+  for (const waiter of queuedDialogWaiters.get(sessionId) ?? []) {
+    waiter(entry);
+  }
+}
+
+/**
+ * Waits for the next dialog a session queues.
+ * Call cancel once the wait is no longer needed; the promise then never settles.
+ */
+export function waitForQueuedDialog(sessionId: string): { dialog: Promise<DialogEntry>; cancel: () => void } {
+  let waiter!: (entry: DialogEntry) => void;
+  const dialog = new Promise<DialogEntry>(resolve => {
+    waiter = resolve;
+  });
+  const waiters = queuedDialogWaiters.get(sessionId) ?? new Set();
+  waiters.add(waiter);
+  queuedDialogWaiters.set(sessionId, waiters);
+
+  const cancel = () => {
+    waiters.delete(waiter);
+    if (waiters.size === 0 && queuedDialogWaiters.get(sessionId) === waiters) {
+      queuedDialogWaiters.delete(sessionId);
+    }
+  };
+  return { dialog, cancel };
+}
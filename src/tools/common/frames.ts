@@ -0,0 +1,131 @@
+import type { Frame, FrameLocator, Page } from 'playwright';
+import { matchesUrlPattern } from './urlPattern.js';
+import { quote } from './locator.js';
+
+/**
+ * Identifies a frame by the selector of its iframe element, its name or a URL pattern.
+ * Exactly one of selector, name or url must be set.
+ */
+export interface FrameDescriptor {
+  selector?: string;
+  name?: string;
+  // Substring or glob matched against the frame URL
+  url?: string;
+}
+
+/**
+ * One step of a frame path: an iframe selector or a frame descriptor
+ */
+export type FrameStep = string | FrameDescriptor;
+
+/**
+ * The frame a tool works in: a single step, or a list of steps for nested frames (outermost first)
+ */
+export type FrameTarget = FrameStep | FrameStep[];
+
+/**
+ * What locators are built from: the page, a frame found by name or URL, or an iframe found by selector
+ */
+export type FrameRoot = Page | Frame | FrameLocator;
+
+/**
+ * Normalizes a frame target to a list of frame descriptors
+ */
+export function toFrameSteps(target: FrameTarget | undefined): FrameDescriptor[] {
+  if (target === undefined || target === '') {
+    return [];
+  }
+  const steps = Array.isArray(target) ? target : [target];
+  return steps.map(step => {
+    const descriptor = typeof step === 'string' ? { selector: step } : step;
+    if ([descriptor.selector, descriptor.name, descriptor.url].filter(value => value !== undefined).length !== 1) {
+      throw new Error(`Invalid frame: ${JSON.stringify(step)}. Exactly one of selector, name or url must be provided`);
+    }
+    return descriptor;
+  });
+}
+
+/**
+ * Describes a frame target for tool responses, e.g. #checkout >> name="card"
+ */
+export function describeFrame(target: FrameTarget): string {
+  return toFrameSteps(target)
+    .map(step => step.selector ?? (step.name !== undefined ? `name=${JSON.stringify(step.name)}` : `url=${JSON.stringify(step.url)}`))
+    .join(' >> ');
+}
+
+/**
+ * Gets the frame behind a frame root, for APIs that frame locators lack such as evaluate and content
+ */
+export async function toFrame(root: FrameRoot): Promise<Page | Frame> {
+  if (!('owner' in root)) {
+    return root;
+  }
+  const element = await root.owner().elementHandle();
+  const frame = await element?.contentFrame();
+  await element?.dispose();
+  if (!frame) {
+    throw new Error("Frame not found: the element is not an iframe or has no content");
+  }
+  return frame;
+}
+
+/**
+ * Finds a frame by name or URL among the descendants of a frame
+ */
+function findDescendantFrame(parent: Frame, step: FrameDescriptor): Frame {
+  const queue = [...parent.childFrames()];
+  while (queue.length > 0) {
+    const frame = queue.shift()!;
+    const matches = step.name !== undefined ? frame.name() === step.name : matchesUrlPattern(frame.url(), step.url!);
+    if (matches) {
+      return frame;
+    }
+    queue.push(...frame.childFrames());
+  }
+  throw new Error(`Frame not found: ${describeFrame(step)}`);
+}
+
+/**
+ * Resolves a frame target to the root locators are built from.
+ * Iframe selectors become frame locators so they wait for the iframe like any other locator;
+ * names and URL patterns are looked up in the current frame tree.
+ * @param page The page to search in
+ * @param target The frame target, or undefined for the page itself
+ */
+export async function resolveFrameRoot(page: Page, target: FrameTarget | undefined): Promise<FrameRoot> {
+  let root: FrameRoot = page;
+  for (const step of toFrameSteps(target)) {
+    if (step.selector !== undefined) {
+      root = root.frameLocator(step.selector);
+    } else {
+      const parent = await toFrame(root);
+      root = findDescendantFrame('mainFrame' in parent ? parent.mainFrame() : parent, step);
+    }
+  }
+  return root;
+}
+
+/**
+ * Renders a frame target as the frame locator chain to replay it with, e.g. page.frameLocator('#checkout').
+ * Names and URL patterns are matched through the iframe's name and src attributes.
+ * @param target The frame target
+ * @param root The expression the chain starts from
+ */
+export function frameToCode(target: FrameTarget | undefined, root = 'page'): string {
+  let code = root;
+  for (const step of toFrameSteps(target)) {
+    let selector: string;
+    if (step.selector !== undefined) {
+      selector = step.selector;
+    } else if (step.name !== undefined) {
+      selector = `iframe[name=${JSON.stringify(step.name)}]`;
+    } else {
+      // Glob wildcards cannot be expressed in CSS, so the literal parts of the pattern are matched
+      const parts = step.url!.split('*').filter(Boolean);
+      selector = 'iframe' + parts.map(part => `[src*=${JSON.stringify(part)}]`).join('');
+    }
+    code += `.frameLocator(${quote(selector)})`;
+  }
+  return code;
+}
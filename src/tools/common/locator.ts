@@ -0,0 +1,128 @@
+import type { Frame, FrameLocator, Locator, Page } from 'playwright';
+
+/**
+ * Describes how to find an element, mirroring Playwright's built-in locators.
+ * Exactly one of role, text, label, placeholder, testId, css or xpath must be set.
+ */
+export interface LocatorDescriptor {
+  role?: string;
+  // Accessible name, used together with role
+  name?: string;
+  text?: string;
+  label?: string;
+  placeholder?: string;
+  testId?: string;
+  css?: string;
+  xpath?: string;
+  // Match name/text/label/placeholder exactly instead of as a case-insensitive substring
+  exact?: boolean;
+  // Pick one of several matches (0-based, -1 for the last)
+  nth?: number;
+  // Selector of the iframe to search in, or a list of selectors for nested iframes
+  frame?: string | string[];
+}
+
+/**
+ * Builds a Playwright locator from a descriptor
+ * @param page The page, frame or frame locator to search in
+ * @param descriptor The locator descriptor
+ */
+export function buildLocator(page: Page | Frame | FrameLocator, descriptor: LocatorDescriptor): Locator {
+  let root: Page | Frame | FrameLocator = page;
+  for (const frame of toFrameList(descriptor.frame)) {
+    root = root.frameLocator(frame);
+  }
+
+  const exact = descriptor.exact !== undefined ? { exact: descriptor.exact } : {};
+  let locator: Locator;
+  if (descriptor.role) {
+    locator = root.getByRole(descriptor.role as Parameters<Page['getByRole']>[0], {
+      ...(descriptor.name !== undefined && { name: descriptor.name }),
+      ...exact,
+    });
+  } else if (descriptor.text !== undefined) {
+    locator = root.getByText(descriptor.text, exact);
+  } else if (descriptor.label !== undefined) {
+    locator = root.getByLabel(descriptor.label, exact);
+  } else if (descriptor.placeholder !== undefined) {
+    locator = root.getByPlaceholder(descriptor.placeholder, exact);
+  } else if (descriptor.testId !== undefined) {
+    locator = root.getByTestId(descriptor.testId);
+  } else if (descriptor.css) {
+    locator = root.locator(descriptor.css);
+  } else if (descriptor.xpath) {
+    locator = root.locator(`xpath=${descriptor.xpath}`);
+  } else {
+    throw new Error("Invalid locator: one of role, text, label, placeholder, testId, css or xpath must be provided");
+  }
+
+  if (descriptor.nth !== undefined) {
+    locator = descriptor.nth === -1 ? locator.last() : locator.nth(descriptor.nth);
+  }
+  return locator;
+}
+
+/**
+ * Renders a descriptor as the equivalent Playwright code, e.g. page.getByRole('button', { name: 'Save' }).
+ * Used both to describe the target in tool responses and to generate test code.
+ * @param descriptor The locator descriptor
+ * @param root The expression the locator chain starts from
+ */
+export function locatorToCode(descriptor: LocatorDescriptor, root = 'page'): string {
+  let code = root;
+  for (const frame of toFrameList(descriptor.frame)) {
+    code += `.frameLocator(${quote(frame)})`;
+  }
+
+  const exact = descriptor.exact !== undefined ? `exact: ${descriptor.exact}` : '';
+  const withOptions = (options: string[]) => {
+    const present = options.filter(Boolean);
+    return present.length > 0 ? `, { ${present.join(', ')} }` : '';
+  };
+
+  if (descriptor.role) {
+    const name = descriptor.name !== undefined ? `name: ${quote(descriptor.name)}` : '';
+    code += `.getByRole(${quote(descriptor.role)}${withOptions([name, exact])})`;
+  } else if (descriptor.text !== undefined) {
+    code += `.getByText(${quote(descriptor.text)}${withOptions([exact])})`;
+  } else if (descriptor.label !== undefined) {
+    code += `.getByLabel(${quote(descriptor.label)}${withOptions([exact])})`;
+  } else if (descriptor.placeholder !== undefined) {
+    code += `.getByPlaceholder(${quote(descriptor.placeholder)}${withOptions([exact])})`;
+  } else if (descriptor.testId !== undefined) {
+    code += `.getByTestId(${quote(descriptor.testId)})`;
+  } else if (descriptor.css) {
+    code += `.locator(${quote(descriptor.css)})`;
+  } else if (descriptor.xpath) {
+    code += `.locator(${quote(`xpath=${descriptor.xpath}`)})`;
+  }
+
+  if (descriptor.nth !== undefined) {
+    code += descriptor.nth === -1 ? '.last()' : `.nth(${descriptor.nth})`;
+  }
+  return code;
+}
+
+/**
+ * Normalizes the frame option to a list of iframe selectors
+ */
+function toFrameList(frame: string | string[] | undefined): string[] {
+  if (!frame) {
+    return [];
+  }
+  return Array.isArray(frame) ? frame : [frame];
+}
+
+// Escapes of characters that end a single-quoted JavaScript literal
+const LINE_BREAK_ESCAPES: Record<string, string> = { '\n': '\\n', '\r': '\\r', '\u2028': '\\u2028', '\u2029': '\\u2029' };
+
+/**
+ * Quotes a string as a single-quoted JavaScript literal
+ */
+export function quote(value: string): string {
+  const escaped = String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/[\n\r\u2028\u2029]/g, char => LINE_BREAK_ESCAPES[char]);
+  return `'${escaped}'`;
+}
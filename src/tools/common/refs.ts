@@ -0,0 +1,13 @@
+// Attribute playwright_snapshot stores element refs in; refs stay the same across snapshots while the element lives
+export const REF_ATTRIBUTE = 'data-mcp-ref';
+
+/**
+ * Converts a ref from playwright_snapshot into a CSS selector.
+ * The ref is escaped as a CSS string, so a malformed ref matches nothing instead of breaking the selector.
+ */
+export function refToSelector(ref: string): string {
+  const escaped = ref
+    .replace(/["\\]/g, '\\$&')
+    .replace(/[\x00-\x1f\x7f]/g, char => `\\${char.charCodeAt(0).toString(16)} `);
+  return `[${REF_ATTRIBUTE}="${escaped}"]`;
+}
@@ -1,12 +1,16 @@
 import type { CallToolResult, TextContent, ImageContent } from '@modelcontextprotocol/sdk/types.js';
 import type { Page, Browser, APIRequestContext } from 'playwright';
 
+// Session used when a tool call does not name one
+export const DEFAULT_SESSION_ID = 'default';
+
 // Context for tool execution
 export interface ToolContext {
   page?: Page;
   browser?: Browser;
   apiContext?: APIRequestContext;
   server?: any;
+  sessionId?: string;
 }
 
 // Standard response format for all tools
@@ -0,0 +1,16 @@
+/**
+ * Matches a URL against a pattern.
+ * Patterns containing "*" are globs ("*" matches within a path segment, "**" matches anything),
+ * other patterns match as a plain substring.
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return url.includes(pattern);
+  }
+  const regex = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\u0000/g, '.*');
+  return new RegExp(`^${regex}$`).test(url);
+}